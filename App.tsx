@@ -6,14 +6,26 @@ import { ResultsPage } from './components/ResultsPage';
 import { PharmacyDetailModal } from './components/PharmacyDetailModal';
 import { AccessibilityControls } from './components/AccessibilityControls';
 import { getMedicineRecommendations, validateMedicineName, getMedicineDescription, getMedicineAlternative } from './services/geminiService';
-import { checkMedicineLocally, findNearbyPharmacies, getMedicineDetailsForPharmacy } from './services/pharmacyService';
+import { checkMedicineLocally, searchNearbyPharmacies, getMedicineDetailsForPharmacy, searchMedicinesLocally, searchBasket, findOpenPharmaciesNow, subscribeToPharmacyChanges, DEFAULT_SEARCH_RADIUS_KM } from './services/pharmacyService';
+import { loadBestOptionWeights, saveBestOptionWeights } from './services/bestOptionScoring';
+import { createUnitPriceComparator } from './services/unitPricing';
 import { StockStatus } from './types';
-import type { Pharmacy, SortKey, FontSize, SearchConfirmation } from './types';
+import type { Pharmacy, SortKey, FontSize, SearchConfirmation, BestOptionWeights, BasketSearchResult, OpenPharmacy } from './types';
 import { PharmacyOwnerPage } from './components/PharmacyOwnerPage';
+import { DatabaseRecoveryBanner } from './components/DatabaseRecoveryBanner';
+import { BasketResultsPage } from './components/BasketResultsPage';
+import { EmergencyResultsPage } from './components/EmergencyResultsPage';
 
+const STOCK_RANK: Record<StockStatus, number> = {
+  [StockStatus.Available]: 0,
+  [StockStatus.LowStock]: 0,
+  [StockStatus.LastFew]: 0,
+  [StockStatus.Unconfirmed]: 1,
+  [StockStatus.Unavailable]: 2,
+};
 
 export default function App() {
-  const [page, setPage] = useState<'home' | 'results' | 'pharmacyOwner'>('home');
+  const [page, setPage] = useState<'home' | 'results' | 'basket' | 'emergency' | 'pharmacyOwner'>('home');
   const [pharmacies, setPharmacies] = useState<Pharmacy[]>([]);
   const [selectedPharmacy, setSelectedPharmacy] = useState<Pharmacy | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -25,6 +37,15 @@ export default function App() {
   const [searchConfirmation, setSearchConfirmation] = useState<SearchConfirmation | null>(null);
   const [searchedMedicine, setSearchedMedicine] = useState<string>('');
   const [medicineDescription, setMedicineDescription] = useState<string>('');
+  const [searchLocation, setSearchLocation] = useState<{ lat: number; lon: number } | null>(null);
+  const [radiusKm, setRadiusKm] = useState<number>(DEFAULT_SEARCH_RADIUS_KM);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [totalResults, setTotalResults] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [bestOptionWeights, setBestOptionWeights] = useState<BestOptionWeights>(loadBestOptionWeights);
+  const [basketResult, setBasketResult] = useState<BasketSearchResult | null>(null);
+  const [openNowOnly, setOpenNowOnly] = useState(false);
+  const [openPharmacies, setOpenPharmacies] = useState<OpenPharmacy[]>([]);
 
   useEffect(() => {
     document.body.classList.remove('font-size-base', 'font-size-lg', 'font-size-xl');
@@ -34,6 +55,8 @@ export default function App() {
   const handleMedicineSelect = (medicine: string) => {
     setSearchConfirmation(null);
     setPharmacies([]);
+    setNextOffset(null);
+    setTotalResults(0);
     setMedicineChoices([]);
     setMedicineDescription('');
     setSearchedMedicine(medicine);
@@ -51,20 +74,19 @@ export default function App() {
     navigator.geolocation.getCurrentPosition(
       async (position) => {
         const { latitude, longitude } = position.coords;
+        const location = { lat: latitude, lon: longitude };
+        setSearchLocation(location);
         setStatusText(`Finding pharmacies with ${medicine} near you...`);
         try {
           const descriptionPromise = getMedicineDescription(medicine);
-          const pharmaciesPromise = findNearbyPharmacies({ lat: latitude, lon: longitude }, medicine);
+          const pharmaciesPromise = searchNearbyPharmacies(location, medicine, { maxRadiusKm: radiusKm, weights: bestOptionWeights, openNow: openNowOnly });
           
-          let [description, foundPharmacies] = await Promise.all([descriptionPromise, pharmaciesPromise]);
+          const [description, page] = await Promise.all([descriptionPromise, pharmaciesPromise]);
 
           setMedicineDescription(description);
-          
-          const availablePharmacies = foundPharmacies.filter(
-            p => p.stock === StockStatus.Available
-          );
-
-          setPharmacies(availablePharmacies);
+          setPharmacies(page.pharmacies);
+          setTotalResults(page.total);
+          setNextOffset(page.nextOffset);
 
         } catch (error) {
            console.error("Failed to find pharmacies or get description:", error);
@@ -87,6 +109,84 @@ export default function App() {
     );
   };
 
+  const handleLoadMore = async () => {
+    if (!searchLocation || nextOffset === null) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await searchNearbyPharmacies(searchLocation, searchedMedicine, { maxRadiusKm: radiusKm, offset: nextOffset, weights: bestOptionWeights, openNow: openNowOnly });
+      setPharmacies(current => [...current, ...page.pharmacies]);
+      setTotalResults(page.total);
+      setNextOffset(page.nextOffset);
+    } catch (error) {
+      console.error("Failed to load more pharmacies:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Re-runs the current search from the first page, e.g. after the radius, preferences or filters change.
+  const reloadResults = async (newRadiusKm: number, weights: BestOptionWeights, openNow: boolean, loadingText: string) => {
+    if (!searchLocation || !searchedMedicine) return;
+    setIsLoading(true);
+    setStatusText(loadingText);
+    try {
+      const page = await searchNearbyPharmacies(searchLocation, searchedMedicine, { maxRadiusKm: newRadiusKm, weights, openNow });
+      setPharmacies(page.pharmacies);
+      setTotalResults(page.total);
+      setNextOffset(page.nextOffset);
+      setStatusText('');
+    } catch (error) {
+      console.error("Failed to find pharmacies:", error);
+      setStatusText('Could not fetch pharmacy data.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Refreshes the shown results in place when an owner changes one of the shown pharmacies, in this tab or another.
+  useEffect(() => {
+    if (page !== 'results' || !searchLocation || !searchedMedicine || pharmacies.length === 0) return;
+    let isCurrent = true;
+    const unsubscribe = subscribeToPharmacyChanges(async ({ pharmacyIds }) => {
+      if (!pharmacies.some(p => pharmacyIds.includes(p.id))) return;
+      try {
+        const page = await searchNearbyPharmacies(searchLocation, searchedMedicine, { maxRadiusKm: radiusKm, weights: bestOptionWeights, openNow: openNowOnly, pageSize: pharmacies.length });
+        // A new search may have started while this one ran.
+        if (!isCurrent) return;
+        setPharmacies(page.pharmacies);
+        setTotalResults(page.total);
+        setNextOffset(page.nextOffset);
+        setSelectedPharmacy(current => current && (page.pharmacies.find(p => p.id === current.id) ?? current));
+      } catch (error) {
+        console.error("Failed to refresh pharmacies:", error);
+      }
+    });
+    return () => {
+      isCurrent = false;
+      unsubscribe();
+    };
+  }, [page, pharmacies, searchLocation, searchedMedicine, radiusKm, bestOptionWeights, openNowOnly]);
+
+  const handleRadiusChange = (newRadiusKm: number) => {
+    setRadiusKm(newRadiusKm);
+    reloadResults(newRadiusKm, bestOptionWeights, openNowOnly, `Finding pharmacies within ${newRadiusKm} km...`);
+  };
+
+  const handleBestOptionWeightsChange = (weights: BestOptionWeights) => {
+    setBestOptionWeights(weights);
+    try {
+      saveBestOptionWeights(weights);
+    } catch (error) {
+      console.error("Failed to save Best Option preferences", error);
+    }
+    reloadResults(radiusKm, weights, openNowOnly, 'Updating the Best Option...');
+  };
+
+  const handleOpenNowChange = (openNow: boolean) => {
+    setOpenNowOnly(openNow);
+    reloadResults(radiusKm, bestOptionWeights, openNow, openNow ? 'Finding pharmacies open now...' : 'Finding pharmacies...');
+  };
+
   const handleMedicineSearch = async (medicine: string) => {
     const trimmedMedicine = medicine.trim();
     if (!trimmedMedicine) return;
@@ -105,6 +205,20 @@ export default function App() {
             handleMedicineSelect(trimmedMedicine);
             return;
         }
+
+        // Resolve typos against what pharmacies actually stock before asking the AI service.
+        const localMatches = await searchMedicinesLocally(trimmedMedicine);
+        if (localMatches.length > 0) {
+            const [bestMatch, ...otherMatches] = localMatches;
+            setSearchConfirmation({
+                suggestion: bestMatch.name,
+                original: trimmedMedicine,
+                alternatives: otherMatches.map(m => m.name),
+            });
+            setIsLoading(false);
+            setStatusText(`We think you meant '${bestMatch.name}'.`);
+            return;
+        }
         
         setStatusText(`Validating '${trimmedMedicine}'...`);
         const validation = await validateMedicineName(trimmedMedicine);
@@ -165,18 +279,100 @@ export default function App() {
     }
   };
 
+  const handleBasketSearch = (medicines: string[]) => {
+    setPage('basket');
+    setBasketResult(null);
+    setLocationError('');
+    setIsLoading(true);
+    setStatusText('Getting your location...');
+
+    if (!navigator.geolocation) {
+      setIsLoading(false);
+      setStatusText('Geolocation is not supported by your browser.');
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const location = { lat: position.coords.latitude, lon: position.coords.longitude };
+        setStatusText(`Finding pharmacies for all ${medicines.length} medicines...`);
+        try {
+          setBasketResult(await searchBasket(location, medicines, { maxRadiusKm: radiusKm }));
+          setStatusText('');
+        } catch (error) {
+          console.error("Basket search failed:", error);
+          setStatusText('Could not fetch pharmacy data.');
+        } finally {
+          setIsLoading(false);
+        }
+      },
+      (error) => {
+        console.error("Geolocation error:", error);
+        setStatusText(error.code === error.PERMISSION_DENIED
+          ? 'Location access denied. Please allow location access to find nearby pharmacies.'
+          : 'Could not get your location. Please enable location services in your browser settings.');
+        setIsLoading(false);
+      }
+    );
+  };
+
+  // Emergency mode: skips medicine validation and goes straight to pharmacies open right now.
+  const handleEmergencySearch = (medicine: string) => {
+    const trimmedMedicine = medicine.trim();
+    setPage('emergency');
+    setOpenPharmacies([]);
+    setSearchedMedicine(trimmedMedicine);
+    setLocationError('');
+    setIsLoading(true);
+    setStatusText('Getting your location...');
+
+    if (!navigator.geolocation) {
+      setIsLoading(false);
+      setStatusText('Geolocation is not supported by your browser.');
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const location = { lat: position.coords.latitude, lon: position.coords.longitude };
+        setStatusText('Finding pharmacies open now...');
+        try {
+          setOpenPharmacies(await findOpenPharmaciesNow(location, { medicineName: trimmedMedicine, maxRadiusKm: radiusKm }));
+          setStatusText('');
+        } catch (error) {
+          console.error("Emergency search failed:", error);
+          setStatusText('Could not fetch pharmacy data.');
+        } finally {
+          setIsLoading(false);
+        }
+      },
+      (error) => {
+        console.error("Geolocation error:", error);
+        setStatusText(error.code === error.PERMISSION_DENIED
+          ? 'Location access denied. Please allow location access to find nearby pharmacies.'
+          : 'Could not get your location. Please enable location services in your browser settings.');
+        setIsLoading(false);
+      },
+      // Don't wait long for a precise fix in an emergency.
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
   const sortedPharmacies = useMemo(() => {
+    const compareByUnitPrice = createUnitPriceComparator(pharmacies);
     return [...pharmacies].sort((a, b) => {
       if (a.isBestOption) return -1;
       if (b.isBestOption) return 1;
+      // Stock the owner hasn't confirmed recently always ranks below confirmed stock.
+      if (STOCK_RANK[a.stock] !== STOCK_RANK[b.stock]) return STOCK_RANK[a.stock] - STOCK_RANK[b.stock];
       switch (sortBy) {
         case 'price':
-          return a.price - b.price;
+          // Per tablet or ml where pack sizes are known, so a 15-tablet strip isn't penalised against a 10-tablet one.
+          return compareByUnitPrice(a, b);
         case 'distance':
           return a.distance - b.distance;
         case 'availability':
-          // All pharmacies are 'Available', so this sort is equivalent
-          // to sorting by distance as a secondary criterion.
+          // Stock is already compared above, so fall back to distance.
           return a.distance - b.distance;
         default:
           return 0;
@@ -202,6 +398,10 @@ export default function App() {
     setIsLoading(false);
     setSearchedMedicine('');
     setMedicineDescription('');
+    setNextOffset(null);
+    setTotalResults(0);
+    setBasketResult(null);
+    setOpenPharmacies([]);
   }
   
   const handlePharmacyOwnerClick = () => {
@@ -211,8 +411,9 @@ export default function App() {
   return (
     <div className={`bg-[#121212] min-h-screen text-gray-200 selection:bg-teal-500/30 font-size-${fontSize}`}>
       <Header onHomeClick={handleReturnHome} onPharmacyOwnerClick={handlePharmacyOwnerClick} />
+      <DatabaseRecoveryBanner />
       <main className="px-4 py-8 sm:px-6 lg:px-8">
-        {page === 'home' && <HomePage onMedicineSearch={handleMedicineSearch} onDiseaseSearch={handleDiseaseSearch} />}
+        {page === 'home' && <HomePage onMedicineSearch={handleMedicineSearch} onDiseaseSearch={handleDiseaseSearch} onBasketSearch={handleBasketSearch} onEmergencySearch={handleEmergencySearch} />}
         {page === 'results' && (
           <ResultsPage
             pharmacies={sortedPharmacies}
@@ -226,6 +427,28 @@ export default function App() {
             searchConfirmation={searchConfirmation}
             searchedMedicine={searchedMedicine}
             medicineDescription={medicineDescription}
+            radiusKm={radiusKm}
+            onRadiusChange={handleRadiusChange}
+            openNowOnly={openNowOnly}
+            onOpenNowChange={handleOpenNowChange}
+            bestOptionWeights={bestOptionWeights}
+            onBestOptionWeightsChange={handleBestOptionWeightsChange}
+            totalResults={totalResults}
+            hasMore={nextOffset !== null}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={handleLoadMore}
+          />
+        )}
+        {page === 'basket' && (
+          <BasketResultsPage result={basketResult} isLoading={isLoading} statusText={statusText} radiusKm={radiusKm} />
+        )}
+        {page === 'emergency' && (
+          <EmergencyResultsPage
+            pharmacies={openPharmacies}
+            medicineName={searchedMedicine}
+            isLoading={isLoading}
+            statusText={statusText}
+            radiusKm={radiusKm}
           />
         )}
         {page === 'pharmacyOwner' && <PharmacyOwnerPage />}
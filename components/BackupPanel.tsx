@@ -0,0 +1,203 @@
+import React, { useState, useRef } from 'react';
+import { createBackup, getBackupFileName, parseBackup, previewBackupImport, applyBackup } from '../services/databaseBackup';
+import type { DatabaseBackup, BackupImportMode, BackupImportPreview, ChangeCounts } from '../services/databaseBackup';
+
+interface BackupPanelProps {
+  /** Called after a backup has been restored, so saved owners and inventories can be reloaded. */
+  onRestored: () => void;
+}
+
+const describeCounts = (label: string, counts: ChangeCounts) => {
+  const parts = [
+    counts.added > 0 && `${counts.added} added`,
+    counts.changed > 0 && `${counts.changed} updated`,
+    counts.removed > 0 && `${counts.removed} removed`,
+  ].filter(Boolean);
+  return `${label}: ${parts.length > 0 ? parts.join(', ') : 'no changes'}`;
+};
+
+const ModeButton: React.FC<{ active: boolean; onClick: () => void; title: string; description: string }> = ({ active, onClick, title, description }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`flex-1 text-left p-3 rounded-lg border transition-colors ${active ? 'border-teal-500 bg-teal-500/10' : 'border-gray-700 hover:bg-gray-800'}`}
+  >
+    <span className="block font-semibold text-white text-sm">{title}</span>
+    <span className="block text-xs text-gray-400 mt-1">{description}</span>
+  </button>
+);
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({ onRestored }) => {
+  const [backup, setBackup] = useState<DatabaseBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<BackupImportMode>('merge');
+  const [preview, setPreview] = useState<BackupImportPreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const showPreview = async (selectedBackup: DatabaseBackup, selectedMode: BackupImportMode) => {
+    setMode(selectedMode);
+    setPreview(null);
+    setError('');
+    try {
+      setPreview(await previewBackupImport(selectedBackup, selectedMode));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The backup could not be compared with your data.');
+    }
+  };
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    setError('');
+    setMessage('');
+    try {
+      const newBackup = await createBackup();
+      const url = URL.createObjectURL(new Blob([JSON.stringify(newBackup, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBackupFileName(newBackup);
+      link.click();
+      URL.revokeObjectURL(url);
+      const unreadable = newBackup.unreadableLegacyInventories ?? [];
+      setMessage(unreadable.length > 0
+        ? `Backup downloaded, without the older inventory copies of pharmacies ${unreadable.join(', ')}: they can't be read. Keep it somewhere safe, outside this browser.`
+        : 'Backup downloaded. Keep it somewhere safe, outside this browser.');
+    } catch (err) {
+      console.error("Failed to export backup", err);
+      setError(err instanceof Error ? err.message : 'The backup could not be created.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setBackup(null);
+    setPreview(null);
+    setError('');
+    setMessage('');
+    setFileName(file.name);
+    try {
+      const parsed = parseBackup(await file.text());
+      setBackup(parsed);
+      await showPreview(parsed, 'merge');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be read.');
+    }
+  };
+
+  const handleCancel = () => {
+    setBackup(null);
+    setPreview(null);
+    setError('');
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !window.confirm('Replace all pharmacy data in this browser with the backup? Anything not in the backup will be lost.')) return;
+    setIsWorking(true);
+    setError('');
+    try {
+      await applyBackup(backup, mode);
+      setBackup(null);
+      setPreview(null);
+      setMessage('Backup restored.');
+      onRestored();
+    } catch (err) {
+      console.error("Failed to restore backup", err);
+      setError(err instanceof Error ? err.message : 'The backup could not be restored.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-[#1E1E1E] p-6 rounded-2xl shadow-2xl shadow-teal-900/20">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">Backup &amp; Restore</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Pharmacy data is only stored in this browser. Download a backup so clearing your browser data doesn't lose it.
+          </p>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isWorking}
+            className="px-4 py-2 bg-teal-500 text-white text-sm font-bold rounded-full hover:bg-teal-400 transition-all disabled:opacity-50 whitespace-nowrap"
+          >
+            Download Backup
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json,application/json" className="hidden" />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isWorking}
+            className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-full hover:bg-gray-600 transition-all disabled:opacity-50 whitespace-nowrap"
+          >
+            Restore…
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="mt-4 text-sm text-green-400">{message}</p>}
+      {error && <p role="alert" className="mt-4 text-sm text-red-400">{error}</p>}
+
+      {backup && (
+        <div className="mt-6 space-y-4">
+          <p className="text-sm text-gray-300">
+            <span className="font-semibold text-white">{fileName}</span>
+            {backup.exportedAt > 0 && `, made ${new Date(backup.exportedAt).toLocaleString()}`}
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <ModeButton
+              active={mode === 'merge'}
+              onClick={() => showPreview(backup, 'merge')}
+              title="Merge"
+              description="Keep your current data and add what's in the backup. Newer inventory changes win."
+            />
+            <ModeButton
+              active={mode === 'replace'}
+              onClick={() => showPreview(backup, 'replace')}
+              title="Replace"
+              description="Discard your current data and use the backup as it is."
+            />
+          </div>
+          {preview && (
+            <ul className="text-sm text-gray-300 space-y-1 bg-[#2a2a2a] p-4 rounded-lg">
+              <li>{describeCounts('Pharmacies', preview.pharmacies)}</li>
+              <li>{describeCounts('Inventory items', preview.inventoryItems)}</li>
+              <li>{describeCounts('Saved logins', preview.savedOwners)}</li>
+              {(preview.legacyInventories.added + preview.legacyInventories.changed + preview.legacyInventories.removed) > 0 && (
+                <li>{describeCounts('Older inventory copies', preview.legacyInventories)}</li>
+              )}
+              {preview.unreadableLegacyInventories.length > 0 && (
+                <li className="text-amber-300">
+                  The older inventory copies of pharmacies {preview.unreadableLegacyInventories.join(', ')} can't be read and are left as they are, unless the backup has one for the same pharmacy.
+                </li>
+              )}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={handleCancel} className="px-4 py-2 text-gray-300 text-sm font-semibold rounded-full hover:bg-gray-700 transition-all">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleRestore}
+              disabled={isWorking || !preview}
+              className={`px-4 py-2 text-white text-sm font-bold rounded-full transition-all disabled:opacity-50 ${mode === 'replace' ? 'bg-red-500 hover:bg-red-400' : 'bg-teal-500 hover:bg-teal-400'}`}
+            >
+              {isWorking ? 'Restoring...' : mode === 'replace' ? 'Replace My Data' : 'Merge Backup'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React from 'react';
+import type { BasketOption, BasketSearchResult, BasketStop } from '../types';
+import { MapPinIcon, PhoneIcon, PillIcon } from './icons';
+
+interface BasketResultsPageProps {
+  result: BasketSearchResult | null;
+  isLoading: boolean;
+  statusText: string;
+  radiusKm: number;
+}
+
+const StopCard: React.FC<{ stop: BasketStop; index?: number }> = ({ stop, index }) => (
+  <div className="bg-[#2a2a2a] rounded-xl p-4">
+    <div className="flex justify-between items-start gap-4">
+      <div>
+        <h4 className="font-bold text-white">
+          {index !== undefined && <span className="text-cyan-400 mr-2">Stop {index + 1}</span>}
+          {stop.name}
+        </h4>
+        <p className="text-sm text-gray-400 flex items-center gap-1 mt-1">
+          <MapPinIcon className="h-4 w-4 flex-shrink-0" />
+          {stop.distance} km away · {stop.address}
+        </p>
+      </div>
+      <p className="text-lg font-bold text-cyan-400 whitespace-nowrap">₹{stop.subtotal.toFixed(2)}</p>
+    </div>
+    <ul className="mt-3 space-y-1 text-sm">
+      {stop.items.map(line => (
+        <li key={line.medicineName} className="flex justify-between gap-4 text-gray-300">
+          <span className="flex items-center gap-2">
+            <PillIcon className="h-4 w-4 text-teal-400 flex-shrink-0" />
+            {line.medicineName}
+            {line.matchedMedicineName.toLowerCase() !== line.medicineName.toLowerCase() && (
+              <span className="text-gray-500">({line.matchedMedicineName})</span>
+            )}
+          </span>
+          <span className="whitespace-nowrap">₹{line.price.toFixed(2)}</span>
+        </li>
+      ))}
+    </ul>
+    <div className="mt-3 flex gap-3 text-sm">
+      <a
+        href={`https://www.google.com/maps/dir/?api=1&destination=${stop.lat},${stop.lon}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="px-4 py-2 bg-gray-700 text-white font-semibold rounded-full hover:bg-gray-600 transition-colors"
+      >
+        Directions
+      </a>
+      <a
+        href={`tel:${stop.phone}`}
+        className="px-4 py-2 bg-teal-500 text-white font-semibold rounded-full hover:bg-teal-400 transition-colors flex items-center gap-1"
+      >
+        <PhoneIcon className="h-4 w-4" />
+        Call
+      </a>
+    </div>
+  </div>
+);
+
+const OptionSummary: React.FC<{ option: BasketOption }> = ({ option }) => (
+  <div className="flex justify-between items-baseline">
+    <p className="text-sm text-gray-400">
+      {option.stops.length === 1 ? `${option.travelDistance} km away` : `${option.travelDistance} km trip`}
+    </p>
+    <p className="text-2xl font-extrabold text-cyan-400">₹{option.totalCost.toFixed(2)} <span className="text-sm font-normal text-gray-400">total</span></p>
+  </div>
+);
+
+export const BasketResultsPage: React.FC<BasketResultsPageProps> = ({ result, isLoading, statusText, radiusKm }) => {
+  if (isLoading) {
+    return (
+      <div className="text-center py-10">
+        <div className="w-12 h-12 border-4 border-cyan-400 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-lg text-gray-300">{statusText || 'Searching for pharmacies...'}</p>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return <p className="text-center text-gray-400 py-10">{statusText}</p>;
+  }
+
+  const { medicines, completePharmacies, cheapestTwoStop, unavailableMedicines } = result;
+  const cheapestSingle = completePharmacies[0];
+
+  return (
+    <div className="container mx-auto max-w-3xl space-y-8">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Your prescription</h2>
+        <p className="mt-1 text-gray-400">{medicines.join(' · ')}</p>
+      </div>
+
+      {unavailableMedicines.length > 0 && (
+        <p className="text-center text-gray-400 py-6">
+          No pharmacy within {radiusKm} km has {unavailableMedicines.join(', ')} in stock, so we can't fill the whole list nearby.
+        </p>
+      )}
+
+      {cheapestTwoStop && (
+        <section className="bg-[#1E1E1E] rounded-2xl p-5 ring-2 ring-cyan-500 space-y-4">
+          <div>
+            <h3 className="text-lg font-bold text-white">Cheapest with two stops</h3>
+            {cheapestSingle && (
+              <p className="text-sm text-cyan-300">
+                Saves ₹{(cheapestSingle.totalCost - cheapestTwoStop.totalCost).toFixed(2)} compared with buying everything at one pharmacy.
+              </p>
+            )}
+          </div>
+          <OptionSummary option={cheapestTwoStop} />
+          {cheapestTwoStop.stops.map((stop, index) => (
+            <StopCard key={stop.pharmacyId} stop={stop} index={index} />
+          ))}
+        </section>
+      )}
+
+      {unavailableMedicines.length === 0 && (
+        <section className="space-y-4">
+          <h3 className="text-lg font-bold text-white">Pharmacies with everything on your list</h3>
+          {completePharmacies.length === 0 ? (
+            <p className="text-gray-400">
+              No single pharmacy within {radiusKm} km has every medicine in stock.
+            </p>
+          ) : (
+            completePharmacies.map(option => (
+              <div key={option.stops[0].pharmacyId} className="bg-[#1E1E1E] rounded-2xl p-5 ring-1 ring-gray-700/50 space-y-3">
+                <OptionSummary option={option} />
+                <StopCard stop={option.stops[0]} />
+              </div>
+            ))
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import type { BestOptionWeights, ScoreFactor } from '../types';
+import { SCORE_FACTORS, DEFAULT_BEST_OPTION_WEIGHTS, getScoreFactorLabel } from '../services/bestOptionScoring';
+import { StarIcon } from './icons';
+
+interface BestOptionPreferencesProps {
+  weights: BestOptionWeights;
+  onChange: (weights: BestOptionWeights) => void;
+}
+
+const WEIGHT_LEVELS = [
+  { value: 0, label: "Don't care" },
+  { value: 1, label: 'A little' },
+  { value: 2, label: 'Important' },
+  { value: 3, label: 'Very important' },
+];
+
+export const BestOptionPreferences: React.FC<BestOptionPreferencesProps> = ({ weights, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleWeightChange = (factor: ScoreFactor, value: number) => {
+    onChange({ ...weights, [factor]: value });
+  };
+
+  const isDefault = SCORE_FACTORS.every(factor => weights[factor] === DEFAULT_BEST_OPTION_WEIGHTS[factor]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        aria-controls="best-option-preferences"
+        className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-full bg-[#2a2a2a] text-gray-300 hover:bg-gray-600 transition-all duration-200"
+      >
+        <StarIcon className="h-4 w-4 text-cyan-400" />
+        Best Option preferences
+      </button>
+      {isOpen && (
+        <div
+          id="best-option-preferences"
+          className="absolute left-0 md:left-auto md:right-0 top-full mt-2 z-30 w-72 bg-[#2a2a2a] border border-gray-700 rounded-2xl shadow-2xl p-4 space-y-3"
+        >
+          <p className="text-xs text-gray-400">How much should each of these count when we pick the Best Option?</p>
+          {SCORE_FACTORS.map(factor => (
+            <label key={factor} className="flex items-center justify-between gap-3 text-sm text-gray-200">
+              <span>{getScoreFactorLabel(factor)}</span>
+              <select
+                value={weights[factor]}
+                onChange={(e) => handleWeightChange(factor, Number(e.target.value))}
+                className="bg-[#1E1E1E] text-white border border-gray-600 rounded-full px-3 py-1 focus:ring-2 focus:ring-teal-400"
+              >
+                {WEIGHT_LEVELS.map(level => (
+                  <option key={level.value} value={level.value}>{level.label}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+          {!isDefault && (
+            <button
+              onClick={() => onChange({ ...DEFAULT_BEST_OPTION_WEIGHTS })}
+              className="text-xs font-semibold text-teal-400 hover:text-teal-300"
+            >
+              Reset to defaults
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react';
+import { getDatabaseRecoveryStatus, resetCorruptDatabase } from '../services/pharmacyService';
+import type { DatabaseRecoveryStatus } from '../services/pharmacyService';
+
+export const DatabaseRecoveryBanner: React.FC = () => {
+  const [status, setStatus] = useState<DatabaseRecoveryStatus | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const refreshStatus = async () => {
+    setIsWorking(true);
+    try {
+      setStatus(await getDatabaseRecoveryStatus());
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  useEffect(() => {
+    refreshStatus();
+  }, []);
+
+  const handleReset = async () => {
+    if (!window.confirm('Start over with an empty database? The unreadable data stays saved as a backup in this browser.')) return;
+    setIsWorking(true);
+    try {
+      await resetCorruptDatabase();
+      setStatus(null);
+    } catch (error) {
+      console.error("Failed to reset database", error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <div role="alert" className="bg-red-500/10 border-b border-red-500/40 px-4 py-3 sm:px-6 lg:px-8">
+      <div className="container mx-auto flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="text-sm text-red-200">
+          <p className="font-bold">{status.reason}</p>
+          <p className="text-red-300/80">
+            Changes will not be saved until this is resolved.
+            {status.backupKey && ` A copy of the unreadable data was saved under "${status.backupKey}".`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={refreshStatus}
+            disabled={isWorking}
+            className="px-4 py-2 bg-[#1E1E1E] border border-gray-700 text-gray-300 font-semibold text-sm rounded-full hover:bg-gray-700 transition-all disabled:opacity-50"
+          >
+            Retry
+          </button>
+          {status.backupKey && (
+            <button
+              onClick={handleReset}
+              disabled={isWorking}
+              className="px-4 py-2 bg-red-500 text-white font-bold text-sm rounded-full hover:bg-red-400 transition-all disabled:opacity-50"
+            >
+              Start Fresh
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import type { OpenPharmacy } from '../types';
+import { StockStatus } from '../types';
+import { isInStock } from '../services/stockLevels';
+import { MapPinIcon, PhoneIcon, ClockIcon } from './icons';
+
+interface EmergencyResultsPageProps {
+  pharmacies: OpenPharmacy[];
+  medicineName: string;
+  isLoading: boolean;
+  statusText: string;
+  radiusKm: number;
+}
+
+const describeMedicineStock = (pharmacy: OpenPharmacy, medicineName: string) => {
+  const { medicineStock, price } = pharmacy;
+  if (medicineStock === undefined) return null;
+  if (isInStock(medicineStock)) {
+    return { text: `Has ${medicineName}${price !== undefined ? ` · ₹${price.toFixed(2)}` : ''}`, className: 'text-green-400' };
+  }
+  if (medicineStock === StockStatus.Unconfirmed) {
+    return { text: `Listed ${medicineName}, not confirmed recently. Call to check.`, className: 'text-amber-300' };
+  }
+  return { text: `No stock of ${medicineName} reported`, className: 'text-gray-500' };
+};
+
+const OpenPharmacyCard: React.FC<{ pharmacy: OpenPharmacy; medicineName: string }> = ({ pharmacy, medicineName }) => {
+  const stock = describeMedicineStock(pharmacy, medicineName);
+  return (
+    <li className="bg-[#1E1E1E] rounded-2xl p-5 ring-1 ring-gray-700/50 space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h3 className="font-bold text-xl text-white">{pharmacy.name}</h3>
+          <p className="text-sm text-gray-400 flex items-center gap-1 mt-1">
+            <MapPinIcon className="h-4 w-4 flex-shrink-0" />
+            {pharmacy.address}
+          </p>
+        </div>
+        <p className="text-lg font-bold text-white whitespace-nowrap">{pharmacy.distance} km</p>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+        <span className="flex items-center gap-1 font-semibold text-green-400">
+          <ClockIcon className="h-4 w-4" />
+          {pharmacy.openingLabel}
+        </span>
+        {stock && <span className={`font-semibold ${stock.className}`}>{stock.text}</span>}
+      </div>
+      <div className="flex flex-col sm:flex-row gap-3">
+        <a
+          href={`tel:${pharmacy.phone}`}
+          className="flex-1 flex items-center justify-center gap-3 px-6 py-5 bg-red-600 text-white text-xl font-extrabold rounded-2xl shadow-lg shadow-red-600/30 hover:bg-red-500 transition-colors focus:outline-none focus:ring-4 focus:ring-red-300"
+          aria-label={`Call ${pharmacy.name}`}
+        >
+          <PhoneIcon className="h-7 w-7" />
+          Call {pharmacy.phone}
+        </a>
+        <a
+          href={`https://www.google.com/maps/dir/?api=1&destination=${pharmacy.lat},${pharmacy.lon}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center justify-center px-6 py-5 bg-gray-700 text-white text-lg font-bold rounded-2xl hover:bg-gray-600 transition-colors"
+        >
+          Directions
+        </a>
+      </div>
+    </li>
+  );
+};
+
+export const EmergencyResultsPage: React.FC<EmergencyResultsPageProps> = ({ pharmacies, medicineName, isLoading, statusText, radiusKm }) => {
+  if (isLoading) {
+    return (
+      <div className="text-center py-10">
+        <div className="w-12 h-12 border-4 border-red-400 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-lg text-gray-300">{statusText || 'Finding pharmacies open now...'}</p>
+      </div>
+    );
+  }
+
+  if (statusText) {
+    return <p className="text-center text-gray-400 py-10">{statusText}</p>;
+  }
+
+  return (
+    <div className="container mx-auto max-w-2xl space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Pharmacies open now</h2>
+        <p className="mt-1 text-gray-400">
+          Nearest first{medicineName && `, with stock of ${medicineName} as last reported by each pharmacy`}. Call ahead before you travel.
+        </p>
+      </div>
+      {pharmacies.length === 0 ? (
+        <p className="text-center text-gray-400 py-10">
+          No pharmacy within {radiusKm} km has told us it is open right now. For a medical emergency, call 112.
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {pharmacies.map(pharmacy => (
+            <OpenPharmacyCard key={pharmacy.id} pharmacy={pharmacy} medicineName={medicineName} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
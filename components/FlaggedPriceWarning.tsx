@@ -0,0 +1,29 @@
+import React from 'react';
+import type { FlaggedPrice } from '../services/pharmacyService';
+
+interface FlaggedPriceWarningProps {
+  /** Prices that were just saved but look wrong next to the pharmacy's earlier prices or other pharmacies'. */
+  prices: FlaggedPrice[];
+}
+
+export const FlaggedPriceWarning: React.FC<FlaggedPriceWarningProps> = ({ prices }) => {
+  const isSingle = prices.length === 1;
+  return (
+    <div className="bg-amber-500/10 border border-amber-500/40 px-4 py-3 rounded-lg text-sm text-left">
+      <p className="text-white font-semibold">{isSingle ? 'Check the price' : `Check these ${prices.length} prices`}</p>
+      <ul className="mt-1 space-y-1">
+        {prices.map(price => (
+          <li key={price.medicineName}>
+            <span className="text-white">
+              {price.medicineName} at <span className="font-bold">₹{price.price.toFixed(2)}</span>
+            </span>
+            {price.reasons.map(reason => <span key={reason} className="block text-xs text-amber-300">{reason}</span>)}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-400 mt-1">
+        {isSingle ? 'It was' : 'They were'} saved, but won't be picked as the Best Option until you confirm {isSingle ? 'it' : 'them'} under "Check these prices". If a price is wrong, enter the medicine again with the right one.
+      </p>
+    </div>
+  );
+};
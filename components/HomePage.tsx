@@ -1,12 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { SearchIcon, CameraIcon, MicIcon, PillIcon } from './icons';
+import { SearchIcon, CameraIcon, MicIcon, PillIcon, XIcon, PhoneIcon } from './icons';
 import { parsePrescription } from '../services/geminiService';
+import { MedicineAutocomplete } from './MedicineAutocomplete';
 
 interface HomePageProps {
   onMedicineSearch: (query: string) => void;
   onDiseaseSearch: (query: string) => void;
+  onBasketSearch: (medicines: string[]) => void;
+  /** Lists pharmacies open right now, with stock of the medicine if one is given. */
+  onEmergencySearch: (medicine: string) => void;
 }
 
+type HomeTab = 'medicine' | 'basket' | 'disease';
+
 const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -22,7 +28,7 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
 const TabButton: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
     <button
         onClick={onClick}
-        className={`w-1/2 py-3 font-bold text-center transition-colors duration-300 rounded-t-lg ${
+        className={`w-1/3 py-3 font-bold text-center transition-colors duration-300 rounded-t-lg ${
             active ? 'bg-[#1E1E1E] text-teal-400' : 'bg-transparent text-gray-400 hover:bg-gray-800/50'
         }`}
     >
@@ -31,10 +37,12 @@ const TabButton: React.FC<{ active: boolean; onClick: () => void; children: Reac
 );
 
 
-export const HomePage: React.FC<HomePageProps> = ({ onMedicineSearch, onDiseaseSearch }) => {
+export const HomePage: React.FC<HomePageProps> = ({ onMedicineSearch, onDiseaseSearch, onBasketSearch, onEmergencySearch }) => {
   const [medicineQuery, setMedicineQuery] = useState('');
   const [diseaseQuery, setDiseaseQuery] = useState('');
-  const [activeTab, setActiveTab] = useState<'medicine' | 'disease'>('medicine');
+  const [basketQuery, setBasketQuery] = useState('');
+  const [basketItems, setBasketItems] = useState<string[]>([]);
+  const [activeTab, setActiveTab] = useState<HomeTab>('medicine');
   const [isProcessingImage, setIsProcessingImage] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -72,10 +80,26 @@ export const HomePage: React.FC<HomePageProps> = ({ onMedicineSearch, onDiseaseS
     onDiseaseSearch(diseaseQuery);
   };
   
-  const handleTabChange = (tab: 'medicine' | 'disease') => {
+  const handleTabChange = (tab: HomeTab) => {
     setActiveTab(tab);
   };
 
+  const addToBasket = (medicine: string) => {
+    const trimmed = medicine.trim();
+    setBasketQuery('');
+    if (!trimmed || basketItems.some(item => item.toLowerCase() === trimmed.toLowerCase())) return;
+    setBasketItems(items => [...items, trimmed]);
+  };
+
+  const handleBasketAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    addToBasket(basketQuery);
+  };
+
+  const removeFromBasket = (medicine: string) => {
+    setBasketItems(items => items.filter(item => item !== medicine));
+  };
+
 
   return (
     <div className="flex flex-col items-center justify-center min-h-[calc(100vh-10rem)] text-center">
@@ -91,6 +115,9 @@ export const HomePage: React.FC<HomePageProps> = ({ onMedicineSearch, onDiseaseS
               <TabButton active={activeTab === 'medicine'} onClick={() => handleTabChange('medicine')}>
                   Search by Medicine
               </TabButton>
+              <TabButton active={activeTab === 'basket'} onClick={() => handleTabChange('basket')}>
+                  Prescription List
+              </TabButton>
               <TabButton active={activeTab === 'disease'} onClick={() => handleTabChange('disease')}>
                   Search by Disease
               </TabButton>
@@ -101,13 +128,11 @@ export const HomePage: React.FC<HomePageProps> = ({ onMedicineSearch, onDiseaseS
                 <div className="relative">
                     <form onSubmit={handleMedicineSubmit} className="flex items-center">
                         <SearchIcon className="h-6 w-6 text-gray-500 ml-4" />
-                        <input
-                            type="text"
+                        <MedicineAutocomplete
                             value={medicineQuery}
-                            onChange={(e) => setMedicineQuery(e.target.value)}
+                            onChange={setMedicineQuery}
+                            onSuggestionSelect={onMedicineSearch}
                             placeholder="Enter medicine name (e.g., Paracetamol)"
-                            className="w-full bg-transparent text-lg text-white placeholder-gray-500 border-none focus:ring-0 px-4 py-2"
-                            autoComplete="off"
                         />
                         <div className="flex items-center space-x-1 mr-1">
                             <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" className="hidden" />
@@ -130,6 +155,39 @@ export const HomePage: React.FC<HomePageProps> = ({ onMedicineSearch, onDiseaseS
                     Search Medicine
                 </button>
             </div>
+        ) : activeTab === 'basket' ? (
+             <div className="bg-[#1E1E1E] rounded-2xl shadow-2xl shadow-teal-900/20 p-2 transition-all">
+                <form onSubmit={handleBasketAdd} className="flex items-center">
+                    <PillIcon className="h-6 w-6 text-gray-500 ml-4" />
+                    <MedicineAutocomplete
+                        value={basketQuery}
+                        onChange={setBasketQuery}
+                        onSuggestionSelect={addToBasket}
+                        placeholder="Add each medicine on your prescription"
+                    />
+                    <button type="submit" className="mr-1 px-5 py-2 bg-gray-700 text-white font-semibold rounded-full hover:bg-gray-600 transition-colors">
+                        Add
+                    </button>
+                </form>
+                {basketItems.length > 0 && (
+                    <ul className="flex flex-wrap gap-2 px-4 pt-4" aria-label="Medicines on your list">
+                        {basketItems.map(item => (
+                            <li key={item} className="flex items-center gap-1 pl-3 pr-1 py-1 bg-teal-500/10 border border-teal-500/40 text-teal-200 text-sm rounded-full">
+                                {item}
+                                <button type="button" onClick={() => removeFromBasket(item)} className="p-1 rounded-full hover:bg-teal-500/20" aria-label={`Remove ${item}`}>
+                                    <XIcon className="h-3 w-3" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <button
+                    onClick={() => onBasketSearch(basketItems)}
+                    disabled={basketItems.length < 2}
+                    className="mt-4 w-full px-10 py-4 bg-teal-500 text-white font-bold text-lg rounded-full shadow-lg shadow-teal-500/30 hover:bg-teal-400 transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-teal-300 disabled:opacity-50 disabled:hover:scale-100 disabled:hover:bg-teal-500">
+                    {basketItems.length < 2 ? 'Add at least 2 medicines' : `Find All ${basketItems.length} Medicines`}
+                </button>
+            </div>
         ) : (
              <div className="bg-[#1E1E1E] rounded-b-2xl rounded-tl-2xl shadow-2xl shadow-cyan-900/20 p-2 transition-all">
                 <form onSubmit={handleDiseaseSubmit} className="flex items-center">
@@ -149,6 +207,17 @@ export const HomePage: React.FC<HomePageProps> = ({ onMedicineSearch, onDiseaseS
                 </button>
              </div>
         )}
+
+        <button
+            onClick={() => onEmergencySearch(activeTab === 'medicine' ? medicineQuery : '')}
+            className="mt-6 w-full flex items-center justify-center gap-3 px-6 py-4 bg-red-600/10 border-2 border-red-500 text-red-300 font-bold text-lg rounded-full hover:bg-red-600 hover:text-white transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-red-400"
+        >
+            <PhoneIcon className="h-5 w-5" />
+            Urgent? Show pharmacies open now
+        </button>
+        {activeTab === 'medicine' && medicineQuery.trim() && (
+            <p className="mt-2 text-xs text-gray-500">We'll also show which of them have {medicineQuery.trim()}.</p>
+        )}
       </div>
        <style>{`
         @keyframes fade-in-down {
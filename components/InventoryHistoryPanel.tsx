@@ -0,0 +1,137 @@
+import React, { useState, useMemo } from 'react';
+import type { AuditLogEntry, InventoryChangeAction, InventoryChangeSource } from '../services/databaseSchema';
+import { describeInventoryChange, findUndoableChanges } from '../services/inventoryAudit';
+
+interface InventoryHistoryPanelProps {
+  /** The pharmacy's inventory changes, newest first. */
+  history: AuditLogEntry[];
+  /** Deleted items that can be restored, newest first. */
+  deletedItems: AuditLogEntry[];
+  onUndo: () => Promise<void>;
+  onRestore: (entryId: string) => Promise<void>;
+}
+
+const ACTION_LABELS: Record<InventoryChangeAction, string> = {
+  added: 'Added',
+  updated: 'Changed',
+  deleted: 'Deleted',
+  undone: 'Undone',
+  restored: 'Restored',
+};
+
+const SOURCE_LABELS: Record<InventoryChangeSource, string> = {
+  dashboard: 'dashboard',
+  priceSlip: 'price slip',
+  spreadsheet: 'spreadsheet import',
+  billingSoftware: 'billing software import',
+  reconciliation: 'inventory reconciliation',
+};
+
+// Only the most recent changes are listed; the rest of the log is kept in the database and in backups.
+const MAX_LISTED_CHANGES = 100;
+
+export const InventoryHistoryPanel: React.FC<InventoryHistoryPanelProps> = ({ history, deletedItems, onUndo, onRestore }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const undoable = useMemo(() => findUndoableChanges([...history].reverse()), [history]);
+  const lastUndoable = undoable[undoable.length - 1];
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setPending(key);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="bg-[#1E1E1E] p-6 rounded-2xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold text-white">Inventory History</h2>
+          <p className="text-gray-400 text-sm mt-1">Every change to your inventory, who made it and when.</p>
+        </div>
+        <div className="flex gap-2 self-start sm:self-auto">
+          {lastUndoable && (
+            <button
+              type="button"
+              onClick={() => run('undo', onUndo)}
+              disabled={pending !== null}
+              title={undoable.map(entry => `${entry.medicineName}: ${describeInventoryChange(entry)}`).join('\n')}
+              className="px-4 py-2 bg-teal-500 text-white text-sm font-bold rounded-full hover:bg-teal-400 transition-all disabled:opacity-50"
+            >
+              {pending === 'undo' ? 'Undoing...' : 'Undo Last Change'}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setIsOpen(open => !open)}
+            className="px-4 py-2 bg-[#2a2a2a] border border-gray-600 text-gray-300 text-sm font-semibold rounded-full hover:bg-gray-700 transition-all"
+          >
+            {isOpen ? 'Hide History' : `Show History (${history.length})`}
+          </button>
+        </div>
+      </div>
+      {lastUndoable && (
+        <p className="text-xs text-gray-500 mt-2">
+          {undoable.length > 1
+            ? `Undo reverts the last ${undoable.length} changes, saved together from the ${SOURCE_LABELS[lastUndoable.source]}.`
+            : `Undo reverts the last change to ${lastUndoable.medicineName}: ${describeInventoryChange(lastUndoable)}.`}
+        </p>
+      )}
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+
+      {deletedItems.length > 0 && (
+        <div className="mt-4">
+          <h3 className="text-sm font-semibold text-white">Deleted items</h3>
+          <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto pr-2 text-sm">
+            {deletedItems.map(entry => (
+              <li key={entry.id} className="flex justify-between items-center gap-3 bg-[#2a2a2a] px-3 py-2 rounded">
+                <div className="min-w-0">
+                  <span className="text-white block truncate">{entry.medicineName}</span>
+                  <span className="text-xs text-gray-500">
+                    Deleted {new Date(entry.changedAt).toLocaleString()} by {entry.changedBy}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => run(entry.id, () => onRestore(entry.id))}
+                  disabled={pending !== null}
+                  className="px-3 py-1.5 bg-gray-700 text-gray-200 text-xs font-semibold rounded-full hover:bg-gray-600 transition-all disabled:opacity-50 flex-shrink-0"
+                >
+                  {pending === entry.id ? 'Restoring...' : 'Restore'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isOpen && (
+        history.length > 0 ? (
+          <ul className="mt-4 space-y-1 max-h-96 overflow-y-auto pr-2 text-sm">
+            {history.slice(0, MAX_LISTED_CHANGES).map(entry => (
+              <li key={entry.id} className="bg-[#2a2a2a] px-3 py-2 rounded">
+                <div className="flex justify-between gap-3">
+                  <span className="text-white min-w-0 truncate">
+                    <span className="text-teal-400 font-semibold">{ACTION_LABELS[entry.action]}</span> {entry.medicineName}
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">{new Date(entry.changedAt).toLocaleString()}</span>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">{describeInventoryChange(entry)}</p>
+                <p className="text-xs text-gray-500">By {entry.changedBy} · {SOURCE_LABELS[entry.source]}</p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 mt-4">No changes have been recorded yet.</p>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import React, { useState, useRef, useMemo } from 'react';
+import type { InventoryItem } from '../types';
+import { StockStatus } from '../types';
+import { readSpreadsheetFile, getColumnLetter, findFirstRowIndex, isEmptyRow } from '../services/spreadsheetFiles';
+import type { SpreadsheetRows } from '../services/spreadsheetFiles';
+import { guessColumnMapping, previewInventoryImport, INVENTORY_IMPORT_FIELDS } from '../services/inventoryImport';
+import type { ColumnMapping, InventoryImportField, InventoryImportRow } from '../services/inventoryImport';
+import type { FlaggedPrice } from '../services/pharmacyService';
+import { FlaggedPriceWarning } from './FlaggedPriceWarning';
+
+interface InventoryImportPanelProps {
+  inventory: InventoryItem[];
+  /** Saves the new and changed items, resolving to any prices that were flagged as they were saved. */
+  onImport: (items: InventoryItem[]) => Promise<FlaggedPrice[]>;
+}
+
+const describeRow = (row: InventoryImportRow) => {
+  if (!row.item) return { text: row.errors.join(' '), className: 'text-red-400' };
+  const { item, previous } = row;
+  if (row.change === 'new') return { text: 'New item', className: 'text-green-400' };
+  if (row.change === 'unchanged') return { text: 'No change', className: 'text-gray-500' };
+  const changes: string[] = [];
+  if (previous && previous.price !== item.price) changes.push(`₹${previous.price.toFixed(2)} → ₹${item.price.toFixed(2)}`);
+  if (previous && previous.stock !== item.stock) changes.push(`now ${item.stock.toLowerCase()}`);
+  return { text: changes.length > 0 ? changes.join(', ') : 'Stock or pack size updated', className: 'text-cyan-300' };
+};
+
+// The raw name cell of a row, shown for rows that couldn't be read into an item.
+const cellPreview = (rows: SpreadsheetRows, rowNumber: number, column: number | null) =>
+  column === null ? '' : rows[rowNumber - 1]?.[column] ?? '';
+
+export const InventoryImportPanel: React.FC<InventoryImportPanelProps> = ({ inventory, onImport }) => {
+  const [rows, setRows] = useState<SpreadsheetRows | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [flaggedPrices, setFlaggedPrices] = useState<FlaggedPrice[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = useMemo(
+    () => (rows && mapping && mapping.medicineName !== null && mapping.price !== null
+      ? previewInventoryImport(rows, mapping, { hasHeaderRow, currentInventory: inventory })
+      : null),
+    [rows, mapping, hasHeaderRow, inventory]
+  );
+
+  const columnCount = rows ? Math.max(0, ...rows.map(row => row.length)) : 0;
+  const rowCount = rows ? rows.filter(row => !isEmptyRow(row)).length : 0;
+  const columnLabel = (index: number) => {
+    const header = hasHeaderRow && rows ? rows[findFirstRowIndex(rows)]?.[index] : '';
+    return header ? `${getColumnLetter(index)}: ${header}` : `Column ${getColumnLetter(index)}`;
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError('');
+    setMessage('');
+    setFlaggedPrices([]);
+    setRows(null);
+    try {
+      const fileRows = await readSpreadsheetFile(file);
+      if (findFirstRowIndex(fileRows) === -1) {
+        throw new Error('This file has no rows.');
+      }
+      const guess = guessColumnMapping(fileRows);
+      setFileName(file.name);
+      setRows(fileRows);
+      setMapping(guess.mapping);
+      setHasHeaderRow(guess.hasHeaderRow);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be read.');
+    }
+  };
+
+  const handleMappingChange = (field: InventoryImportField, value: string) => {
+    setMapping(current => current && { ...current, [field]: value === '' ? null : parseInt(value, 10) });
+  };
+
+  const handleCancel = () => {
+    setRows(null);
+    setMapping(null);
+    setError('');
+  };
+
+  const handleImport = async () => {
+    if (!preview || preview.items.length === 0) return;
+    setIsImporting(true);
+    setError('');
+    try {
+      setFlaggedPrices(await onImport(preview.items));
+      setMessage(`Imported ${preview.items.length} item(s) from ${fileName}.`);
+      setRows(null);
+      setMapping(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The items could not be saved.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv,.tsv,.txt,.xlsx,text/csv" className="hidden" />
+      {!rows && (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full px-6 py-3 bg-[#2a2a2a] border border-gray-600 text-white font-bold rounded-full hover:bg-gray-700 transition-all"
+        >
+          Import Stock List (CSV or Excel)
+        </button>
+      )}
+      {message && <p className="text-green-400 text-xs mt-2 text-center">{message}</p>}
+      {flaggedPrices.length > 0 && (
+        <div className="mt-2">
+          <FlaggedPriceWarning prices={flaggedPrices} />
+        </div>
+      )}
+      {error && <p className="text-red-400 text-xs mt-2 text-center">{error}</p>}
+
+      {rows && mapping && (
+        <div className="space-y-4 bg-[#2a2a2a] p-4 rounded-lg">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <p className="text-sm text-gray-300">
+              <span className="font-semibold text-white">{fileName}</span> · {rowCount} row(s)
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={hasHeaderRow} onChange={(e) => setHasHeaderRow(e.target.checked)} className="rounded" />
+              First row has column names
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {INVENTORY_IMPORT_FIELDS.map(({ field, label, required }) => (
+              <label key={field} className="flex flex-col gap-1 text-xs text-gray-400">
+                {label}{required && ' *'}
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="bg-[#1E1E1E] text-white text-sm border border-gray-600 rounded-lg px-3 py-2"
+                >
+                  <option value="">{required ? 'Choose a column' : 'Not in this file'}</option>
+                  {Array.from({ length: columnCount }, (_, index) => (
+                    <option key={index} value={index}>{columnLabel(index)}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {preview ? (
+            <>
+              <p className="text-sm text-gray-300">
+                {preview.counts.new} new, {preview.counts.updated} updated, {preview.counts.unchanged} unchanged
+                {preview.counts.invalid > 0 && <span className="text-red-400">, {preview.counts.invalid} with errors (skipped)</span>}
+              </p>
+              <ul className="max-h-72 overflow-y-auto space-y-1 text-sm pr-2">
+                {preview.rows.map(row => {
+                  const status = describeRow(row);
+                  return (
+                    <li key={row.rowNumber} className="flex gap-3 bg-[#1E1E1E] px-3 py-2 rounded">
+                      <span className="text-gray-500 w-10 flex-shrink-0">#{row.rowNumber}</span>
+                      <span className="flex-1 min-w-0">
+                        <span className="text-white">{row.item?.medicineName ?? (cellPreview(rows, row.rowNumber, mapping.medicineName) || '—')}</span>
+                        {row.item && (
+                          <span className="text-gray-400 ml-2">
+                            ₹{row.item.price.toFixed(2)}
+                            {row.item.stock === StockStatus.Unavailable && ' · unavailable'}
+                            {row.item.quantity !== undefined && ` · ${row.item.quantity} strips`}
+                            {row.item.packSize && ` · pack of ${row.item.packSize.quantity}${row.item.packSize.unit === 'unit' ? '' : ` ${row.item.packSize.unit}`}`}
+                          </span>
+                        )}
+                        <span className={`block text-xs ${status.className}`}>{status.text}</span>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          ) : (
+            <p className="text-sm text-amber-300">Choose the columns that hold the medicine name and price.</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={handleCancel} className="px-4 py-2 text-gray-300 text-sm font-semibold rounded-full hover:bg-gray-700 transition-all">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isImporting || !preview || preview.items.length === 0}
+              className="px-4 py-2 bg-teal-500 text-white text-sm font-bold rounded-full hover:bg-teal-400 transition-all disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : `Import ${preview?.items.length ?? 0} Item(s)`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { getMedicineSuggestions } from '../services/pharmacyService';
+import type { MedicineSuggestion } from '../services/pharmacyService';
+import { PillIcon } from './icons';
+
+interface MedicineAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSuggestionSelect: (medicine: string) => void;
+  placeholder?: string;
+}
+
+const LISTBOX_ID = 'medicine-suggestions';
+const DEBOUNCE_MS = 150;
+
+export const MedicineAutocomplete: React.FC<MedicineAutocompleteProps> = ({ value, onChange, onSuggestionSelect, placeholder }) => {
+  const [suggestions, setSuggestions] = useState<MedicineSuggestion[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [userLocation, setUserLocation] = useState<{ lat: number; lon: number } | null>(null);
+  const requestIdRef = useRef(0);
+
+  // Use the location for "nearby" counts only if the user has already allowed it; never prompt from here.
+  useEffect(() => {
+    navigator.permissions?.query({ name: 'geolocation' })
+      .then(status => {
+        if (status.state === 'granted') {
+          navigator.geolocation.getCurrentPosition(
+            position => setUserLocation({ lat: position.coords.latitude, lon: position.coords.longitude }),
+            () => setUserLocation(null)
+          );
+        }
+      })
+      .catch(() => setUserLocation(null));
+  }, []);
+
+  useEffect(() => {
+    const query = value.trim();
+    if (query.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+    const requestId = ++requestIdRef.current;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await getMedicineSuggestions(query, { userLocation: userLocation || undefined });
+        // Ignore responses that arrive after the user has kept typing.
+        if (requestId === requestIdRef.current) {
+          setSuggestions(results);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        console.error("Failed to load medicine suggestions", error);
+      }
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [value, userLocation]);
+
+  const showList = isOpen && suggestions.length > 0;
+
+  const selectSuggestion = (suggestion: MedicineSuggestion) => {
+    onChange(suggestion.name);
+    setIsOpen(false);
+    setActiveIndex(-1);
+    onSuggestionSelect(suggestion.name);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(current => (suggestions.length === 0 ? -1 : (current + 1) % suggestions.length));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(current => (suggestions.length === 0 ? -1 : (current <= 0 ? suggestions.length - 1 : current - 1)));
+        break;
+      case 'Enter':
+        // With no highlighted suggestion, Enter submits the surrounding form as usual.
+        if (showList && activeIndex > -1) {
+          e.preventDefault();
+          selectSuggestion(suggestions[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        if (showList) {
+          e.preventDefault();
+          setIsOpen(false);
+          setActiveIndex(-1);
+        }
+        break;
+    }
+  };
+
+  const countLabel = (count: number) => {
+    const place = userLocation ? ' nearby' : '';
+    if (count === 0) return `Not in stock${place}`;
+    return `${count} ${count === 1 ? 'pharmacy' : 'pharmacies'}${place}`;
+  };
+
+  return (
+    <div className="relative w-full">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        placeholder={placeholder}
+        className="w-full bg-transparent text-lg text-white placeholder-gray-500 border-none focus:ring-0 px-4 py-2"
+        autoComplete="off"
+        role="combobox"
+        aria-label="Medicine name"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={LISTBOX_ID}
+        aria-activedescendant={showList && activeIndex > -1 ? `${LISTBOX_ID}-${activeIndex}` : undefined}
+      />
+      {showList && (
+        <ul
+          id={LISTBOX_ID}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-2 z-30 bg-[#2a2a2a] border border-gray-700 rounded-xl shadow-2xl overflow-hidden text-left animate-fade-in-down"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.name}
+              id={`${LISTBOX_ID}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the list is not closed by the blur before the click lands.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectSuggestion(suggestion)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between gap-4 px-4 py-3 cursor-pointer transition-colors ${
+                index === activeIndex ? 'bg-teal-500/20' : 'hover:bg-gray-700/50'
+              }`}
+            >
+              <span className="flex items-center gap-3 text-white">
+                <PillIcon className="h-4 w-4 text-teal-400 flex-shrink-0" />
+                {suggestion.name}
+              </span>
+              <span className={`text-xs whitespace-nowrap ${suggestion.pharmacyCount > 0 ? 'text-cyan-400' : 'text-gray-500'}`}>
+                {countLabel(suggestion.pharmacyCount)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
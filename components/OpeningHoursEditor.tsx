@@ -0,0 +1,107 @@
+import React from 'react';
+import type { DailyHours, HolidayHours, OpeningHours } from '../types';
+import { WEEKDAY_LABELS } from '../services/openingHours';
+import { TrashIcon } from './icons';
+
+interface OpeningHoursEditorProps {
+  value: OpeningHours;
+  onChange: (hours: OpeningHours) => void;
+}
+
+const DEFAULT_DAY_HOURS: DailyHours = { open: '09:00', close: '21:00' };
+
+const timeInputClasses = "bg-[#2a2a2a] text-white border border-gray-600 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-teal-400";
+
+const HoursInputs: React.FC<{
+  label: string;
+  hours: DailyHours | null;
+  onChange: (hours: DailyHours | null) => void;
+}> = ({ label, hours, onChange }) => (
+  <div className="flex flex-wrap items-center gap-2 text-sm">
+    <label className="flex items-center gap-1.5 text-gray-400">
+      <input
+        type="checkbox"
+        checked={hours === null}
+        onChange={(e) => onChange(e.target.checked ? null : DEFAULT_DAY_HOURS)}
+        className="accent-teal-500"
+      />
+      Closed
+    </label>
+    {hours && (
+      <>
+        <input type="time" value={hours.open} onChange={(e) => onChange({ ...hours, open: e.target.value })} className={timeInputClasses} aria-label={`${label} opening time`} required />
+        <span className="text-gray-500">to</span>
+        <input type="time" value={hours.close} onChange={(e) => onChange({ ...hours, close: e.target.value })} className={timeInputClasses} aria-label={`${label} closing time`} required />
+      </>
+    )}
+  </div>
+);
+
+export const OpeningHoursEditor: React.FC<OpeningHoursEditorProps> = ({ value, onChange }) => {
+  const handleDayChange = (day: number, hours: DailyHours | null) => {
+    onChange({ ...value, weekly: value.weekly.map((current, i) => (i === day ? hours : current)) });
+  };
+
+  const handleHolidayChange = (index: number, holiday: HolidayHours) => {
+    onChange({ ...value, holidays: value.holidays.map((current, i) => (i === index ? holiday : current)) });
+  };
+
+  const handleAddHoliday = () => {
+    onChange({ ...value, holidays: [...value.holidays, { date: '', hours: null }] });
+  };
+
+  const handleRemoveHoliday = (index: number) => {
+    onChange({ ...value, holidays: value.holidays.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      <label className="flex items-center gap-2 text-sm font-semibold text-gray-300">
+        <input
+          type="checkbox"
+          checked={value.alwaysOpen}
+          onChange={(e) => onChange({ ...value, alwaysOpen: e.target.checked })}
+          className="accent-teal-500"
+        />
+        Open 24x7
+      </label>
+
+      {!value.alwaysOpen && (
+        <div className="space-y-2">
+          {WEEKDAY_LABELS.map((dayLabel, day) => (
+            <div key={dayLabel} className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4">
+              <span className="w-24 text-sm text-gray-300">{dayLabel}</span>
+              <HoursInputs label={dayLabel} hours={value.weekly[day]} onChange={(hours) => handleDayChange(day, hours)} />
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">For night shifts, set a closing time before the opening time, e.g. 8 PM to 2 AM.</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-semibold text-gray-300">Holidays and special days</span>
+          <button type="button" onClick={handleAddHoliday} className="text-sm text-teal-400 hover:text-teal-300">
+            + Add date
+          </button>
+        </div>
+        {value.holidays.map((holiday, index) => (
+          <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+            <input
+              type="date"
+              value={holiday.date}
+              onChange={(e) => handleHolidayChange(index, { ...holiday, date: e.target.value })}
+              className={timeInputClasses}
+              aria-label="Holiday date"
+              required
+            />
+            <HoursInputs label={holiday.date || 'Holiday'} hours={holiday.hours} onChange={(hours) => handleHolidayChange(index, { ...holiday, hours })} />
+            <button type="button" onClick={() => handleRemoveHoliday(index)} className="p-1 text-gray-500 hover:text-red-400 self-start sm:self-auto" aria-label="Remove date">
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
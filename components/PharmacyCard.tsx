@@ -2,7 +2,12 @@
 import React from 'react';
 import type { Pharmacy } from '../types';
 import { StockStatus } from '../types';
-import { StarIcon, PillIcon } from './icons';
+import { StarIcon } from './icons';
+import { getTopReasons } from '../services/bestOptionScoring';
+import { describeConfirmationAge } from '../services/stockFreshness';
+import { isInStock, describeQuantityLeft } from '../services/stockLevels';
+import { getOpeningStatus } from '../services/openingHours';
+import { formatUnitPrice } from '../services/unitPricing';
 
 interface PharmacyCardProps {
   pharmacy: Pharmacy;
@@ -15,13 +20,23 @@ const getStockColor = (stock: StockStatus) => {
       return 'bg-green-500 text-green-900';
     case StockStatus.Unavailable:
       return 'bg-red-500 text-red-900';
+    case StockStatus.Unconfirmed:
+      return 'bg-amber-400 text-amber-900';
+    case StockStatus.LowStock:
+      return 'bg-yellow-400 text-yellow-900';
+    case StockStatus.LastFew:
+      return 'bg-orange-500 text-orange-900';
     default:
       return 'bg-gray-500 text-gray-900';
   }
 };
 
 export const PharmacyCard: React.FC<PharmacyCardProps> = ({ pharmacy, onClick }) => {
-  const { name, price, priceUnit, distance, stock, isBestOption } = pharmacy;
+  const { name, price, priceUnit, distance, stock, isBestOption, matchedMedicineName, scoreBreakdown, lastConfirmedAt, quantity, openingHours, unitPrice, unitLabel, priceUnderReview } = pharmacy;
+  const hasStock = isInStock(stock) || stock === StockStatus.Unconfirmed;
+  const isRunningLow = (stock === StockStatus.LowStock || stock === StockStatus.LastFew) && quantity !== undefined;
+  const openingStatus = openingHours ? getOpeningStatus(openingHours) : null;
+  const bestOptionReasons = isBestOption && scoreBreakdown ? getTopReasons(scoreBreakdown) : [];
 
   const cardClasses = `
     bg-[#1E1E1E] p-5 rounded-2xl shadow-lg cursor-pointer transition-all duration-300
@@ -39,21 +54,44 @@ export const PharmacyCard: React.FC<PharmacyCardProps> = ({ pharmacy, onClick })
       )}
       
       <div className="flex justify-between items-start">
-        <h3 className="font-bold text-lg text-white pr-16">{name}</h3>
-         {stock === StockStatus.Available && (
+        <div className="pr-16">
+          <h3 className="font-bold text-lg text-white">{name}</h3>
+          {matchedMedicineName && <p className="text-sm text-gray-400 mt-0.5">{matchedMedicineName}</p>}
+        </div>
+         {hasStock && (
             <div className="text-right">
                 <p className="text-xl font-extrabold text-cyan-400 whitespace-nowrap">₹{price.toFixed(2)}</p>
                 <p className="text-xs text-gray-400 whitespace-nowrap">{priceUnit}</p>
+                {unitPrice !== undefined && unitLabel && (
+                  <p className="text-xs font-semibold text-cyan-300 whitespace-nowrap">{formatUnitPrice(unitPrice, unitLabel)}</p>
+                )}
+                {priceUnderReview && <p className="text-xs font-semibold text-amber-300 whitespace-nowrap">Price not yet verified</p>}
             </div>
         )}
       </div>
 
       <div className="mt-4 flex justify-between items-center text-sm">
-        <span className={`px-3 py-1 text-xs font-bold rounded-full ${getStockColor(stock)}`}>
-          {stock}
-        </span>
+        <div className="flex items-center gap-2">
+          <span className={`px-3 py-1 text-xs font-bold rounded-full ${getStockColor(stock)}`}>
+            {stock}
+          </span>
+          {isRunningLow && <span className="text-xs font-semibold text-orange-300">{describeQuantityLeft(quantity!)}</span>}
+          {hasStock && <span className="text-xs text-gray-500">{describeConfirmationAge(lastConfirmedAt)}</span>}
+        </div>
         <p className="text-gray-400">{distance} km away</p>
       </div>
+
+      {openingStatus && (
+        <p className={`mt-2 text-xs font-semibold ${openingStatus.isOpen ? 'text-green-400' : 'text-red-400'}`}>
+          {openingStatus.label}
+        </p>
+      )}
+
+      {bestOptionReasons.length > 0 && (
+        <p className="mt-3 text-xs text-cyan-300">
+          Picked for: {bestOptionReasons.join(' · ')}
+        </p>
+      )}
     </div>
   );
 };
@@ -1,6 +1,11 @@
-import React from 'react';
-import type { Pharmacy } from '../types';
-import { MapPinIcon, PhoneIcon, XIcon } from './icons';
+import React, { useState, useEffect } from 'react';
+import type { Pharmacy, PricePoint } from '../types';
+import { MapPinIcon, PhoneIcon, XIcon, StarIcon, ClockIcon } from './icons';
+import { PriceTrendChart } from './PriceTrendChart';
+import { getPriceHistory, getAreaMedianPrice } from '../services/pharmacyService';
+import type { AreaPriceSummary } from '../services/pharmacyService';
+import { getOpeningStatus } from '../services/openingHours';
+import { formatUnitPrice } from '../services/unitPricing';
 
 interface PharmacyDetailModalProps {
   pharmacy: Pharmacy | null;
@@ -8,6 +13,32 @@ interface PharmacyDetailModalProps {
 }
 
 export const PharmacyDetailModal: React.FC<PharmacyDetailModalProps> = ({ pharmacy, onClose }) => {
+  const [priceHistory, setPriceHistory] = useState<PricePoint[]>([]);
+  const [areaPrice, setAreaPrice] = useState<AreaPriceSummary | null>(null);
+
+  useEffect(() => {
+    setPriceHistory([]);
+    setAreaPrice(null);
+    const medicineName = pharmacy?.matchedMedicineName;
+    if (!pharmacy || !medicineName) return;
+
+    let isCurrent = true;
+    Promise.all([
+      getPriceHistory(pharmacy.id, medicineName),
+      getAreaMedianPrice(medicineName, { location: pharmacy }),
+    ])
+      .then(([history, summary]) => {
+        if (isCurrent) {
+          setPriceHistory(history);
+          setAreaPrice(summary);
+        }
+      })
+      .catch(error => console.error("Failed to load price history", error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [pharmacy]);
+
   if (!pharmacy) return null;
 
   return (
@@ -31,6 +62,9 @@ export const PharmacyDetailModal: React.FC<PharmacyDetailModalProps> = ({ pharma
         <div className="mb-6">
             <p className="text-cyan-400 font-bold text-3xl inline-block">₹{pharmacy.price.toFixed(2)}</p>
             <span className="text-gray-400 ml-2 text-base">{pharmacy.priceUnit}</span>
+            {pharmacy.unitPrice !== undefined && pharmacy.unitLabel && (
+              <p className="text-cyan-300 text-sm font-semibold mt-1">{formatUnitPrice(pharmacy.unitPrice, pharmacy.unitLabel)}</p>
+            )}
         </div>
 
 
@@ -43,8 +77,54 @@ export const PharmacyDetailModal: React.FC<PharmacyDetailModalProps> = ({ pharma
             <PhoneIcon className="h-6 w-6 text-teal-400 flex-shrink-0" />
             <span>{pharmacy.phone}</span>
           </div>
+          {pharmacy.openingHours && (
+            <div className="flex items-center gap-3">
+              <ClockIcon className="h-6 w-6 text-teal-400 flex-shrink-0" />
+              <span>{getOpeningStatus(pharmacy.openingHours).label}</span>
+            </div>
+          )}
         </div>
 
+        {pharmacy.matchedMedicineName && (
+          <div className="mt-6 bg-[#2a2a2a] rounded-2xl p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-bold text-white">Price trend</h3>
+              {areaPrice && areaPrice.pharmacyCount > 1 && (
+                <span className="text-xs text-gray-400">Area median ₹{areaPrice.median.toFixed(2)} (dashed)</span>
+              )}
+            </div>
+            <PriceTrendChart
+              points={priceHistory}
+              referencePrice={areaPrice && areaPrice.pharmacyCount > 1 ? areaPrice.median : undefined}
+            />
+          </div>
+        )}
+
+        {pharmacy.scoreBreakdown && (
+          <div className="mt-6 bg-[#2a2a2a] rounded-2xl p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                {pharmacy.isBestOption && <StarIcon className="h-4 w-4 text-cyan-400" />}
+                {pharmacy.isBestOption ? 'Why this is the Best Option' : 'How this pharmacy scored'}
+              </h3>
+              <span className="text-sm font-bold text-cyan-400">{pharmacy.scoreBreakdown.total}/100</span>
+            </div>
+            <ul className="space-y-2">
+              {pharmacy.scoreBreakdown.components.map(component => (
+                <li key={component.factor} className={component.weight === 0 ? 'opacity-50' : ''}>
+                  <div className="flex justify-between text-xs text-gray-300">
+                    <span className="font-semibold">{component.label}</span>
+                    <span>{component.weight === 0 ? 'Not counted' : component.detail}</span>
+                  </div>
+                  <div className="mt-1 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-teal-400 rounded-full" style={{ width: `${Math.round(component.value * 100)}%` }}></div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="mt-8 grid grid-cols-1 sm:grid-cols-2 gap-4">
           <a
             href={`https://www.google.com/maps/dir/?api=1&destination=${pharmacy.lat},${pharmacy.lon}`}
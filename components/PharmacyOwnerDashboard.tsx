@@ -1,20 +1,404 @@
 
 import React, { useState, useRef } from 'react';
-import type { PharmacyOwner, InventoryItem } from '../types';
+import type { PharmacyId, PharmacyOwner, InventoryItem, OpeningHours, PackSize } from '../types';
 import { StockStatus } from '../types';
 import { PillIcon, TrashIcon, CameraIcon } from './icons';
+import type { ReconciliationReport, InventoryMismatchKind } from '../services/inventoryReconciliation';
+import type { DuplicateCandidate, FlaggedPrice, PharmacyMergeReport } from '../services/pharmacyService';
+import type { DuplicateReason } from '../services/pharmacyIdentity';
+import { canMergeDuplicate } from '../services/pharmacyIdentity';
+import { getEffectiveStockStatus, describeConfirmationAge, getStockConfirmationThreshold } from '../services/stockFreshness';
+import { needsRestock } from '../services/stockLevels';
+import { createDefaultOpeningHours, getOpeningStatus } from '../services/openingHours';
+import { getPackSize } from '../services/unitPricing';
+import { OpeningHoursEditor } from './OpeningHoursEditor';
+import { InventoryImportPanel } from './InventoryImportPanel';
+import { PosImportPanel } from './PosImportPanel';
+import { PriceSlipReview } from './PriceSlipReview';
+import { InventoryHistoryPanel } from './InventoryHistoryPanel';
+import { FlaggedPriceWarning } from './FlaggedPriceWarning';
+import type { AuditLogEntry, InventoryChangeSource } from '../services/databaseSchema';
 
 interface PharmacyOwnerDashboardProps {
-  owner: PharmacyOwner;
+  owner: PharmacyOwner & { id: PharmacyId };
   inventory: InventoryItem[];
   onLogout: () => void;
   onSwitchAccount: () => void;
-  onItemAdd: (newItem: InventoryItem) => void;
-  onSlipUpload: (file: File) => Promise<void>;
-  onStockStatusChange: (medicineName: string, newStatus: StockStatus) => void;
-  onItemDelete: (medicineName: string) => void;
+  /** Saves a new or changed item; resolves to its price if the price was flagged as looking wrong. */
+  onItemAdd: (newItem: InventoryItem) => Promise<FlaggedPrice | undefined>;
+  /** Reads the items on a price slip photo. Nothing is saved until the owner has reviewed them. */
+  onSlipUpload: (file: File) => Promise<InventoryItem[]>;
+  /** Saves items imported from a file or accepted from a price slip; `source` is recorded in the history. */
+  onBulkImport: (items: InventoryItem[], source: InventoryChangeSource) => Promise<FlaggedPrice[]>;
+  onStockStatusChange: (medicineName: string, newStatus: StockStatus) => Promise<void>;
+  onItemDelete: (medicineName: string) => Promise<void>;
+  onConfirmAllInStock: () => Promise<void>;
+  onQuantityChange: (medicineName: string, quantity: number | undefined, reorderThreshold: number | undefined) => Promise<void>;
+  onPackSizeChange: (medicineName: string, packSize: PackSize | undefined) => Promise<void>;
+  /** Confirms a flagged price so it is ranked in search results again. */
+  onConfirmPrice: (medicineName: string) => Promise<void>;
+  /** The pharmacy's inventory changes, newest first. */
+  inventoryHistory: AuditLogEntry[];
+  /** Deleted items that can be restored, newest first. */
+  deletedItems: AuditLogEntry[];
+  /** Reverts the most recent inventory change that hasn't been undone. */
+  onUndo: () => Promise<void>;
+  onRestore: (entryId: string) => Promise<void>;
+  openingHours: OpeningHours | null;
+  onOpeningHoursSave: (hours: OpeningHours) => Promise<void>;
+  duplicateCandidates: DuplicateCandidate[];
+  onMergeDuplicate: (duplicateId: PharmacyId) => Promise<PharmacyMergeReport>;
+  reconciliationReport: ReconciliationReport | null;
+  onReconcile: () => Promise<void>;
 }
 
+const MISMATCH_LABELS: Record<InventoryMismatchKind, string> = {
+    missingFromGlobal: 'Not visible to customers',
+    missingFromOwner: 'Only in shared inventory',
+    priceMismatch: 'Different price',
+    stockMismatch: 'Different stock status',
+};
+
+const ReconciliationPanel: React.FC<{ report: ReconciliationReport; onReconcile: () => Promise<void> }> = ({ report, onReconcile }) => {
+    const [isFixing, setIsFixing] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleFix = async () => {
+        setIsFixing(true);
+        setError('');
+        try {
+            await onReconcile();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setIsFixing(false);
+        }
+    };
+
+    if (report.fixed) {
+        return (
+            <div className="bg-green-500/10 border border-green-500/40 p-4 rounded-2xl text-green-200 text-sm">
+                Inventory reconciled. {report.mismatches.length} difference(s) between this device and the shared inventory were resolved.
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-amber-500/10 border border-amber-500/40 p-6 rounded-2xl">
+            <h2 className="text-xl font-bold text-white">Inventory needs reconciling</h2>
+            <p className="text-gray-300 text-sm mt-1">
+                This device has an older copy of your inventory that differs from what customers see. Applying the fix keeps this device's values.
+            </p>
+            <ul className="mt-4 space-y-2 max-h-60 overflow-y-auto pr-2 text-sm">
+                {report.mismatches.map(m => (
+                    <li key={`${m.kind}-${m.medicineName}`} className="flex justify-between gap-4 bg-[#2a2a2a] px-4 py-2 rounded-lg">
+                        <span className="text-white font-medium">{m.medicineName}</span>
+                        <span className="text-amber-300 text-right">
+                            {MISMATCH_LABELS[m.kind]}
+                            {m.kind === 'priceMismatch' && ` (₹${m.globalItem!.price.toFixed(2)} → ₹${m.ownerItem!.price.toFixed(2)})`}
+                            {m.kind === 'stockMismatch' && ` (${m.globalItem!.stock} → ${m.ownerItem!.stock})`}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+            <button
+                type="button"
+                onClick={handleFix}
+                disabled={isFixing}
+                className="mt-4 px-6 py-2 bg-amber-500 text-white font-bold rounded-full hover:bg-amber-400 transition-all disabled:bg-gray-600"
+            >
+                {isFixing ? 'Fixing...' : 'Apply Fixes'}
+            </button>
+            {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+        </div>
+    );
+};
+
+// Empty means "not tracked".
+const parseOptionalCount = (value: string): number | undefined => {
+    const parsed = parseInt(value, 10);
+    return value.trim() === '' || isNaN(parsed) ? undefined : Math.max(0, parsed);
+};
+
+const QuantityEditor: React.FC<{
+    item: InventoryItem;
+    onChange: (quantity: number | undefined, reorderThreshold: number | undefined) => void;
+}> = ({ item, onChange }) => {
+    const [quantity, setQuantity] = useState(item.quantity?.toString() ?? '');
+    const [reorderThreshold, setReorderThreshold] = useState(item.reorderThreshold?.toString() ?? '');
+
+    const commit = () => {
+        const newQuantity = parseOptionalCount(quantity);
+        const newThreshold = parseOptionalCount(reorderThreshold);
+        if (newQuantity !== item.quantity || newThreshold !== item.reorderThreshold) {
+            onChange(newQuantity, newThreshold);
+        }
+    };
+
+    const inputClasses = "w-16 bg-gray-700/50 text-white text-xs border border-gray-600 rounded-md px-2 py-1 focus:ring-2 focus:ring-teal-400";
+    return (
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+            <label className="flex items-center gap-1">
+                Strips
+                <input type="number" min="0" value={quantity} onChange={(e) => setQuantity(e.target.value)} onBlur={commit}
+                    onKeyDown={(e) => e.key === 'Enter' && commit()} placeholder="—" className={inputClasses} aria-label={`Strips of ${item.medicineName} on hand`} />
+            </label>
+            <label className="flex items-center gap-1">
+                Reorder at
+                <input type="number" min="0" value={reorderThreshold} onChange={(e) => setReorderThreshold(e.target.value)} onBlur={commit}
+                    onKeyDown={(e) => e.key === 'Enter' && commit()} placeholder="—" className={inputClasses} aria-label={`Reorder level for ${item.medicineName}`} />
+            </label>
+        </div>
+    );
+};
+
+const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+    similarName: 'Similar name',
+    nearby: 'Same area',
+    samePhone: 'Same phone number',
+};
+
+const DuplicatesPanel: React.FC<{
+    pharmacyId: PharmacyId;
+    candidates: DuplicateCandidate[];
+    onMerge: (duplicateId: PharmacyId) => Promise<PharmacyMergeReport>;
+}> = ({ pharmacyId, candidates, onMerge }) => {
+    const [mergingId, setMergingId] = useState<PharmacyId | null>(null);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    const handleMerge = async (duplicateId: PharmacyId, duplicateName: string) => {
+        if (!window.confirm(`Merge "${duplicateName}" into your pharmacy? Its inventory moves to your listing and it is removed. This can't be undone.`)) return;
+        setMergingId(duplicateId);
+        setMessage('');
+        setError('');
+        try {
+            const report = await onMerge(duplicateId);
+            setMessage(`Merged. ${report.movedItems} item(s) moved, ${report.replacedItems} updated from the duplicate, ${report.keptItems} kept as you had them.`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setMergingId(null);
+        }
+    };
+
+    if (candidates.length === 0 && !message) return null;
+
+    return (
+        <div className="bg-[#1E1E1E] p-6 rounded-2xl shadow-2xl shadow-teal-900/20">
+            <h2 className="text-xl font-bold text-white">Possible duplicate listings</h2>
+            <p className="text-gray-400 text-sm mt-1">
+                These look like your pharmacy registered again. Listings with your phone number can be merged so customers see one listing with all your stock.
+            </p>
+            {message && <p className="text-green-300 text-sm mt-3">{message}</p>}
+            {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+            <ul className="mt-4 space-y-3">
+                {candidates.map(({ pharmacies, distanceKm, reasons }) => {
+                    const duplicate = pharmacies[0].id === pharmacyId ? pharmacies[1] : pharmacies[0];
+                    return (
+                        <li key={duplicate.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-[#2a2a2a] p-4 rounded-lg">
+                            <div>
+                                <span className="font-medium text-white block">{duplicate.name}</span>
+                                <span className="text-xs text-gray-400 block">{duplicate.address} · {duplicate.phone} · {distanceKm} km away</span>
+                                <span className="text-xs text-amber-300 block mt-1">{reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(' · ')}</span>
+                            </div>
+                            {canMergeDuplicate(reasons) ? (
+                                <button
+                                    type="button"
+                                    onClick={() => handleMerge(duplicate.id, duplicate.name)}
+                                    disabled={mergingId !== null}
+                                    className="px-4 py-2 bg-amber-500 text-gray-900 text-sm font-bold rounded-full hover:bg-amber-400 transition-all disabled:bg-gray-600 whitespace-nowrap"
+                                >
+                                    {mergingId === duplicate.id ? 'Merging...' : 'Merge into my pharmacy'}
+                                </button>
+                            ) : (
+                                <span className="text-xs text-gray-400 sm:max-w-[14rem]">
+                                    It has a different phone number, so it may be another branch. It can't be merged from here.
+                                </span>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+const OpeningHoursPanel: React.FC<{ hours: OpeningHours | null; onSave: (hours: OpeningHours) => Promise<void> }> = ({ hours, onSave }) => {
+    const [draft, setDraft] = useState<OpeningHours | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setIsSaving(true);
+        setError('');
+        try {
+            await onSave(draft);
+            setDraft(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCancel = () => {
+        setDraft(null);
+        setError('');
+    };
+
+    return (
+        <div className="bg-[#1E1E1E] p-6 rounded-2xl shadow-2xl shadow-teal-900/20">
+            <div className="flex justify-between items-start gap-4">
+                <div>
+                    <h2 className="text-xl font-bold text-white">Opening Hours</h2>
+                    <p className="text-sm text-gray-400 mt-1">
+                        {hours ? getOpeningStatus(hours).label : "Customers can't see when you're open. Add your hours so you show up in open-now searches."}
+                    </p>
+                </div>
+                {!draft && (
+                    <button
+                        type="button"
+                        onClick={() => setDraft(hours ?? createDefaultOpeningHours())}
+                        className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-full hover:bg-gray-600 transition-all whitespace-nowrap"
+                    >
+                        {hours ? 'Edit Hours' : 'Add Hours'}
+                    </button>
+                )}
+            </div>
+            {draft && (
+                <div className="mt-4 space-y-4">
+                    <OpeningHoursEditor value={draft} onChange={setDraft} />
+                    {error && <p className="text-red-400 text-xs">{error}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={handleCancel} className="px-4 py-2 text-gray-300 text-sm font-semibold rounded-full hover:bg-gray-700 transition-all">
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="px-5 py-2 bg-teal-500 text-white text-sm font-bold rounded-full hover:bg-teal-400 transition-all disabled:bg-gray-600"
+                        >
+                            {isSaving ? 'Saving...' : 'Save Hours'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const PACK_UNIT_OPTIONS: { value: PackSize['unit']; label: string }[] = [
+    { value: 'unit', label: 'tablets / units' },
+    { value: 'ml', label: 'ml' },
+    { value: 'g', label: 'g' },
+];
+
+const parsePackSize = (quantity: string, unit: PackSize['unit']): PackSize | undefined => {
+    const parsed = parseFloat(quantity);
+    return parsed > 0 ? { quantity: parsed, unit } : undefined;
+};
+
+const PackSizeEditor: React.FC<{
+    item: InventoryItem;
+    onChange: (packSize: PackSize | undefined) => void;
+}> = ({ item, onChange }) => {
+    // Show the pack size read from the name as a hint until the owner records one.
+    const inferred = item.packSize ? undefined : getPackSize(item);
+    const [quantity, setQuantity] = useState(item.packSize?.quantity.toString() ?? '');
+    const [unit, setUnit] = useState<PackSize['unit']>(item.packSize?.unit ?? inferred?.unit ?? 'unit');
+
+    const commit = (newQuantity: string, newUnit: PackSize['unit']) => {
+        const packSize = parsePackSize(newQuantity, newUnit);
+        if (packSize?.quantity !== item.packSize?.quantity || (packSize && packSize.unit !== item.packSize?.unit)) {
+            onChange(packSize);
+        }
+    };
+
+    const handleUnitChange = (newUnit: PackSize['unit']) => {
+        setUnit(newUnit);
+        commit(quantity, newUnit);
+    };
+
+    return (
+        <label className="flex items-center gap-1 text-xs text-gray-400">
+            Pack
+            <input type="number" min="0" step="any" value={quantity} onChange={(e) => setQuantity(e.target.value)} onBlur={() => commit(quantity, unit)}
+                onKeyDown={(e) => e.key === 'Enter' && commit(quantity, unit)} placeholder={inferred ? String(inferred.quantity) : '—'}
+                className="w-16 bg-gray-700/50 text-white text-xs border border-gray-600 rounded-md px-2 py-1 focus:ring-2 focus:ring-teal-400" aria-label={`Pack size of ${item.medicineName}`} />
+            <select value={unit} onChange={(e) => handleUnitChange(e.target.value as PackSize['unit'])}
+                className="bg-gray-700/50 text-white text-xs border border-gray-600 rounded-md px-1 py-1 focus:ring-2 focus:ring-teal-400" aria-label={`Pack size unit of ${item.medicineName}`}>
+                {PACK_UNIT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+        </label>
+    );
+};
+
+const FlaggedPricesPanel: React.FC<{ items: InventoryItem[]; onConfirm: (medicineName: string) => Promise<void> }> = ({ items, onConfirm }) => {
+    const [confirming, setConfirming] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const handleConfirm = async (medicineName: string) => {
+        setConfirming(medicineName);
+        setError('');
+        try {
+            await onConfirm(medicineName);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setConfirming(null);
+        }
+    };
+
+    return (
+        <div className="bg-amber-500/10 border border-amber-500/40 p-6 rounded-2xl">
+            <h2 className="text-xl font-bold text-white">Check these prices</h2>
+            <p className="text-gray-300 text-sm mt-1">
+                These prices are very different from other pharmacies nearby or from what you charged before. Customers see them, but they won't be picked as the Best Option until you confirm them. If a price is wrong, add the medicine again with the right price.
+            </p>
+            <ul className="mt-4 space-y-2 max-h-60 overflow-y-auto pr-2 text-sm">
+                {items.map(item => (
+                    <li key={item.medicineName} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-[#2a2a2a] px-4 py-3 rounded-lg">
+                        <div>
+                            <span className="text-white font-medium">{item.medicineName}</span>
+                            <span className="text-cyan-400 font-bold ml-2">₹{item.price.toFixed(2)}</span>
+                            {item.priceFlag!.reasons.map(reason => <span key={reason} className="block text-xs text-amber-300">{reason}</span>)}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => handleConfirm(item.medicineName)}
+                            disabled={confirming !== null}
+                            className="self-start sm:self-center px-4 py-1.5 bg-amber-500 text-white text-xs font-bold rounded-full hover:bg-amber-400 transition-all disabled:bg-gray-600 whitespace-nowrap"
+                        >
+                            {confirming === item.medicineName ? 'Confirming...' : 'Price Is Correct'}
+                        </button>
+                    </li>
+                ))}
+            </ul>
+            {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+        </div>
+    );
+};
+
+const RestockReport: React.FC<{ items: InventoryItem[] }> = ({ items }) => (
+    <div className="bg-orange-500/10 border border-orange-500/40 p-6 rounded-2xl">
+        <h2 className="text-xl font-bold text-white">Restock report</h2>
+        <p className="text-gray-300 text-sm mt-1">These items are at or below their reorder level.</p>
+        <ul className="mt-4 space-y-2 text-sm">
+            {items.map(item => (
+                <li key={item.medicineName} className="flex justify-between gap-4 bg-[#2a2a2a] px-4 py-2 rounded-lg">
+                    <span className="text-white font-medium">{item.medicineName}</span>
+                    <span className="text-orange-300 text-right">
+                        {item.quantity} left{item.reorderThreshold !== undefined && ` (reorder at ${item.reorderThreshold})`}
+                    </span>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
 const StockStatusSelector: React.FC<{
     selected: StockStatus;
     onChange: (status: StockStatus) => void;
@@ -41,26 +425,76 @@ const StockStatusSelector: React.FC<{
 );
 
 
-export const PharmacyOwnerDashboard: React.FC<PharmacyOwnerDashboardProps> = ({ owner, inventory, onLogout, onSwitchAccount, onItemAdd, onSlipUpload, onStockStatusChange, onItemDelete }) => {
+export const PharmacyOwnerDashboard: React.FC<PharmacyOwnerDashboardProps> = ({ owner, inventory, onLogout, onSwitchAccount, onItemAdd, onSlipUpload, onBulkImport, onStockStatusChange, onItemDelete, onConfirmAllInStock, onQuantityChange, onPackSizeChange, onConfirmPrice, inventoryHistory, deletedItems, onUndo, onRestore, openingHours, onOpeningHoursSave, duplicateCandidates, onMergeDuplicate, reconciliationReport, onReconcile }) => {
     const [newMedicineName, setNewMedicineName] = useState('');
     const [newMedicinePrice, setNewMedicinePrice] = useState('');
+    const [newMedicineQuantity, setNewMedicineQuantity] = useState('');
+    const [newMedicineReorderThreshold, setNewMedicineReorderThreshold] = useState('');
+    const [newMedicinePackSize, setNewMedicinePackSize] = useState('');
+    const [newMedicinePackUnit, setNewMedicinePackUnit] = useState<PackSize['unit']>('unit');
+    const [priceWarning, setPriceWarning] = useState<FlaggedPrice | null>(null);
+    const [addError, setAddError] = useState('');
+    const [inventoryError, setInventoryError] = useState('');
     const [isParsing, setIsParsing] = useState(false);
     const [parseError, setParseError] = useState('');
+    const [slipItems, setSlipItems] = useState<InventoryItem[] | null>(null);
+    const [slipPriceWarnings, setSlipPriceWarnings] = useState<FlaggedPrice[]>([]);
+    const [isConfirming, setIsConfirming] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const handleAddItem = (e: React.FormEvent) => {
+    const handleAddItem = async (e: React.FormEvent) => {
         e.preventDefault();
         if (newMedicineName.trim() && parseFloat(newMedicinePrice) > 0) {
-            onItemAdd({
-                medicineName: newMedicineName.trim(),
-                price: parseFloat(newMedicinePrice),
-                stock: StockStatus.Available,
-            });
-            setNewMedicineName('');
-            setNewMedicinePrice('');
+            setPriceWarning(null);
+            setAddError('');
+            try {
+                const flagged = await onItemAdd({
+                    medicineName: newMedicineName.trim(),
+                    price: parseFloat(newMedicinePrice),
+                    stock: StockStatus.Available,
+                    quantity: parseOptionalCount(newMedicineQuantity),
+                    reorderThreshold: parseOptionalCount(newMedicineReorderThreshold),
+                    packSize: parsePackSize(newMedicinePackSize, newMedicinePackUnit),
+                });
+                // The form is only cleared once the item is saved, so nothing typed is lost if it isn't.
+                setNewMedicineName('');
+                setNewMedicinePrice('');
+                setNewMedicineQuantity('');
+                setNewMedicineReorderThreshold('');
+                setNewMedicinePackSize('');
+                setPriceWarning(flagged ?? null);
+            } catch (error) {
+                setAddError(error instanceof Error ? error.message : 'An unknown error occurred.');
+            }
+        }
+    };
+
+    // Changes to listed items are saved as they're made, so a failed save is shown above the list.
+    const runInventoryChange = async (change: () => Promise<void>) => {
+        setInventoryError('');
+        try {
+            await change();
+        } catch (error) {
+            setInventoryError(error instanceof Error ? error.message : 'An unknown error occurred.');
         }
     };
     
+    const handleConfirmAll = async () => {
+        setIsConfirming(true);
+        try {
+            await onConfirmAllInStock();
+        } catch (error) {
+            console.error("Failed to confirm stock", error);
+        } finally {
+            setIsConfirming(false);
+        }
+    };
+
+    const unconfirmedCount = inventory.filter(item => getEffectiveStockStatus(item) === StockStatus.Unconfirmed).length;
+    const availableCount = inventory.filter(item => item.stock === StockStatus.Available).length;
+    const restockItems = inventory.filter(needsRestock).sort((a, b) => a.quantity! - b.quantity!);
+    const flaggedItems = inventory.filter(item => item.priceFlag);
+
     const handleUploadClick = () => {
         fileInputRef.current?.click();
     };
@@ -70,8 +504,9 @@ export const PharmacyOwnerDashboard: React.FC<PharmacyOwnerDashboardProps> = ({
         if (file) {
             setIsParsing(true);
             setParseError('');
+            setSlipPriceWarnings([]);
             try {
-                await onSlipUpload(file);
+                setSlipItems(await onSlipUpload(file));
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
                 setParseError(errorMessage);
@@ -107,6 +542,16 @@ export const PharmacyOwnerDashboard: React.FC<PharmacyOwnerDashboardProps> = ({
                 </div>
             </div>
             
+            {reconciliationReport && <ReconciliationPanel report={reconciliationReport} onReconcile={onReconcile} />}
+
+            <DuplicatesPanel pharmacyId={owner.id} candidates={duplicateCandidates} onMerge={onMergeDuplicate} />
+
+            {flaggedItems.length > 0 && <FlaggedPricesPanel items={flaggedItems} onConfirm={onConfirmPrice} />}
+
+            {restockItems.length > 0 && <RestockReport items={restockItems} />}
+
+            <OpeningHoursPanel hours={openingHours} onSave={onOpeningHoursSave} />
+
             <div className="bg-[#1E1E1E] p-6 rounded-2xl shadow-2xl shadow-teal-900/20">
                 <h2 className="text-2xl font-bold text-white mb-4">Add New Medicine</h2>
 
@@ -130,12 +575,51 @@ export const PharmacyOwnerDashboard: React.FC<PharmacyOwnerDashboardProps> = ({
                             min="0"
                             step="0.01"
                         />
+                        <input
+                            type="number"
+                            value={newMedicineQuantity}
+                            onChange={(e) => setNewMedicineQuantity(e.target.value)}
+                            placeholder="Strips on hand (optional)"
+                            className="bg-[#2a2a2a] text-white placeholder-gray-500 border border-gray-600 rounded-lg px-4 py-3 focus:ring-2 focus:ring-teal-400 focus:border-teal-400 transition-all"
+                            min="0"
+                            step="1"
+                        />
+                        <input
+                            type="number"
+                            value={newMedicineReorderThreshold}
+                            onChange={(e) => setNewMedicineReorderThreshold(e.target.value)}
+                            placeholder="Reorder at (optional)"
+                            className="bg-[#2a2a2a] text-white placeholder-gray-500 border border-gray-600 rounded-lg px-4 py-3 focus:ring-2 focus:ring-teal-400 focus:border-teal-400 transition-all"
+                            min="0"
+                            step="1"
+                        />
+                        <div className="flex gap-2 md:col-span-2">
+                            <input
+                                type="number"
+                                value={newMedicinePackSize}
+                                onChange={(e) => setNewMedicinePackSize(e.target.value)}
+                                placeholder="Pack size, e.g. 10 (optional)"
+                                className="flex-1 bg-[#2a2a2a] text-white placeholder-gray-500 border border-gray-600 rounded-lg px-4 py-3 focus:ring-2 focus:ring-teal-400 focus:border-teal-400 transition-all"
+                                min="0"
+                                step="any"
+                            />
+                            <select
+                                value={newMedicinePackUnit}
+                                onChange={(e) => setNewMedicinePackUnit(e.target.value as PackSize['unit'])}
+                                className="bg-[#2a2a2a] text-white border border-gray-600 rounded-lg px-4 py-3 focus:ring-2 focus:ring-teal-400 focus:border-teal-400 transition-all"
+                                aria-label="Pack size unit"
+                            >
+                                {PACK_UNIT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                            </select>
+                        </div>
                     </div>
                      <div className="flex justify-end pt-2">
                         <button type="submit" className="w-full sm:w-auto px-8 py-3 bg-teal-500 text-white font-bold rounded-full shadow-lg shadow-teal-500/30 hover:bg-teal-400 transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-teal-300">
                             Add to Inventory
                         </button>
                     </div>
+                    {addError && <p className="text-red-400 text-sm">{addError}</p>}
+                    {priceWarning && <FlaggedPriceWarning prices={[priceWarning]} />}
                 </form>
 
                 <div className="my-6">
@@ -164,11 +648,49 @@ export const PharmacyOwnerDashboard: React.FC<PharmacyOwnerDashboardProps> = ({
                         )}
                     </button>
                     {parseError && <p className="text-red-400 text-xs mt-2 text-center">{parseError}</p>}
+                    {slipPriceWarnings.length > 0 && (
+                        <div className="mt-3">
+                            <FlaggedPriceWarning prices={slipPriceWarnings} />
+                        </div>
+                    )}
+                    {slipItems && (
+                        <PriceSlipReview
+                            items={slipItems}
+                            inventory={inventory}
+                            onSave={async (items) => {
+                                setSlipPriceWarnings(await onBulkImport(items, 'priceSlip'));
+                                setSlipItems(null);
+                            }}
+                            onCancel={() => setSlipItems(null)}
+                        />
+                    )}
+                    <InventoryImportPanel inventory={inventory} onImport={(items) => onBulkImport(items, 'spreadsheet')} />
+                    <PosImportPanel inventory={inventory} onImport={(items) => onBulkImport(items, 'billingSoftware')} />
                 </div>
 
 
                 <div className="border-t border-gray-700 pt-6">
-                    <h3 className="text-xl font-bold text-white mb-4">Current Inventory ({inventory.length})</h3>
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+                        <div>
+                            <h3 className="text-xl font-bold text-white">Current Inventory ({inventory.length})</h3>
+                            {unconfirmedCount > 0 && (
+                                <p className="text-xs text-amber-300 mt-1">
+                                    {unconfirmedCount} item(s) not confirmed in the last {getStockConfirmationThreshold()} days are shown to customers as unconfirmed.
+                                </p>
+                            )}
+                        </div>
+                        {availableCount > 0 && (
+                            <button
+                                type="button"
+                                onClick={handleConfirmAll}
+                                disabled={isConfirming}
+                                className="px-5 py-2 bg-green-600 text-white text-sm font-bold rounded-full hover:bg-green-500 transition-all disabled:bg-gray-600"
+                            >
+                                {isConfirming ? 'Confirming...' : 'Confirm All Still in Stock'}
+                            </button>
+                        )}
+                    </div>
+                    {inventoryError && <p className="text-red-400 text-sm mb-3">{inventoryError}</p>}
                     {inventory.length > 0 ? (
                          <ul className="space-y-3 max-h-[50vh] overflow-y-auto pr-2">
                              {inventory.sort((a,b) => a.medicineName.localeCompare(b.medicineName)).map((item, index) => (
@@ -178,11 +700,34 @@ export const PharmacyOwnerDashboard: React.FC<PharmacyOwnerDashboardProps> = ({
                                         <div>
                                             <span className="font-medium text-white block">{item.medicineName}</span>
                                             <span className="font-bold text-cyan-400 text-sm">₹{item.price.toFixed(2)}</span>
+                                            {item.priceFlag && <span className="text-xs font-semibold text-amber-300 ml-2">Price needs checking</span>}
+                                            {item.priceChangedAt && (
+                                                <span className="text-xs text-gray-500 ml-2">Price last changed {new Date(item.priceChangedAt).toLocaleDateString()}</span>
+                                            )}
+                                            {item.stock === StockStatus.Available && (
+                                                getEffectiveStockStatus(item) === StockStatus.Unconfirmed ? (
+                                                    <span className="block text-xs text-amber-300">Unconfirmed · {describeConfirmationAge(item.lastConfirmedAt)}</span>
+                                                ) : (
+                                                    <span className="block text-xs text-gray-500">Confirmed · {describeConfirmationAge(item.lastConfirmedAt)}</span>
+                                                )
+                                            )}
+                                            <div className="mt-2 flex flex-wrap gap-x-4 gap-y-2">
+                                                <QuantityEditor
+                                                    key={`${item.medicineName}:${item.quantity}:${item.reorderThreshold}`}
+                                                    item={item}
+                                                    onChange={(quantity, reorderThreshold) => runInventoryChange(() => onQuantityChange(item.medicineName, quantity, reorderThreshold))}
+                                                />
+                                                <PackSizeEditor
+                                                    key={`${item.medicineName}:${item.packSize?.quantity}:${item.packSize?.unit}`}
+                                                    item={item}
+                                                    onChange={(packSize) => runInventoryChange(() => onPackSizeChange(item.medicineName, packSize))}
+                                                />
+                                            </div>
                                         </div>
                                      </div>
                                      <div className="flex items-center gap-2 self-end sm:self-center">
-                                         <StockStatusSelector selected={item.stock} onChange={(newStatus) => onStockStatusChange(item.medicineName, newStatus)} idPrefix={`item-${index}`} />
-                                        <button onClick={() => onItemDelete(item.medicineName)} className="p-2 text-gray-500 hover:text-red-400 rounded-full hover:bg-red-500/10 transition-colors" aria-label={`Delete ${item.medicineName}`}>
+                                         <StockStatusSelector selected={item.stock} onChange={(newStatus) => runInventoryChange(() => onStockStatusChange(item.medicineName, newStatus))} idPrefix={`item-${index}`} />
+                                        <button onClick={() => runInventoryChange(() => onItemDelete(item.medicineName))} className="p-2 text-gray-500 hover:text-red-400 rounded-full hover:bg-red-500/10 transition-colors" aria-label={`Delete ${item.medicineName}`}>
                                             <TrashIcon className="h-5 w-5"/>
                                         </button>
                                      </div>
@@ -197,6 +742,8 @@ export const PharmacyOwnerDashboard: React.FC<PharmacyOwnerDashboardProps> = ({
                     )}
                 </div>
             </div>
+
+            <InventoryHistoryPanel history={inventoryHistory} deletedItems={deletedItems} onUndo={onUndo} onRestore={onRestore} />
              <style>{`
                 @keyframes fade-in {
                     from { opacity: 0; transform: translateY(10px); }
@@ -1,13 +1,15 @@
 
 import React, { useState } from 'react';
-import type { PharmacyOwner } from '../types';
+import type { PharmacyId, PharmacyOwner, OpeningHours } from '../types';
 import { reverseGeocode, geocodeAddress } from '../services/geminiService';
+import { createDefaultOpeningHours, validateOpeningHours } from '../services/openingHours';
 import { MapPinIcon } from './icons';
+import { OpeningHoursEditor } from './OpeningHoursEditor';
 
-type EnrichedPharmacyOwner = PharmacyOwner & { id: number };
+type EnrichedPharmacyOwner = PharmacyOwner & { id: PharmacyId };
 
 interface PharmacyOwnerLoginProps {
-  onLogin: (details: PharmacyOwner, location: { lat: number, lon: number }) => void;
+  onLogin: (details: PharmacyOwner, location: { lat: number, lon: number }, openingHours: OpeningHours) => void;
   savedOwners: EnrichedPharmacyOwner[];
   onOwnerSelect: (owner: EnrichedPharmacyOwner) => void;
 }
@@ -20,12 +22,18 @@ export const PharmacyOwnerLogin: React.FC<PharmacyOwnerLoginProps> = ({ onLogin,
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [locationError, setLocationError] = useState('');
   const [location, setLocation] = useState<{ lat: number, lon: number } | null>(null);
+  const [openingHours, setOpeningHours] = useState<OpeningHours>(createDefaultOpeningHours);
+  const [hoursError, setHoursError] = useState('');
   const [showRegistrationForm, setShowRegistrationForm] = useState(savedOwners.length === 0);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name || phone.length !== 10 || !address) return;
 
+    const openingHoursError = validateOpeningHours(openingHours);
+    setHoursError(openingHoursError ?? '');
+    if (openingHoursError) return;
+
     setIsSubmitting(true);
     setLocationError('');
     try {
@@ -35,7 +43,7 @@ export const PharmacyOwnerLogin: React.FC<PharmacyOwnerLoginProps> = ({ onLogin,
         }
         
         if (coords) {
-            onLogin({ name, phone, address }, coords);
+            onLogin({ name, phone, address }, coords, openingHours);
         } else {
             setLocationError("Could not determine coordinates for the address.");
         }
@@ -199,6 +207,11 @@ export const PharmacyOwnerLogin: React.FC<PharmacyOwnerLoginProps> = ({ onLogin,
                         />
                         {locationError && <p className="text-red-400 text-xs mt-1 text-left">{locationError}</p>}
                     </div>
+                    <div>
+                        <span className="block text-left text-sm font-bold text-gray-300 mb-2">Opening Hours</span>
+                        <OpeningHoursEditor value={openingHours} onChange={setOpeningHours} />
+                        {hoursError && <p className="text-red-400 text-xs mt-1 text-left">{hoursError}</p>}
+                    </div>
 
                     <button
                         type="submit"
@@ -1,18 +1,23 @@
 
 import React, { useState, useEffect } from 'react';
-import type { PharmacyOwner, InventoryItem } from '../types';
+import type { PharmacyId, PharmacyOwner, InventoryItem, OpeningHours, PackSize } from '../types';
 import { StockStatus } from '../types';
 import { PharmacyOwnerLogin } from './PharmacyOwnerLogin';
 import { PharmacyOwnerDashboard } from './PharmacyOwnerDashboard';
-import { updateGlobalInventory, deleteFromGlobalInventory, registerOrGetPharmacy, updateStockStatusInGlobalInventory } from '../services/pharmacyService';
+import { BackupPanel } from './BackupPanel';
+import { updateGlobalInventory, deleteFromGlobalInventory, registerOrGetPharmacy, updateStockStatusInGlobalInventory, getInventoryForPharmacy, confirmAllInStock, updateStockQuantity, updatePackSize, confirmPrice, getInventoryHistory, getRestorableDeletions, undoLastInventoryChange, restoreDeletedItem, getOpeningHours, updateOpeningHours, findDuplicatePharmacies, mergePharmacies, subscribeToPharmacyChanges } from '../services/pharmacyService';
+import type { DuplicateCandidate, FlaggedPrice } from '../services/pharmacyService';
 import { parsePriceSlip } from '../services/geminiService';
-
-const ALL_OWNERS_KEY = 'pharmacyOwnersList';
-const ACTIVE_OWNER_ID_KEY = 'activePharmacyOwnerId';
-const INVENTORY_KEY = 'pharmacyInventory';
+import { toPharmacyId } from '../services/pharmacyIds';
+import { findLegacyInventoryPharmacyIds, reconcileOwnerInventories } from '../services/inventoryReconciliation';
+import type { ReconciliationReport } from '../services/inventoryReconciliation';
+import type { AuditLogEntry, InventoryChangeSource } from '../services/databaseSchema';
+import { DEFAULT_CHANGE_AUTHOR } from '../services/inventoryAudit';
+import type { ChangeAuthor } from '../services/inventoryAudit';
+import { ALL_OWNERS_KEY, ACTIVE_OWNER_ID_KEY } from '../services/databaseBackup';
 
 // The owner object we store will have an ID for stable reference
-type EnrichedPharmacyOwner = PharmacyOwner & { id: number };
+type EnrichedPharmacyOwner = PharmacyOwner & { id: PharmacyId };
 
 const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -30,52 +35,109 @@ export const PharmacyOwnerPage: React.FC = () => {
     const [activeOwner, setActiveOwner] = useState<EnrichedPharmacyOwner | null>(null);
     const [savedOwners, setSavedOwners] = useState<EnrichedPharmacyOwner[]>([]);
     const [inventory, setInventory] = useState<InventoryItem[]>([]);
+    const [inventoryHistory, setInventoryHistory] = useState<AuditLogEntry[]>([]);
+    const [deletedItems, setDeletedItems] = useState<AuditLogEntry[]>([]);
+    const [reconciliationReport, setReconciliationReport] = useState<ReconciliationReport | null>(null);
+    const [openingHours, setOpeningHours] = useState<OpeningHours | null>(null);
+    const [duplicateCandidates, setDuplicateCandidates] = useState<DuplicateCandidate[]>([]);
 
-    useEffect(() => {
+    // Reads the owners saved on this device, on first load and after a backup is restored.
+    const loadSavedOwners = () => {
         try {
             const storedOwners = localStorage.getItem(ALL_OWNERS_KEY);
-            const allOwners: EnrichedPharmacyOwner[] = storedOwners ? JSON.parse(storedOwners) : [];
+            const parsedOwners: (PharmacyOwner & { id: PharmacyId | number })[] = storedOwners ? JSON.parse(storedOwners) : [];
+            // Owners saved by older versions still have numeric pharmacy IDs.
+            const allOwners: EnrichedPharmacyOwner[] = parsedOwners.map(owner => ({ ...owner, id: toPharmacyId(owner.id) }));
+            if (parsedOwners.some(owner => typeof owner.id === 'number')) {
+                localStorage.setItem(ALL_OWNERS_KEY, JSON.stringify(allOwners));
+            }
             setSavedOwners(allOwners);
 
             const activeOwnerIdStr = localStorage.getItem(ACTIVE_OWNER_ID_KEY);
             if (activeOwnerIdStr) {
-                const activeOwnerId = parseInt(activeOwnerIdStr, 10);
-                const owner = allOwners.find(o => o.id === activeOwnerId);
-                if (owner) {
-                    setActiveOwner(owner);
+                const activeOwnerId = toPharmacyId(activeOwnerIdStr);
+                if (activeOwnerId !== activeOwnerIdStr) {
+                    localStorage.setItem(ACTIVE_OWNER_ID_KEY, activeOwnerId);
                 }
+                setActiveOwner(allOwners.find(o => o.id === activeOwnerId) ?? null);
+            } else {
+                setActiveOwner(null);
             }
         } catch (error) {
             console.error("Failed to load data from local storage", error);
         }
+    };
+
+    useEffect(() => {
+        loadSavedOwners();
     }, []);
 
+    // The history is read along with the inventory, since every change to one adds to the other.
+    const refreshInventory = async (pharmacyId: PharmacyId) => {
+        try {
+            const [items, history, deletions] = await Promise.all([
+                getInventoryForPharmacy(pharmacyId),
+                getInventoryHistory(pharmacyId),
+                getRestorableDeletions(pharmacyId),
+            ]);
+            setInventory(items);
+            setInventoryHistory(history);
+            setDeletedItems(deletions);
+        } catch (error) {
+            console.error("Failed to load inventory", error);
+        }
+    };
+
+    const refreshDuplicates = async (pharmacyId: PharmacyId) => {
+        try {
+            setDuplicateCandidates(await findDuplicatePharmacies(pharmacyId));
+        } catch (error) {
+            console.error("Failed to look for duplicate listings", error);
+        }
+    };
+
     useEffect(() => {
+        setReconciliationReport(null);
+        setOpeningHours(null);
+        setDuplicateCandidates([]);
         if (activeOwner) {
-            try {
-                const storedInventory = localStorage.getItem(`${INVENTORY_KEY}_${activeOwner.id}`);
-                if (storedInventory) {
-                    const parsedInventory: InventoryItem[] = JSON.parse(storedInventory);
-                    // Data migration for older items to the new 'Available'/'Unavailable' stock system.
-                    const migratedInventory = parsedInventory.map(item => ({
-                        ...item,
-                        stock: (item.stock as any) === 'Out of Stock' ? StockStatus.Unavailable : StockStatus.Available
-                    }));
-                    setInventory(migratedInventory);
-                } else {
-                    setInventory([]);
-                }
-            } catch (error) {
-                console.error("Failed to load inventory from local storage", error);
+            refreshInventory(activeOwner.id);
+            getOpeningHours(activeOwner.id)
+                .then(setOpeningHours)
+                .catch(error => console.error("Failed to load opening hours", error));
+            refreshDuplicates(activeOwner.id);
+            // Older versions kept a second copy of the inventory on this device; surface any drift.
+            if (findLegacyInventoryPharmacyIds().includes(activeOwner.id)) {
+                const pharmacyIds = [activeOwner.id];
+                reconcileOwnerInventories({ fix: false, pharmacyIds })
+                    // Nothing to review if both copies agree, so retire the legacy copy straight away.
+                    .then(report => report.mismatches.length === 0 ? reconcileOwnerInventories({ fix: true, pharmacyIds, changedBy: activeOwner.name }) : report)
+                    .then(report => setReconciliationReport(report.mismatches.length > 0 ? report : null))
+                    .catch(error => console.error("Failed to compare legacy inventory", error));
             }
         } else {
             setInventory([]);
+            setInventoryHistory([]);
+            setDeletedItems([]);
         }
     }, [activeOwner]);
 
-    const handleLogin = async (details: PharmacyOwner, location: { lat: number, lon: number }) => {
+    // Keeps the dashboard current when the same pharmacy is edited in another tab.
+    useEffect(() => {
+        if (!activeOwner) return;
+        return subscribeToPharmacyChanges(({ pharmacyIds, fromOtherTab }) => {
+            if (fromOtherTab && pharmacyIds.includes(activeOwner.id)) {
+                refreshInventory(activeOwner.id);
+                getOpeningHours(activeOwner.id)
+                    .then(setOpeningHours)
+                    .catch(error => console.error("Failed to load opening hours", error));
+            }
+        });
+    }, [activeOwner]);
+
+    const handleLogin = async (details: PharmacyOwner, location: { lat: number, lon: number }, hours: OpeningHours) => {
         try {
-            const pharmacy = await registerOrGetPharmacy(details, location);
+            const pharmacy = await registerOrGetPharmacy(details, location, hours);
             const newOwner: EnrichedPharmacyOwner = { ...details, id: pharmacy.id };
             
             const updatedOwners = [...savedOwners];
@@ -89,7 +151,7 @@ export const PharmacyOwnerPage: React.FC = () => {
             localStorage.setItem(ALL_OWNERS_KEY, JSON.stringify(updatedOwners));
             setSavedOwners(updatedOwners);
             
-            localStorage.setItem(ACTIVE_OWNER_ID_KEY, newOwner.id.toString());
+            localStorage.setItem(ACTIVE_OWNER_ID_KEY, newOwner.id);
             setActiveOwner(newOwner);
         } catch (error) {
             console.error("Failed to register pharmacy or login", error);
@@ -97,7 +159,7 @@ export const PharmacyOwnerPage: React.FC = () => {
     };
 
     const handleOwnerSelect = (owner: EnrichedPharmacyOwner) => {
-        localStorage.setItem(ACTIVE_OWNER_ID_KEY, owner.id.toString());
+        localStorage.setItem(ACTIVE_OWNER_ID_KEY, owner.id);
         setActiveOwner(owner);
     };
 
@@ -109,35 +171,26 @@ export const PharmacyOwnerPage: React.FC = () => {
         }
         setActiveOwner(null);
     };
+
+    // Every change from the dashboard is logged under the owner signed in.
+    const changeAuthor = (source: InventoryChangeSource = 'dashboard'): ChangeAuthor => ({ changedBy: activeOwner?.name ?? DEFAULT_CHANGE_AUTHOR.changedBy, source });
     
-    const handleItemAdd = async (newItem: InventoryItem) => {
-        if (!activeOwner) return;
+    // Returns the price if it was flagged, so the add form can warn the owner straight away.
+    // Save failures (e.g. a conflict with another tab) are passed on for the dashboard to show.
+    const handleItemAdd = async (newItem: InventoryItem): Promise<FlaggedPrice | undefined> => {
+        if (!activeOwner) return undefined;
         
         const pharmacyId = activeOwner.id;
-        
-        const updatedInventory = [...inventory];
-        const existingIndex = updatedInventory.findIndex(
-            item => item.medicineName.toLowerCase() === newItem.medicineName.toLowerCase()
-        );
-
-        if (existingIndex > -1) {
-            updatedInventory[existingIndex] = newItem; // Update price and stock if it exists
-        } else {
-            updatedInventory.push(newItem);
-        }
-
         try {
-            localStorage.setItem(`${INVENTORY_KEY}_${pharmacyId}`, JSON.stringify(updatedInventory));
-            setInventory(updatedInventory);
-            await updateGlobalInventory(pharmacyId, [newItem]);
-        } catch (error) {
-            console.error("Failed to save inventory", error);
+            const flaggedPrices = await updateGlobalInventory(pharmacyId, [newItem], changeAuthor());
+            return flaggedPrices[0];
+        } finally {
+            await refreshInventory(pharmacyId);
         }
     };
 
-    const handleSlipUpload = async (file: File) => {
-        if (!activeOwner) return;
-        
+    // The parsed items are only returned for the owner to review; handleBulkImport saves the accepted ones.
+    const handleSlipUpload = async (file: File): Promise<InventoryItem[]> => {
         try {
             const base64 = await blobToBase64(file);
             const parsedItems = await parsePriceSlip(base64); 
@@ -146,67 +199,122 @@ export const PharmacyOwnerPage: React.FC = () => {
                 throw new Error("No medicines could be identified from the image. Please try again with a clearer image.");
             }
 
-            const pharmacyId = activeOwner.id;
-            
-            const updatedInventory = [...inventory];
-            parsedItems.forEach(newItem => {
-                const existingIndex = updatedInventory.findIndex(
-                    item => item.medicineName.toLowerCase() === newItem.medicineName.toLowerCase()
-                );
-                if (existingIndex > -1) {
-                    updatedInventory[existingIndex] = { ...updatedInventory[existingIndex], price: newItem.price, stock: newItem.stock };
-                } else {
-                    updatedInventory.push(newItem);
-                }
-            });
-
-            localStorage.setItem(`${INVENTORY_KEY}_${pharmacyId}`, JSON.stringify(updatedInventory));
-            setInventory(updatedInventory);
-            
-            await updateGlobalInventory(pharmacyId, parsedItems);
+            return parsedItems;
         } catch (error) {
             console.error("Error processing price slip:", error);
             throw error; 
         }
     };
 
+    // Returns the flagged prices, so each import can warn the owner about them with its result.
+    const handleBulkImport = async (items: InventoryItem[], source: InventoryChangeSource): Promise<FlaggedPrice[]> => {
+        if (!activeOwner) return [];
+        try {
+            return await updateGlobalInventory(activeOwner.id, items, changeAuthor(source));
+        } finally {
+            await refreshInventory(activeOwner.id);
+        }
+    };
+
     const handleStockStatusChange = async (medicineName: string, newStatus: StockStatus) => {
         if (!activeOwner) return;
         const pharmacyId = activeOwner.id;
 
-        const updatedInventory = inventory.map(item => 
-            item.medicineName.toLowerCase() === medicineName.toLowerCase()
-                ? { ...item, stock: newStatus }
-                : item
-        );
-
         try {
-            setInventory(updatedInventory);
-            localStorage.setItem(`${INVENTORY_KEY}_${pharmacyId}`, JSON.stringify(updatedInventory));
-            await updateStockStatusInGlobalInventory(pharmacyId, medicineName, newStatus);
-        } catch (error) {
-            console.error("Failed to update stock status", error);
+            await updateStockStatusInGlobalInventory(pharmacyId, medicineName, newStatus, changeAuthor());
+        } finally {
+            await refreshInventory(pharmacyId);
         }
     };
 
 
     const handleItemDelete = async (medicineNameToDelete: string) => {
-         if (!activeOwner) return;
+        if (!activeOwner) return;
 
-         const pharmacyId = activeOwner.id;
-         
-        const updatedInventory = inventory.filter(
-            item => item.medicineName.toLowerCase() !== medicineNameToDelete.toLowerCase()
-        );
+        const pharmacyId = activeOwner.id;
         try {
-            localStorage.setItem(`${INVENTORY_KEY}_${pharmacyId}`, JSON.stringify(updatedInventory));
-            setInventory(updatedInventory);
-            await deleteFromGlobalInventory(pharmacyId, medicineNameToDelete);
-        } catch (error) {
-            console.error("Failed to update inventory", error);
+            await deleteFromGlobalInventory(pharmacyId, medicineNameToDelete, changeAuthor());
+        } finally {
+            await refreshInventory(pharmacyId);
+        }
+    };
+
+    const handleQuantityChange = async (medicineName: string, quantity: number | undefined, reorderThreshold: number | undefined) => {
+        if (!activeOwner) return;
+        const pharmacyId = activeOwner.id;
+        try {
+            await updateStockQuantity(pharmacyId, medicineName, quantity, reorderThreshold, changeAuthor());
+        } finally {
+            await refreshInventory(pharmacyId);
+        }
+    };
+
+    const handlePackSizeChange = async (medicineName: string, packSize: PackSize | undefined) => {
+        if (!activeOwner) return;
+        const pharmacyId = activeOwner.id;
+        try {
+            await updatePackSize(pharmacyId, medicineName, packSize, changeAuthor());
+        } finally {
+            await refreshInventory(pharmacyId);
+        }
+    };
+
+    const handleConfirmPrice = async (medicineName: string) => {
+        if (!activeOwner) return;
+        await confirmPrice(activeOwner.id, medicineName);
+        await refreshInventory(activeOwner.id);
+    };
+
+    const handleUndo = async () => {
+        if (!activeOwner) return;
+        try {
+            await undoLastInventoryChange(activeOwner.id, changeAuthor());
+        } finally {
+            await refreshInventory(activeOwner.id);
         }
     };
 
+    const handleRestore = async (entryId: string) => {
+        if (!activeOwner) return;
+        try {
+            await restoreDeletedItem(activeOwner.id, entryId, changeAuthor());
+        } finally {
+            await refreshInventory(activeOwner.id);
+        }
+    };
+
+    const handleConfirmAllInStock = async () => {
+        if (!activeOwner) return;
+        await confirmAllInStock(activeOwner.id);
+        await refreshInventory(activeOwner.id);
+    };
+
+    const handleOpeningHoursSave = async (hours: OpeningHours) => {
+        if (!activeOwner) return;
+        await updateOpeningHours(activeOwner.id, hours);
+        setOpeningHours(hours);
+    };
+
+    const handleMergeDuplicate = async (duplicateId: PharmacyId) => {
+        if (!activeOwner) throw new Error("No pharmacy is logged in.");
+        const report = await mergePharmacies(duplicateId, activeOwner.id);
+
+        // The merged-away listing no longer exists, so it can't be logged into.
+        const updatedOwners = savedOwners.filter(o => o.id !== duplicateId);
+        localStorage.setItem(ALL_OWNERS_KEY, JSON.stringify(updatedOwners));
+        setSavedOwners(updatedOwners);
+
+        await Promise.all([refreshInventory(activeOwner.id), refreshDuplicates(activeOwner.id)]);
+        return report;
+    };
+
+    const handleReconcile = async () => {
+        if (!activeOwner) return;
+        const report = await reconcileOwnerInventories({ fix: true, pharmacyIds: [activeOwner.id], changedBy: activeOwner.name });
+        setReconciliationReport(report);
+        await refreshInventory(activeOwner.id);
+    };
+
     return (
         <div className="container mx-auto max-w-4xl">
             {activeOwner ? (
@@ -217,12 +325,28 @@ export const PharmacyOwnerPage: React.FC = () => {
                     onSwitchAccount={handleLogout}
                     onItemAdd={handleItemAdd}
                     onSlipUpload={handleSlipUpload}
+                    onBulkImport={handleBulkImport}
                     onStockStatusChange={handleStockStatusChange}
                     onItemDelete={handleItemDelete}
+                    onConfirmAllInStock={handleConfirmAllInStock}
+                    onQuantityChange={handleQuantityChange}
+                    onPackSizeChange={handlePackSizeChange}
+                    onConfirmPrice={handleConfirmPrice}
+                    inventoryHistory={inventoryHistory}
+                    deletedItems={deletedItems}
+                    onUndo={handleUndo}
+                    onRestore={handleRestore}
+                    openingHours={openingHours}
+                    onOpeningHoursSave={handleOpeningHoursSave}
+                    duplicateCandidates={duplicateCandidates}
+                    onMergeDuplicate={handleMergeDuplicate}
+                    reconciliationReport={reconciliationReport}
+                    onReconcile={handleReconcile}
                 />
             ) : (
                 <PharmacyOwnerLogin onLogin={handleLogin} savedOwners={savedOwners} onOwnerSelect={handleOwnerSelect} />
             )}
+            <BackupPanel onRestored={loadSavedOwners} />
         </div>
     );
 };
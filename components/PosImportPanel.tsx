@@ -0,0 +1,203 @@
+import React, { useState, useRef, useMemo } from 'react';
+import type { InventoryItem } from '../types';
+import { detectPosExportFormat, diffPosImport, getPosExportFormats } from '../services/posImport';
+import type { PosExportFile, PosExportContents, PosImportChange, PosImportDiff } from '../services/posImport';
+import type { FlaggedPrice } from '../services/pharmacyService';
+import { FlaggedPriceWarning } from './FlaggedPriceWarning';
+
+interface PosImportPanelProps {
+  inventory: InventoryItem[];
+  /** Saves the added, updated and unavailable items, resolving to any prices that were flagged as they were saved. */
+  onImport: (items: InventoryItem[]) => Promise<FlaggedPrice[]>;
+}
+
+const describeChange = ({ kind, item, previous }: PosImportChange) => {
+  if (kind === 'added') return { text: `New · ₹${item.price.toFixed(2)}`, className: 'text-green-400' };
+  if (kind === 'markedUnavailable') return { text: 'Not in the export · marked unavailable', className: 'text-amber-300' };
+  if (kind === 'unchanged' || !previous) return { text: 'No change', className: 'text-gray-500' };
+  const changes: string[] = [];
+  if (previous.price !== item.price) changes.push(`₹${previous.price.toFixed(2)} → ₹${item.price.toFixed(2)}`);
+  if (previous.stock !== item.stock) changes.push(`now ${item.stock.toLowerCase()}`);
+  if (item.quantity !== undefined && previous.quantity !== item.quantity) changes.push(`${item.quantity} strips`);
+  return { text: changes.length > 0 ? changes.join(', ') : 'Pack size updated', className: 'text-cyan-300' };
+};
+
+const describeCounts = (diff: PosImportDiff) => {
+  const priceChanges = diff.changes.filter(c => c.kind === 'updated' && c.previous && c.previous.price !== c.item.price).length;
+  return [
+    `${diff.counts.added} new`,
+    `${diff.counts.updated} updated (${priceChanges} price changes)`,
+    `${diff.counts.markedUnavailable} marked unavailable`,
+    `${diff.counts.unchanged} unchanged`,
+  ].join(', ');
+};
+
+const ChangeList: React.FC<{ changes: PosImportChange[] }> = ({ changes }) => (
+  <ul className="max-h-72 overflow-y-auto space-y-1 text-sm pr-2">
+    {changes.map(change => {
+      const status = describeChange(change);
+      return (
+        <li key={`${change.kind}-${change.item.medicineName}`} className="flex justify-between gap-3 bg-[#1E1E1E] px-3 py-2 rounded">
+          <span className="text-white min-w-0 truncate">{change.item.medicineName}</span>
+          <span className={`text-xs flex-shrink-0 ${status.className}`}>{status.text}</span>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+export const PosImportPanel: React.FC<PosImportPanelProps> = ({ inventory, onImport }) => {
+  const [file, setFile] = useState<PosExportFile | null>(null);
+  const [formatId, setFormatId] = useState('');
+  const [isWholeStock, setIsWholeStock] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [report, setReport] = useState<{ fileName: string; diff: PosImportDiff; flaggedPrices: FlaggedPrice[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const formats = getPosExportFormats();
+
+  const format = formats.find(f => f.id === formatId);
+  const parsed = useMemo((): { contents: PosExportContents } | { error: string } | null => {
+    if (!file || !format) return null;
+    try {
+      return { contents: format.parse(file) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'The file could not be read in this format.' };
+    }
+  }, [file, format]);
+
+  // A partial price list mustn't mark everything it leaves out as unavailable.
+  const markMissingUnavailable = !!format?.listsWholeStock || isWholeStock;
+  const contents = parsed && 'contents' in parsed ? parsed.contents : null;
+  const diff = useMemo(
+    () => (contents ? diffPosImport(contents.items, inventory, { markMissingUnavailable }) : null),
+    [contents, inventory, markMissingUnavailable]
+  );
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+    setError('');
+    setReport(null);
+    try {
+      const exportFile = { fileName: selected.name, text: await selected.text() };
+      const detected = detectPosExportFormat(exportFile);
+      setFile(exportFile);
+      setFormatId(detected?.id ?? '');
+      setIsWholeStock(false);
+      if (!detected) {
+        setError('This export\'s layout wasn\'t recognised. Choose the software it came from below.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be read.');
+    }
+  };
+
+  const handleCancel = () => {
+    setFile(null);
+    setFormatId('');
+    setError('');
+  };
+
+  const handleImport = async () => {
+    if (!file || !diff || diff.items.length === 0) return;
+    setIsImporting(true);
+    setError('');
+    try {
+      const flaggedPrices = await onImport(diff.items);
+      setReport({ fileName: file.fileName, diff, flaggedPrices });
+      setFile(null);
+      setFormatId('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The items could not be saved.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv,.txt,.xml,text/csv,text/xml" className="hidden" />
+      {!file && (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full px-6 py-3 bg-[#2a2a2a] border border-gray-600 text-white font-bold rounded-full hover:bg-gray-700 transition-all"
+        >
+          Import from Billing Software
+        </button>
+      )}
+      {error && <p className="text-red-400 text-xs mt-2 text-center">{error}</p>}
+
+      {report && (
+        <div className="mt-3 space-y-3 bg-[#2a2a2a] p-4 rounded-lg">
+          <div className="flex justify-between items-start gap-2">
+            <p className="text-sm text-green-400">
+              Imported {report.fileName}: {describeCounts(report.diff)}.
+            </p>
+            <button type="button" onClick={() => setReport(null)} className="text-xs text-gray-400 hover:text-white flex-shrink-0">
+              Dismiss
+            </button>
+          </div>
+          {report.flaggedPrices.length > 0 && <FlaggedPriceWarning prices={report.flaggedPrices} />}
+          <ChangeList changes={report.diff.changes.filter(change => change.kind !== 'unchanged')} />
+        </div>
+      )}
+
+      {file && (
+        <div className="space-y-4 bg-[#2a2a2a] p-4 rounded-lg">
+          <label className="flex flex-col gap-1 text-xs text-gray-400">
+            <span><span className="font-semibold text-white text-sm">{file.fileName}</span> exported from</span>
+            <select
+              value={formatId}
+              onChange={(e) => { setFormatId(e.target.value); setError(''); }}
+              className="bg-[#1E1E1E] text-white text-sm border border-gray-600 rounded-lg px-3 py-2"
+            >
+              <option value="">Choose the software</option>
+              {formats.map(format => <option key={format.id} value={format.id}>{format.name}</option>)}
+            </select>
+          </label>
+
+          {parsed && 'error' in parsed && <p className="text-sm text-red-400">{parsed.error}</p>}
+
+          {format && !format.listsWholeStock && (
+            <label className="flex items-start gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={isWholeStock} onChange={(e) => setIsWholeStock(e.target.checked)} className="rounded mt-1" />
+              This file lists my whole stock: mark medicines that aren't in it as unavailable
+            </label>
+          )}
+
+          {contents && diff && (
+            <>
+              <p className="text-sm text-gray-300">
+                {describeCounts(diff)}
+                {contents.skipped.length > 0 && <span className="text-red-400">, {contents.skipped.length} skipped</span>}
+              </p>
+              <ChangeList changes={diff.changes} />
+              {contents.skipped.length > 0 && (
+                <ul className="max-h-32 overflow-y-auto space-y-1 text-xs text-red-400 pr-2">
+                  {contents.skipped.map((entry, index) => <li key={index}>{entry.location}: {entry.reason}</li>)}
+                </ul>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={handleCancel} className="px-4 py-2 text-gray-300 text-sm font-semibold rounded-full hover:bg-gray-700 transition-all">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isImporting || !diff || diff.items.length === 0}
+              className="px-4 py-2 bg-teal-500 text-white text-sm font-bold rounded-full hover:bg-teal-400 transition-all disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : `Apply ${diff?.items.length ?? 0} Change(s)`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useState, useMemo } from 'react';
+import type { InventoryItem } from '../types';
+import { reviewPriceSlip } from '../services/priceSlipReview';
+import type { SlipItemReview } from '../services/priceSlipReview';
+
+interface PriceSlipReviewProps {
+  /** The items read from the slip. */
+  items: InventoryItem[];
+  inventory: InventoryItem[];
+  /** Saves the accepted items. */
+  onSave: (items: InventoryItem[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+type SlipRowDecision = 'accepted' | 'rejected';
+
+interface SlipRow {
+  medicineName: string;
+  priceText: string;
+  /** The owner's decision; rows without one are accepted unless they are flagged. */
+  decision?: SlipRowDecision;
+}
+
+const describeChange = (review: SlipItemReview, price: number) => {
+  if (review.change === 'new') return { text: 'New item', className: 'text-green-400' };
+  if (review.change === 'unchanged') return { text: 'No change', className: 'text-gray-500' };
+  if (review.change === 'priceChange' && review.previous) {
+    return { text: `₹${review.previous.price.toFixed(2)} → ₹${price.toFixed(2)}`, className: 'text-cyan-300' };
+  }
+  return null;
+};
+
+export const PriceSlipReview: React.FC<PriceSlipReviewProps> = ({ items, inventory, onSave, onCancel }) => {
+  const [rows, setRows] = useState<SlipRow[]>(() => items.map(item => ({ medicineName: item.medicineName, priceText: String(item.price) })));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const slipItems = useMemo(
+    () => items.map((item, index) => ({ ...item, medicineName: rows[index].medicineName.trim(), price: parseFloat(rows[index].priceText) })),
+    [items, rows]
+  );
+  const reviews = useMemo(() => reviewPriceSlip(slipItems, inventory), [slipItems, inventory]);
+
+  const decisions = rows.map((row, index): SlipRowDecision | undefined => {
+    const review = reviews[index];
+    if (review.errors.length > 0) return row.decision === 'rejected' ? 'rejected' : undefined;
+    return row.decision ?? (review.warnings.length > 0 ? undefined : 'accepted');
+  });
+  const acceptedItems = slipItems.filter((_, index) => decisions[index] === 'accepted');
+  const undecidedCount = decisions.filter(decision => decision === undefined).length;
+
+  const updateRow = (index: number, changes: Partial<SlipRow>) => {
+    setRows(current => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  // An edited row is looked at again, so an earlier decision doesn't carry over to the new values.
+  const handleEdit = (index: number, changes: Pick<Partial<SlipRow>, 'medicineName' | 'priceText'>) => {
+    updateRow(index, { ...changes, decision: undefined });
+  };
+
+  const handleSave = async () => {
+    if (undecidedCount > 0 || acceptedItems.length === 0) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave(acceptedItems);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The items could not be saved.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-4 bg-[#2a2a2a] p-4 rounded-lg">
+      <div>
+        <h3 className="font-semibold text-white">Check the Price Slip</h3>
+        <p className="text-sm text-gray-400 mt-1">
+          Prices read from a photo can be wrong. Correct anything that was misread, then accept or reject each flagged row.
+        </p>
+      </div>
+
+      <ul className="max-h-96 overflow-y-auto space-y-2 pr-2">
+        {rows.map((row, index) => {
+          const review = reviews[index];
+          const decision = decisions[index];
+          const change = describeChange(review, slipItems[index].price);
+          return (
+            <li
+              key={index}
+              className={`p-3 rounded-lg bg-[#1E1E1E] border ${decision === 'rejected' ? 'border-gray-800 opacity-50' : decision === undefined ? 'border-amber-500/60' : 'border-gray-700'}`}
+            >
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={row.medicineName}
+                  onChange={(e) => handleEdit(index, { medicineName: e.target.value })}
+                  aria-label={`Medicine name on row ${index + 1}`}
+                  className="flex-1 min-w-0 px-3 py-2 bg-[#2a2a2a] text-white text-sm border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={row.priceText}
+                    onChange={(e) => handleEdit(index, { priceText: e.target.value })}
+                    aria-label={`Price on row ${index + 1}`}
+                    className="w-28 px-3 py-2 bg-[#2a2a2a] text-white text-sm border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateRow(index, { decision: 'accepted' })}
+                    disabled={review.errors.length > 0}
+                    aria-pressed={decision === 'accepted'}
+                    className={`px-3 py-2 text-xs font-semibold rounded-full transition-all disabled:opacity-40 ${decision === 'accepted' ? 'bg-teal-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    Accept
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateRow(index, { decision: 'rejected' })}
+                    aria-pressed={decision === 'rejected'}
+                    className={`px-3 py-2 text-xs font-semibold rounded-full transition-all ${decision === 'rejected' ? 'bg-red-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+              <div className="mt-2 text-xs space-y-1">
+                {change && <p className={change.className}>{change.text}</p>}
+                {review.errors.map(message => <p key={message} className="text-red-400">{message}</p>)}
+                {review.warnings.map(message => <p key={message} className="text-amber-300">⚠ {message}</p>)}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm text-gray-400">
+          {undecidedCount > 0 ? `${undecidedCount} flagged row(s) need a decision.` : `${acceptedItems.length} of ${rows.length} row(s) will be saved.`}
+        </p>
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onCancel} className="px-4 py-2 text-gray-300 text-sm font-semibold rounded-full hover:bg-gray-700 transition-all">
+            Discard
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || undecidedCount > 0 || acceptedItems.length === 0}
+            className="px-4 py-2 bg-teal-500 text-white text-sm font-bold rounded-full hover:bg-teal-400 transition-all disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : `Save ${acceptedItems.length} Item(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
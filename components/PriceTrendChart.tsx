@@ -0,0 +1,64 @@
+import React from 'react';
+import type { PricePoint } from '../types';
+
+interface PriceTrendChartProps {
+  points: PricePoint[];
+  /** Drawn as a dashed reference line, e.g. the area median. */
+  referencePrice?: number;
+  /** The end of the time axis; the last price is extended up to it. */
+  now?: number;
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const PADDING = 6;
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+export const PriceTrendChart: React.FC<PriceTrendChartProps> = ({ points, referencePrice, now = Date.now() }) => {
+  if (points.length === 0) {
+    return <p className="text-xs text-gray-500">No price history yet.</p>;
+  }
+
+  const start = points[0].changedAt;
+  const end = Math.max(now, points[points.length - 1].changedAt);
+  const prices = points.map(p => p.price).concat(referencePrice !== undefined ? [referencePrice] : []);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+
+  const x = (time: number) => end === start ? WIDTH - PADDING : PADDING + ((time - start) / (end - start)) * (WIDTH - 2 * PADDING);
+  const y = (price: number) => maxPrice === minPrice ? HEIGHT / 2 : PADDING + ((maxPrice - price) / (maxPrice - minPrice)) * (HEIGHT - 2 * PADDING);
+
+  // Prices hold until the next change, so draw a step line.
+  const path = points
+    .map((point, i) => {
+      const nextTime = i + 1 < points.length ? points[i + 1].changedAt : end;
+      return `${i === 0 ? 'M' : 'L'}${x(point.changedAt)},${y(point.price)} L${x(nextTime)},${y(point.price)}`;
+    })
+    .join(' ');
+
+  const first = points[0].price;
+  const last = points[points.length - 1].price;
+  const change = last - first;
+
+  return (
+    <figure>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-20" role="img" aria-label={`Price went from ₹${first.toFixed(2)} to ₹${last.toFixed(2)}`}>
+        {referencePrice !== undefined && (
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={y(referencePrice)} y2={y(referencePrice)} stroke="#6b7280" strokeDasharray="4 4" strokeWidth="1" />
+        )}
+        <path d={path} fill="none" stroke="#2dd4bf" strokeWidth="2" />
+        {points.map(point => (
+          <circle key={point.changedAt} cx={x(point.changedAt)} cy={y(point.price)} r="3" fill="#2dd4bf" />
+        ))}
+      </svg>
+      <figcaption className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{formatDate(start)}</span>
+        <span className={change > 0 ? 'text-red-400' : change < 0 ? 'text-green-400' : ''}>
+          {points.length === 1 ? 'No changes' : change === 0 ? 'Unchanged' : `${change > 0 ? '+' : '−'}₹${Math.abs(change).toFixed(2)} since ${formatDate(start)}`}
+        </span>
+        <span>Today</span>
+      </figcaption>
+    </figure>
+  );
+};
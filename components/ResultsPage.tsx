@@ -1,7 +1,8 @@
 
 import React from 'react';
-import type { Pharmacy, SortKey, SearchConfirmation } from '../types';
+import type { Pharmacy, SortKey, SearchConfirmation, BestOptionWeights } from '../types';
 import { PharmacyCard } from './PharmacyCard';
+import { BestOptionPreferences } from './BestOptionPreferences';
 import { PillIcon } from './icons';
 
 interface ResultsPageProps {
@@ -16,8 +17,20 @@ interface ResultsPageProps {
   searchConfirmation: SearchConfirmation | null;
   searchedMedicine: string;
   medicineDescription: string;
+  radiusKm: number;
+  onRadiusChange: (radiusKm: number) => void;
+  openNowOnly: boolean;
+  onOpenNowChange: (openNow: boolean) => void;
+  bestOptionWeights: BestOptionWeights;
+  onBestOptionWeightsChange: (weights: BestOptionWeights) => void;
+  totalResults: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
 }
 
+const RADIUS_OPTIONS_KM = [2, 5, 10, 25, 50];
+
 const SortButton: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => {
   return (
     <button
@@ -74,7 +87,17 @@ export const ResultsPage: React.FC<ResultsPageProps> = ({
   onMedicineSelect,
   searchConfirmation,
   searchedMedicine,
-  medicineDescription
+  medicineDescription,
+  radiusKm,
+  onRadiusChange,
+  openNowOnly,
+  onOpenNowChange,
+  bestOptionWeights,
+  onBestOptionWeightsChange,
+  totalResults,
+  hasMore,
+  isLoadingMore,
+  onLoadMore
 }) => {
   
   const loadingContent = (
@@ -99,6 +122,15 @@ export const ResultsPage: React.FC<ResultsPageProps> = ({
                     Yes, search for "{searchConfirmation.suggestion}"
                 </button>
             )}
+            {searchConfirmation?.alternatives?.map(alternative => (
+                <button 
+                    key={alternative}
+                    onClick={() => onMedicineSelect(alternative)}
+                    className="px-6 py-3 bg-[#1E1E1E] border border-teal-500/50 text-teal-300 font-semibold rounded-full hover:bg-teal-500/20 transition-colors"
+                >
+                    {alternative}
+                </button>
+            ))}
             {searchConfirmation?.original && (
                 <button 
                     onClick={() => onMedicineSelect(searchConfirmation.original)}
@@ -152,13 +184,48 @@ export const ResultsPage: React.FC<ResultsPageProps> = ({
       {pharmacies.map(p => (
         <PharmacyCard key={p.id} pharmacy={p} onClick={() => onSelectPharmacy(p)} />
       ))}
+      <div className="flex flex-col items-center gap-3 pt-4">
+        <p className="text-sm text-gray-500">Showing {pharmacies.length} of {totalResults} pharmacies</p>
+        {hasMore && (
+          <button
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            className="px-8 py-3 bg-[#1E1E1E] border border-gray-700 text-white font-bold rounded-full hover:bg-gray-700 transition-all disabled:opacity-50"
+          >
+            {isLoadingMore ? 'Loading...' : 'Load More'}
+          </button>
+        )}
+      </div>
     </div>
   );
 
   const noResultsContent = (
-     <p className="text-center text-gray-400 py-10">{statusText || 'No pharmacies found with this medicine in stock.'}</p>
+     <p className="text-center text-gray-400 py-10">
+       {statusText || (searchedMedicine
+         ? openNowOnly
+           ? `No pharmacies open right now within ${radiusKm} km have this medicine in stock. Try a larger search radius or include closed pharmacies.`
+           : `No pharmacies within ${radiusKm} km have this medicine in stock. Try a larger search radius.`
+         : 'No pharmacies found with this medicine in stock.')}
+     </p>
   );
 
+  const radiusControl = (
+    <label className="flex items-center gap-2 text-sm text-gray-300">
+      <span className="font-semibold">Within</span>
+      <select
+        value={radiusKm}
+        onChange={(e) => onRadiusChange(Number(e.target.value))}
+        className="bg-[#2a2a2a] text-white border border-gray-600 rounded-full px-3 py-2 focus:ring-2 focus:ring-teal-400"
+      >
+        {RADIUS_OPTIONS_KM.map(km => (
+          <option key={km} value={km}>{km} km</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const showRadiusControl = !isLoading && !!searchedMedicine && !searchConfirmation && medicineChoices.length === 0;
+
   const renderMainContent = () => {
     if (isLoading) return loadingContent;
     if (searchConfirmation) return confirmationContent;
@@ -171,15 +238,20 @@ export const ResultsPage: React.FC<ResultsPageProps> = ({
   return (
     <div className="container mx-auto">
       {!isLoading && pharmacies.length > 0 && (
-        <>
         <MedicineInfoCard medicineName={searchedMedicine} description={medicineDescription} />
+      )}
+      {showRadiusControl && (
         <div className="flex flex-col md:flex-row justify-center md:justify-start items-center mb-6 gap-4">
-          <div className="flex items-center space-x-2">
-            <SortButton active={sortBy === 'distance'} onClick={() => onSortChange('distance')}>Distance</SortButton>
-            <SortButton active={sortBy === 'price'} onClick={() => onSortChange('price')}>Price</SortButton>
-          </div>
+          {pharmacies.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <SortButton active={sortBy === 'distance'} onClick={() => onSortChange('distance')}>Distance</SortButton>
+              <SortButton active={sortBy === 'price'} onClick={() => onSortChange('price')}>Price</SortButton>
+            </div>
+          )}
+          {radiusControl}
+          <SortButton active={openNowOnly} onClick={() => onOpenNowChange(!openNowOnly)}>Open now</SortButton>
+          <BestOptionPreferences weights={bestOptionWeights} onChange={onBestOptionWeightsChange} />
         </div>
-        </>
       )}
       {renderMainContent()}
     </div>
@@ -2,6 +2,15 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { setPharmacyRepository } from './services/pharmacyService';
+import { createPharmacyRepository } from './services/pharmacyRepository';
+import { setStockConfirmationThreshold } from './services/stockFreshness';
+
+setPharmacyRepository(createPharmacyRepository({
+  backend: process.env.STORAGE_BACKEND,
+  apiUrl: process.env.PHARMACY_API_URL,
+}));
+setStockConfirmationThreshold(process.env.STOCK_UNCONFIRMED_AFTER_DAYS);
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
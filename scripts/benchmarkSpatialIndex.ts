@@ -0,0 +1,82 @@
+// Benchmarks the grid spatial index against the brute-force scan it replaced,
+// over a synthetic city-scale dataset, and checks that both return the same pharmacies.
+//
+// Usage: npm run bench:spatial [-- --count 50000 --queries 500]
+
+import { createSpatialIndex, haversineDistance } from '../services/spatialIndex';
+import type { GeoPoint } from '../services/spatialIndex';
+
+interface SyntheticPharmacy extends GeoPoint {
+    id: number;
+}
+
+const readArg = (flag: string, fallback: number) => {
+    const index = process.argv.indexOf(flag);
+    return index > -1 ? parseInt(process.argv[index + 1], 10) : fallback;
+};
+
+const PHARMACY_COUNT = readArg('--count', 50000);
+const QUERY_COUNT = readArg('--queries', 500);
+const RADIUS_KM = 5;
+const K = 15;
+
+// Greater Bangalore, roughly 40 x 40 km.
+const BOUNDS = { minLat: 12.80, maxLat: 13.15, minLon: 77.45, maxLon: 77.80 };
+
+// Small deterministic PRNG (mulberry32) so runs are comparable.
+const createRandom = (seed: number) => () => {
+    seed |= 0;
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+const random = createRandom(42);
+
+const randomPoint = (): GeoPoint => ({
+    lat: BOUNDS.minLat + random() * (BOUNDS.maxLat - BOUNDS.minLat),
+    lon: BOUNDS.minLon + random() * (BOUNDS.maxLon - BOUNDS.minLon),
+});
+
+const pharmacies: SyntheticPharmacy[] = Array.from({ length: PHARMACY_COUNT }, (_, i) => ({ id: i + 1, ...randomPoint() }));
+const queries: GeoPoint[] = Array.from({ length: QUERY_COUNT }, randomPoint);
+
+const bruteForceRadius = (center: GeoPoint) => pharmacies
+    .map(item => ({ item, distanceKm: haversineDistance(center, item) }))
+    .filter(m => m.distanceKm <= RADIUS_KM)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+
+const bruteForceNearest = (center: GeoPoint) => pharmacies
+    .map(item => ({ item, distanceKm: haversineDistance(center, item) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, K);
+
+const time = <T>(label: string, fn: () => T): T => {
+    const start = performance.now();
+    const result = fn();
+    const elapsed = performance.now() - start;
+    console.log(`${label.padEnd(36)} ${elapsed.toFixed(1).padStart(9)} ms total, ${(elapsed / QUERY_COUNT).toFixed(3).padStart(7)} ms/query`);
+    return result;
+};
+
+const sameIds = (a: { item: SyntheticPharmacy }[], b: { item: SyntheticPharmacy }[]) =>
+    a.length === b.length && a.every((m, i) => m.item.id === b[i].item.id);
+
+console.log(`${PHARMACY_COUNT} pharmacies, ${QUERY_COUNT} queries, radius ${RADIUS_KM} km, k = ${K}\n`);
+
+const buildStart = performance.now();
+const index = createSpatialIndex(pharmacies);
+console.log(`Index build: ${(performance.now() - buildStart).toFixed(1)} ms\n`);
+
+const bruteRadius = time('Brute force, radius', () => queries.map(bruteForceRadius));
+const indexRadius = time('Spatial index, radius', () => queries.map(q => index.withinRadius(q, RADIUS_KM)));
+const bruteNearest = time('Brute force, k-nearest', () => queries.map(bruteForceNearest));
+const indexNearest = time('Spatial index, k-nearest', () => queries.map(q => index.nearest(q, K)));
+
+const radiusMismatches = queries.filter((_, i) => !sameIds(bruteRadius[i], indexRadius[i])).length;
+const nearestMismatches = queries.filter((_, i) => !sameIds(bruteNearest[i], indexNearest[i])).length;
+console.log(`\nResult mismatches: radius ${radiusMismatches}, k-nearest ${nearestMismatches}`);
+
+if (radiusMismatches > 0 || nearestMismatches > 0) {
+    process.exitCode = 1;
+}
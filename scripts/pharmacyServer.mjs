@@ -0,0 +1,106 @@
+// A minimal stand-in for the shared pharmacy database server.
+// It implements just enough of the HTTP contract used by `createHttpRepository`
+// to run the app with STORAGE_BACKEND=http on a development machine:
+//
+//   GET  /api/database  -> 200 with the stored JSON document, or 404 if empty
+//   PUT  /api/database  -> stores the request body (must be valid JSON)
+//
+// The ETag of the stored document is its quoted `revision` ("" if it has none or nothing is
+// stored). A PUT whose If-Match header doesn't match it is refused with 412, so a client
+// never overwrites changes it hasn't seen.
+//
+// Usage: node scripts/pharmacyServer.mjs [--port 4000] [--file ./pharmacy-db.json]
+// Without --file the data only lives in memory until the process exits.
+
+import http from 'node:http';
+import fs from 'node:fs';
+
+const readArg = (flag, fallback) => {
+    const index = process.argv.indexOf(flag);
+    return index > -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+};
+
+const port = parseInt(readArg('--port', process.env.PORT || '4000'), 10);
+const dataFile = readArg('--file', null);
+
+const readRevision = (json) => {
+    const { revision } = JSON.parse(json);
+    return typeof revision === 'string' ? revision : '';
+};
+
+let document = null;
+let entityTag = '""';
+if (dataFile && fs.existsSync(dataFile)) {
+    document = fs.readFileSync(dataFile, 'utf8');
+    entityTag = JSON.stringify(readRevision(document));
+}
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const send = (res, status, body = '') => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'ETag': entityTag,
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Accept, If-Match',
+        'Access-Control-Expose-Headers': 'ETag',
+    });
+    res.end(body);
+};
+
+const server = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+
+    if (req.method === 'OPTIONS') {
+        return send(res, 204);
+    }
+    if (pathname !== '/api/database') {
+        return send(res, 404, JSON.stringify({ error: 'Not found' }));
+    }
+
+    if (req.method === 'GET') {
+        return document === null ? send(res, 404, JSON.stringify({ error: 'Database is empty' })) : send(res, 200, document);
+    }
+
+    if (req.method === 'PUT') {
+        const chunks = [];
+        let size = 0;
+        req.on('data', chunk => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                send(res, 413, JSON.stringify({ error: 'Payload too large' }));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            const body = Buffer.concat(chunks).toString('utf8');
+            let revision;
+            try {
+                revision = readRevision(body);
+            } catch {
+                return send(res, 400, JSON.stringify({ error: 'Body must be valid JSON' }));
+            }
+            const ifMatch = req.headers['if-match'];
+            if (ifMatch !== undefined && ifMatch !== entityTag) {
+                return send(res, 412, JSON.stringify({ error: 'The database was changed since it was read' }));
+            }
+            document = body;
+            entityTag = JSON.stringify(revision);
+            if (dataFile) {
+                fs.writeFileSync(dataFile, body);
+            }
+            send(res, 204);
+        });
+        return;
+    }
+
+    send(res, 405, JSON.stringify({ error: 'Method not allowed' }));
+});
+
+// With --port 0 a free port is picked; the message shows which.
+server.listen(port, () => {
+    console.log(`Pharmacy stand-in server listening on http://localhost:${server.address().port}/api`);
+});
@@ -0,0 +1,178 @@
+import type { Pharmacy, BestOptionWeights, ScoreBreakdown, ScoreComponent, ScoreFactor } from '../types';
+import { describeConfirmationAge } from './stockFreshness';
+import { formatUnitPrice } from './unitPricing';
+
+// --- "Best Option" scoring ---
+// Every in-stock pharmacy in a search is scored on a set of factors, each rated from
+// 0 (worst) to 1 (best). The user's weights decide how much each factor counts, and the
+// highest weighted score is the "Best Option". The per-factor ratings are kept on each
+// result so the UI can explain the choice. To add a factor, add it to ScoreFactor in
+// types.ts and give it an entry in SCORING_FACTORS.
+
+export type ScoringCandidate = Pick<Pharmacy, 'price' | 'unitPrice' | 'unitLabel' | 'distance' | 'lastConfirmedAt' | 'isOpenNow'>;
+
+interface ScoringContext {
+    cheapestPrice: number;
+    /** The cheapest unit price for each unit that at least two candidates are priced in. */
+    cheapestUnitPrices: Map<string, number>;
+    nearestDistance: number;
+    now: number;
+}
+
+interface ScoringFactor {
+    label: string;
+    evaluate(candidate: ScoringCandidate, context: ScoringContext): { value: number; detail: string };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stock data loses half of its freshness rating every week it goes without an update.
+const FRESHNESS_HALF_LIFE_DAYS = 7;
+// Rating for a factor we have no data on, so it neither helps nor hurts a pharmacy.
+const UNKNOWN_VALUE = 0.5;
+
+const SCORING_FACTORS: Record<ScoreFactor, ScoringFactor> = {
+    price: {
+        label: 'Price',
+        // Packs of different sizes are compared per tablet, ml or g when the other candidates
+        // are priced in the same unit, so a bigger pack isn't marked down for costing more.
+        evaluate: ({ price, unitPrice, unitLabel }, { cheapestPrice, cheapestUnitPrices }) => {
+            const cheapestUnitPrice = unitLabel !== undefined ? cheapestUnitPrices.get(unitLabel) : undefined;
+            if (unitPrice !== undefined && unitLabel !== undefined && cheapestUnitPrice !== undefined) {
+                if (unitPrice <= cheapestUnitPrice) {
+                    return { value: 1, detail: `${formatUnitPrice(unitPrice, unitLabel)}, the cheapest nearby` };
+                }
+                return { value: cheapestUnitPrice / unitPrice, detail: `${formatUnitPrice(unitPrice - cheapestUnitPrice, unitLabel)} more than the cheapest` };
+            }
+            if (price <= cheapestPrice) {
+                return { value: 1, detail: `₹${price.toFixed(2)}, the cheapest nearby` };
+            }
+            return { value: cheapestPrice / price, detail: `₹${(price - cheapestPrice).toFixed(2)} more than the cheapest` };
+        },
+    },
+    distance: {
+        label: 'Distance',
+        evaluate: ({ distance }, { nearestDistance }) => {
+            // The extra kilometre keeps a 0.1 km vs 0.3 km difference from looking like a 3x one.
+            const value = (nearestDistance + 1) / (distance + 1);
+            return { value, detail: distance <= nearestDistance ? `${distance} km, the nearest` : `${distance} km away` };
+        },
+    },
+    freshness: {
+        label: 'Up-to-date stock',
+        evaluate: ({ lastConfirmedAt }, { now }) => {
+            const detail = describeConfirmationAge(lastConfirmedAt, now);
+            if (lastConfirmedAt === undefined) {
+                return { value: UNKNOWN_VALUE, detail };
+            }
+            const ageDays = Math.max(0, (now - lastConfirmedAt) / DAY_MS);
+            return { value: Math.pow(0.5, ageDays / FRESHNESS_HALF_LIFE_DAYS), detail };
+        },
+    },
+    openNow: {
+        label: 'Open now',
+        evaluate: ({ isOpenNow }) => {
+            if (isOpenNow === undefined) {
+                return { value: UNKNOWN_VALUE, detail: 'Opening hours not known' };
+            }
+            return isOpenNow ? { value: 1, detail: 'Open now' } : { value: 0, detail: 'Closed now' };
+        },
+    },
+};
+
+export const SCORE_FACTORS = Object.keys(SCORING_FACTORS) as ScoreFactor[];
+
+export const getScoreFactorLabel = (factor: ScoreFactor) => SCORING_FACTORS[factor].label;
+
+export const DEFAULT_BEST_OPTION_WEIGHTS: BestOptionWeights = {
+    price: 2,
+    distance: 2,
+    freshness: 1,
+    openNow: 1,
+};
+
+export const MAX_FACTOR_WEIGHT = 3;
+
+/**
+ * Scores a set of candidates against each other.
+ * Price and distance are rated relative to the best candidate, so scores are only comparable within one search.
+ * Prices are compared per unit between candidates whose unit price is known in the same unit.
+ * @param candidates The in-stock pharmacies to compare.
+ * @param weights How much each factor counts.
+ * @param now The time to measure the age of stock data against.
+ * @returns One breakdown per candidate, in the same order.
+ */
+export const scoreCandidates = (candidates: ScoringCandidate[], weights: BestOptionWeights, now = Date.now()): ScoreBreakdown[] => {
+    if (candidates.length === 0) return [];
+    const unitPrices = new Map<string, number[]>();
+    candidates.forEach(({ unitPrice, unitLabel }) => {
+        if (unitPrice !== undefined && unitLabel !== undefined) {
+            unitPrices.set(unitLabel, [...(unitPrices.get(unitLabel) || []), unitPrice]);
+        }
+    });
+    const context: ScoringContext = {
+        cheapestPrice: Math.min(...candidates.map(c => c.price)),
+        cheapestUnitPrices: new Map(Array.from(unitPrices.entries())
+            .filter(([, prices]) => prices.length > 1)
+            .map(([unitLabel, prices]) => [unitLabel, Math.min(...prices)])),
+        nearestDistance: Math.min(...candidates.map(c => c.distance)),
+        now,
+    };
+    const totalWeight = SCORE_FACTORS.reduce((sum, factor) => sum + Math.max(0, weights[factor] || 0), 0);
+
+    return candidates.map(candidate => {
+        const components: ScoreComponent[] = SCORE_FACTORS.map(factor => {
+            const { value, detail } = SCORING_FACTORS[factor].evaluate(candidate, context);
+            return {
+                factor,
+                label: SCORING_FACTORS[factor].label,
+                weight: Math.max(0, weights[factor] || 0),
+                value: parseFloat(value.toFixed(3)),
+                detail,
+            };
+        });
+        const weighted = components.reduce((sum, c) => sum + c.weight * c.value, 0);
+        return {
+            total: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0,
+            components,
+        };
+    });
+};
+
+/**
+ * Picks the factors that did most for a pharmacy's score, for a one-line explanation.
+ * @param breakdown The pharmacy's score breakdown.
+ * @param limit The maximum number of reasons.
+ * @returns The details of the strongest weighted factors, strongest first.
+ */
+export const getTopReasons = (breakdown: ScoreBreakdown, limit = 2): string[] =>
+    breakdown.components
+        .filter(c => c.weight > 0 && c.value > UNKNOWN_VALUE)
+        .sort((a, b) => b.weight * b.value - a.weight * a.value)
+        .slice(0, limit)
+        .map(c => c.detail);
+
+const WEIGHTS_STORAGE_KEY = 'bestOptionWeights';
+
+/**
+ * Loads the user's saved weights, falling back to the defaults for anything missing or invalid.
+ */
+export const loadBestOptionWeights = (): BestOptionWeights => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(WEIGHTS_STORAGE_KEY) || '{}');
+        const weights = { ...DEFAULT_BEST_OPTION_WEIGHTS };
+        SCORE_FACTORS.forEach(factor => {
+            const value = stored[factor];
+            if (typeof value === 'number' && value >= 0 && value <= MAX_FACTOR_WEIGHT) {
+                weights[factor] = value;
+            }
+        });
+        return weights;
+    } catch (error) {
+        console.error("Failed to load Best Option preferences", error);
+        return { ...DEFAULT_BEST_OPTION_WEIGHTS };
+    }
+};
+
+export const saveBestOptionWeights = (weights: BestOptionWeights) => {
+    localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+};
@@ -0,0 +1,370 @@
+import type { InventoryItem, PharmacyId, PharmacyOwner } from '../types';
+import { exportDatabase, replaceDatabase } from './pharmacyService';
+import { createEmptyDatabase, migrateDatabase } from './databaseSchema';
+import type { AppDatabase, AuditLog, GlobalInventory, PriceHistory } from './databaseSchema';
+import { trimAuditLog } from './inventoryAudit';
+import { LEGACY_INVENTORY_KEY_PREFIX, findLegacyInventoryPharmacyIds } from './inventoryReconciliation';
+import { toPharmacyId } from './pharmacyIds';
+
+// --- Backups of everything the app keeps in this browser ---
+// Clearing site data would otherwise lose every owner's inventory. A backup is one JSON file
+// holding the pharmacy database, the owners saved on this device and any legacy per-owner
+// inventories. Restoring either merges it into what is here or replaces it outright; either
+// way the file is validated and the changes previewed before anything is written.
+
+export const ALL_OWNERS_KEY = 'pharmacyOwnersList';
+export const ACTIVE_OWNER_ID_KEY = 'activePharmacyOwnerId';
+
+const BACKUP_FORMAT = 'medifinder-backup';
+// Bump when the file layout changes, and keep reading older versions in parseBackup.
+export const BACKUP_FORMAT_VERSION = 1;
+
+type SavedOwner = PharmacyOwner & { id: PharmacyId };
+
+export interface DatabaseBackup {
+    format: typeof BACKUP_FORMAT;
+    formatVersion: number;
+    /** When the backup was made, as a Unix timestamp in milliseconds. */
+    exportedAt: number;
+    database: AppDatabase;
+    /** The owners saved on the device the backup was made on. */
+    pharmacyOwners: SavedOwner[];
+    /** Legacy per-owner inventories (see inventoryReconciliation.ts), keyed by pharmacy ID. */
+    legacyInventories: Record<PharmacyId, InventoryItem[]>;
+    /** Pharmacies whose legacy inventory couldn't be read when the backup was made, so it was left out. */
+    unreadableLegacyInventories?: PharmacyId[];
+}
+
+/** 'merge' keeps what is here and adds what the backup has on top; 'replace' discards what is here. */
+export type BackupImportMode = 'merge' | 'replace';
+
+export interface ChangeCounts {
+    added: number;
+    changed: number;
+    removed: number;
+}
+
+export interface BackupImportPreview {
+    mode: BackupImportMode;
+    pharmacies: ChangeCounts;
+    inventoryItems: ChangeCounts;
+    savedOwners: ChangeCounts;
+    legacyInventories: ChangeCounts;
+    /** Pharmacies whose legacy inventory on this device can't be read; it is left as it is. */
+    unreadableLegacyInventories: PharmacyId[];
+}
+
+interface LocalData {
+    database: AppDatabase;
+    pharmacyOwners: SavedOwner[];
+    legacyInventories: Record<PharmacyId, InventoryItem[]>;
+}
+
+interface LegacyInventories {
+    inventories: Record<PharmacyId, InventoryItem[]>;
+    unreadable: PharmacyId[];
+}
+
+const readSavedOwners = (): SavedOwner[] => {
+    const stored = localStorage.getItem(ALL_OWNERS_KEY);
+    const owners: (PharmacyOwner & { id: PharmacyId | number })[] = stored ? JSON.parse(stored) : [];
+    return owners.map(owner => ({ ...owner, id: toPharmacyId(owner.id) }));
+};
+
+// Unreadable copies are kept on the device for the owner to recover (see inventoryReconciliation.ts),
+// so they are skipped here rather than stopping backups of everything else.
+const readLegacyInventories = (): LegacyInventories => {
+    const result: LegacyInventories = { inventories: {}, unreadable: [] };
+    findLegacyInventoryPharmacyIds().forEach(pharmacyId => {
+        let items: unknown;
+        try {
+            items = JSON.parse(localStorage.getItem(`${LEGACY_INVENTORY_KEY_PREFIX}${pharmacyId}`) || '[]');
+        } catch (error) {
+            console.error(`Could not read legacy inventory for pharmacy ${pharmacyId}`, error);
+        }
+        if (Array.isArray(items)) {
+            result.inventories[pharmacyId] = items;
+        } else {
+            result.unreadable.push(pharmacyId);
+        }
+    });
+    return result;
+};
+
+/**
+ * Collects everything the app stores for pharmacies into a backup.
+ * @returns A promise that resolves to the backup, ready to be saved as JSON. Legacy inventories
+ *   that can't be read are left out and listed in `unreadableLegacyInventories`.
+ * @throws If the stored database cannot be read.
+ */
+export const createBackup = async (): Promise<DatabaseBackup> => {
+    const database = await exportDatabase();
+    const { inventories, unreadable } = readLegacyInventories();
+    return {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        exportedAt: Date.now(),
+        database,
+        pharmacyOwners: readSavedOwners(),
+        legacyInventories: inventories,
+        ...(unreadable.length > 0 ? { unreadableLegacyInventories: unreadable } : {}),
+    };
+};
+
+/**
+ * Suggests a file name for a backup, e.g. "medifinder-backup-2024-05-01.json".
+ */
+export const getBackupFileName = (backup: DatabaseBackup): string => {
+    const date = new Date(backup.exportedAt);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${BACKUP_FORMAT}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.json`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Checks each collection's shape before looking inside it, so a damaged file gets a message rather than a TypeError.
+const validateDatabase = (db: AppDatabase) => {
+    if (!Array.isArray(db.dynamicPharmacies)) {
+        throw new Error('The pharmacies in the backup are not a list.');
+    }
+    ([['inventory', db.globalInventory], ['price history', db.priceHistory], ['inventory history', db.auditLog]] as const).forEach(([label, collection]) => {
+        if (!isObject(collection)) {
+            throw new Error(`The ${label} in the backup is missing or not valid.`);
+        }
+    });
+    db.dynamicPharmacies.forEach((pharmacy, index) => {
+        if (!isObject(pharmacy) || !isText(pharmacy.id) || !isText(pharmacy.name) || !Number.isFinite(pharmacy.lat) || !Number.isFinite(pharmacy.lon)) {
+            throw new Error(`Pharmacy ${index + 1} in the backup is missing its ID, name or location.`);
+        }
+    });
+    Object.entries(db.globalInventory).forEach(([canonicalId, entries]) => {
+        if (!Array.isArray(entries)) {
+            throw new Error(`The inventory for "${canonicalId}" in the backup is not a list.`);
+        }
+        entries.forEach(entry => {
+            if (!isObject(entry) || !isText(entry.pharmacyId) || !isText(entry.medicineName) || !isPrice(entry.price)) {
+                throw new Error(`An inventory item for "${canonicalId}" in the backup is missing its pharmacy, name or price.`);
+            }
+        });
+    });
+    Object.entries(db.priceHistory).forEach(([canonicalId, points]) => {
+        if (!Array.isArray(points) || points.some(point => !isObject(point) || !isText(point.pharmacyId) || !isPrice(point.price) || typeof point.changedAt !== 'number')) {
+            throw new Error(`The price history for "${canonicalId}" in the backup is not valid.`);
+        }
+    });
+    Object.entries(db.auditLog).forEach(([pharmacyId, entries]) => {
+        if (!Array.isArray(entries) || entries.some(entry => !isObject(entry) || !isText(entry.id) || !isText(entry.canonicalId) || typeof entry.changedAt !== 'number')) {
+            throw new Error(`The inventory history of pharmacy ${pharmacyId} in the backup is not valid.`);
+        }
+    });
+};
+
+/**
+ * Reads and validates a backup file.
+ * @param text The contents of the file.
+ * @returns The backup, with its database upgraded to the current schema.
+ * @throws An error describing the first problem found, if the file is not a usable backup.
+ */
+export const parseBackup = (text: string): DatabaseBackup => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not a backup: it could not be read as JSON.');
+    }
+    if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+        throw new Error('This file is not a MediFinder backup.');
+    }
+    if (typeof raw.formatVersion !== 'number' || raw.formatVersion > BACKUP_FORMAT_VERSION) {
+        throw new Error('This backup was made by a newer version of the app. Please update the app and try again.');
+    }
+
+    let database: AppDatabase;
+    try {
+        database = migrateDatabase(raw.database);
+    } catch (error) {
+        throw new Error(`The database in this backup can't be used. ${error instanceof Error ? error.message : ''}`.trim());
+    }
+    validateDatabase(database);
+
+    if (!Array.isArray(raw.pharmacyOwners)) {
+        throw new Error('The saved owners in the backup are not a list.');
+    }
+    const pharmacyOwners: SavedOwner[] = raw.pharmacyOwners.map((owner: unknown, index: number) => {
+        if (!isObject(owner) || !isText(owner.name) || (typeof owner.id !== 'string' && typeof owner.id !== 'number')) {
+            throw new Error(`Saved owner ${index + 1} in the backup is missing its name or pharmacy ID.`);
+        }
+        return { name: owner.name, phone: String(owner.phone ?? ''), address: String(owner.address ?? ''), id: toPharmacyId(owner.id) };
+    });
+
+    const legacyInventories: Record<PharmacyId, InventoryItem[]> = {};
+    // These are written back to the device as they are, so they are checked like the database's inventory.
+    Object.entries(isObject(raw.legacyInventories) ? raw.legacyInventories : {}).forEach(([pharmacyId, items]) => {
+        if (!Array.isArray(items)) {
+            throw new Error(`The legacy inventory of pharmacy ${pharmacyId} in the backup is not a list.`);
+        }
+        items.forEach((item: unknown) => {
+            if (!isObject(item) || !isText(item.medicineName) || !isPrice(item.price)) {
+                throw new Error(`An item in the legacy inventory of pharmacy ${pharmacyId} in the backup is missing its name or price.`);
+            }
+        });
+        legacyInventories[toPharmacyId(pharmacyId)] = items;
+    });
+
+    return {
+        format: BACKUP_FORMAT,
+        formatVersion: raw.formatVersion,
+        exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+        database,
+        pharmacyOwners,
+        legacyInventories,
+    };
+};
+
+const readLocalData = async (mode: BackupImportMode): Promise<LocalData & { unreadableLegacyInventories: PharmacyId[] }> => {
+    let database: AppDatabase;
+    try {
+        database = await exportDatabase();
+    } catch (error) {
+        // Replacing is how an unreadable database gets restored, so only merging needs it.
+        if (mode === 'merge') {
+            throw new Error(`The backup can't be merged because the current data can't be read. Replace it instead. (${error instanceof Error ? error.message : error})`);
+        }
+        database = createEmptyDatabase();
+    }
+    const { inventories, unreadable } = readLegacyInventories();
+    return { database, pharmacyOwners: readSavedOwners(), legacyInventories: inventories, unreadableLegacyInventories: unreadable };
+};
+
+const mergeInventories = (current: GlobalInventory, incoming: GlobalInventory): GlobalInventory => {
+    const merged: GlobalInventory = { ...current };
+    Object.entries(incoming).forEach(([canonicalId, entries]) => {
+        const mergedEntries = [...(merged[canonicalId] || [])];
+        entries.forEach(entry => {
+            const index = mergedEntries.findIndex(e => e.pharmacyId === entry.pharmacyId);
+            if (index === -1) {
+                mergedEntries.push(entry);
+            } else if ((entry.updatedAt ?? 0) > (mergedEntries[index].updatedAt ?? 0)) {
+                // The more recently saved entry wins, wherever it was saved.
+                mergedEntries[index] = entry;
+            }
+        });
+        merged[canonicalId] = mergedEntries;
+    });
+    return merged;
+};
+
+const mergePriceHistories = (current: PriceHistory, incoming: PriceHistory): PriceHistory => {
+    const merged: PriceHistory = { ...current };
+    Object.entries(incoming).forEach(([canonicalId, points]) => {
+        const existing = merged[canonicalId] || [];
+        const seen = new Set(existing.map(point => `${point.pharmacyId}:${point.changedAt}:${point.price}`));
+        const added = points.filter(point => !seen.has(`${point.pharmacyId}:${point.changedAt}:${point.price}`));
+        merged[canonicalId] = [...existing, ...added].sort((a, b) => a.changedAt - b.changedAt);
+    });
+    return merged;
+};
+
+const mergeAuditLogs = (current: AuditLog, incoming: AuditLog): AuditLog => {
+    const merged: AuditLog = { ...current };
+    Object.entries(incoming).forEach(([pharmacyId, entries]) => {
+        const existing = merged[pharmacyId] || [];
+        const seen = new Set(existing.map(entry => entry.id));
+        merged[pharmacyId] = trimAuditLog([...existing, ...entries.filter(entry => !seen.has(entry.id))].sort((a, b) => a.changedAt - b.changedAt));
+    });
+    return merged;
+};
+
+// Works out what the local data will look like once the backup is applied.
+const combine = (local: LocalData, backup: DatabaseBackup, mode: BackupImportMode): LocalData => {
+    if (mode === 'replace') {
+        return { database: backup.database, pharmacyOwners: backup.pharmacyOwners, legacyInventories: backup.legacyInventories };
+    }
+    const pharmacyIds = new Set(local.database.dynamicPharmacies.map(p => p.id));
+    const ownerIds = new Set(local.pharmacyOwners.map(o => o.id));
+    return {
+        database: {
+            ...local.database,
+            // Pharmacy details already here are kept: they are what owners on this device last saved.
+            dynamicPharmacies: [...local.database.dynamicPharmacies, ...backup.database.dynamicPharmacies.filter(p => !pharmacyIds.has(p.id))],
+            globalInventory: mergeInventories(local.database.globalInventory, backup.database.globalInventory),
+            priceHistory: mergePriceHistories(local.database.priceHistory, backup.database.priceHistory),
+            auditLog: mergeAuditLogs(local.database.auditLog, backup.database.auditLog),
+        },
+        pharmacyOwners: [...local.pharmacyOwners, ...backup.pharmacyOwners.filter(o => !ownerIds.has(o.id))],
+        legacyInventories: { ...backup.legacyInventories, ...local.legacyInventories },
+    };
+};
+
+const countChanges = <T>(before: Map<string, T>, after: Map<string, T>): ChangeCounts => {
+    const counts: ChangeCounts = { added: 0, changed: 0, removed: 0 };
+    after.forEach((value, key) => {
+        if (!before.has(key)) counts.added++;
+        else if (JSON.stringify(before.get(key)) !== JSON.stringify(value)) counts.changed++;
+    });
+    before.forEach((_, key) => {
+        if (!after.has(key)) counts.removed++;
+    });
+    return counts;
+};
+
+const inventoryItemsByKey = (inventory: GlobalInventory) => new Map(
+    Object.entries(inventory).flatMap(([canonicalId, entries]) => entries.map(entry => [`${canonicalId}:${entry.pharmacyId}`, entry] as const))
+);
+
+/**
+ * Shows what restoring a backup would change, without changing anything.
+ * @param backup A backup from parseBackup.
+ * @param mode Whether to merge the backup into the current data or replace it.
+ * @returns A promise that resolves to the number of things added, changed and removed.
+ */
+export const previewBackupImport = async (backup: DatabaseBackup, mode: BackupImportMode): Promise<BackupImportPreview> => {
+    const local = await readLocalData(mode);
+    const result = combine(local, backup, mode);
+    return {
+        mode,
+        pharmacies: countChanges(
+            new Map(local.database.dynamicPharmacies.map(p => [p.id, p])),
+            new Map(result.database.dynamicPharmacies.map(p => [p.id, p]))
+        ),
+        inventoryItems: countChanges(inventoryItemsByKey(local.database.globalInventory), inventoryItemsByKey(result.database.globalInventory)),
+        savedOwners: countChanges(
+            new Map(local.pharmacyOwners.map(o => [o.id, o])),
+            new Map(result.pharmacyOwners.map(o => [o.id, o]))
+        ),
+        legacyInventories: countChanges(new Map(Object.entries(local.legacyInventories)), new Map(Object.entries(result.legacyInventories))),
+        unreadableLegacyInventories: local.unreadableLegacyInventories,
+    };
+};
+
+/**
+ * Restores a backup.
+ * @param backup A backup from parseBackup.
+ * @param mode Whether to merge the backup into the current data or replace it.
+ * @throws If the data could not be saved.
+ */
+export const applyBackup = async (backup: DatabaseBackup, mode: BackupImportMode) => {
+    const local = await readLocalData(mode);
+    const result = combine(local, backup, mode);
+
+    // A merge is refused if the database was saved elsewhere since it was read, as any other change would be.
+    await replaceDatabase(result.database, mode === 'merge' ? local.database.revision ?? null : undefined);
+
+    localStorage.setItem(ALL_OWNERS_KEY, JSON.stringify(result.pharmacyOwners));
+    const activeOwnerId = localStorage.getItem(ACTIVE_OWNER_ID_KEY);
+    if (activeOwnerId && !result.pharmacyOwners.some(o => o.id === activeOwnerId)) {
+        localStorage.removeItem(ACTIVE_OWNER_ID_KEY);
+    }
+
+    Object.keys(local.legacyInventories)
+        .filter(pharmacyId => !(pharmacyId in result.legacyInventories))
+        .forEach(pharmacyId => localStorage.removeItem(`${LEGACY_INVENTORY_KEY_PREFIX}${pharmacyId}`));
+    Object.entries(result.legacyInventories).forEach(([pharmacyId, items]) => {
+        localStorage.setItem(`${LEGACY_INVENTORY_KEY_PREFIX}${pharmacyId}`, JSON.stringify(items));
+    });
+};
@@ -0,0 +1,340 @@
+import { StockStatus } from '../types';
+import type { Pharmacy, PharmacyId, PricePoint, PackSize, PriceFlag } from '../types';
+import { getCanonicalMedicineIdV3 } from './medicineIdsV3';
+import { getCanonicalMedicineIdV8 } from './medicineIdsV8';
+
+// --- Persisted database schema ---
+// Every stored database carries a schemaVersion. When an older document is loaded,
+// the migrations below are applied in order until it reaches CURRENT_SCHEMA_VERSION.
+// To change the stored shape: bump CURRENT_SCHEMA_VERSION, update the types,
+// and append a migration that upgrades documents from the previous version.
+
+// Storing only the core, non-runtime properties of a pharmacy.
+export type BasePharmacy = Omit<Pharmacy, 'distance' | 'price' | 'priceUnit' | 'stock' | 'isBestOption' | 'alternative' | 'matchedMedicineName' | 'lastConfirmedAt' | 'quantity' | 'unitPrice' | 'unitLabel' | 'isOpenNow' | 'scoreBreakdown' | 'priceUnderReview'>;
+
+export interface GlobalInventoryEntry {
+    pharmacyId: PharmacyId;
+    /** The medicine name as the owner entered it, kept for display. */
+    medicineName: string;
+    price: number;
+    stock: StockStatus;
+    /** When the owner last saved this entry, as a Unix timestamp in milliseconds. Missing on older entries. */
+    updatedAt?: number;
+    /** When the owner last confirmed the price and stock, whether or not they changed. Missing if never confirmed. */
+    lastConfirmedAt?: number;
+    /** Strips on hand; missing when the owner does not track quantities for this item. */
+    quantity?: number;
+    reorderThreshold?: number;
+    /** What the price buys, as recorded by the owner. Missing if they haven't recorded one. */
+    packSize?: PackSize;
+    /** Set when the price looked wrong on entry; cleared when the owner confirms or changes it. */
+    priceFlag?: PriceFlag;
+}
+
+// Keyed by the canonical medicine ID from medicineCatalog.ts.
+export interface GlobalInventory {
+    [canonicalId: string]: GlobalInventoryEntry[];
+}
+
+export interface PriceHistoryEntry extends PricePoint {
+    pharmacyId: PharmacyId;
+    /** Set on a price that was flagged as looking wrong, until the owner confirms it; later prices aren't compared with it. */
+    flagged?: true;
+}
+
+// Every price each pharmacy has charged, oldest first. Keyed by canonical medicine ID like globalInventory,
+// and kept when an item is deleted from the inventory.
+export interface PriceHistory {
+    [canonicalId: string]: PriceHistoryEntry[];
+}
+
+// An inventory entry as it was before or after a change.
+export type InventorySnapshot = Omit<GlobalInventoryEntry, 'pharmacyId'>;
+
+export type InventoryChangeAction = 'added' | 'updated' | 'deleted' | 'undone' | 'restored';
+
+/** How a change was made: on the dashboard, or by one of the imports. */
+export type InventoryChangeSource = 'dashboard' | 'priceSlip' | 'spreadsheet' | 'billingSoftware' | 'reconciliation';
+
+export interface AuditLogEntry {
+    id: string;
+    action: InventoryChangeAction;
+    canonicalId: string;
+    /** The medicine name as the owner entered it. */
+    medicineName: string;
+    /** The entry before the change; null if the pharmacy didn't list the medicine. */
+    before: InventorySnapshot | null;
+    /** The entry after the change; null if it was deleted. */
+    after: InventorySnapshot | null;
+    /** When the change was made, as a Unix timestamp in milliseconds. */
+    changedAt: number;
+    /** The name of the owner signed in when the change was made. */
+    changedBy: string;
+    source: InventoryChangeSource;
+    /** For undone and restored changes, the entry whose `before` was put back. */
+    revertedEntryId?: string;
+    /** Shared by the changes saved together, e.g. every item of one import, which are undone together. */
+    batchId?: string;
+}
+
+// Every change to each pharmacy's inventory, oldest first. Entries are only ever appended.
+export interface AuditLog {
+    [pharmacyId: string]: AuditLogEntry[];
+}
+
+export interface AppDatabase {
+    schemaVersion: number;
+    /**
+     * Changes on every save, so a save based on an older copy of the document can be refused
+     * (see PharmacyRepository.save). Missing until the document is first saved with one.
+     */
+    revision?: string;
+    globalInventory: GlobalInventory;
+    dynamicPharmacies: BasePharmacy[];
+    priceHistory: PriceHistory;
+    auditLog: AuditLog;
+}
+
+export const CURRENT_SCHEMA_VERSION = 8;
+
+export const createEmptyDatabase = (): AppDatabase => ({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    globalInventory: {},
+    dynamicPharmacies: [],
+    priceHistory: {},
+    auditLog: {},
+});
+
+/**
+ * Maps stock values written by older versions of the app onto the current StockStatus enum.
+ * Early builds stored 'In Stock' / 'Out of Stock' instead of 'Available' / 'Unavailable'.
+ * @param value The stored stock value.
+ * @returns The equivalent StockStatus.
+ */
+export const normalizeLegacyStockStatus = (value: unknown): StockStatus => {
+    if (value === StockStatus.Unavailable || value === 'Out of Stock') {
+        return StockStatus.Unavailable;
+    }
+    return StockStatus.Available;
+};
+
+// A parsed document of any schema version, before it is migrated.
+type StoredDocument = { [field: string]: unknown };
+
+// What older documents look like, as far as the migrations below read them. Each migration
+// produces the next shape, so it can treat its input as the previous one.
+type StoredInventoryEntryV1 = Omit<GlobalInventoryEntry, 'pharmacyId' | 'medicineName'> & { pharmacyId: number | string; medicineName?: string };
+type StoredInventoryEntryV2 = StoredInventoryEntryV1 & { medicineName: string };
+type StoredPricePointV4 = PricePoint & { pharmacyId: number | string };
+type StoredDocumentV1 = {
+    globalInventory: { [medicineKey: string]: StoredInventoryEntryV1[] };
+    dynamicPharmacies: (Omit<BasePharmacy, 'id'> & { id: number | string })[];
+};
+type StoredDocumentV2 = Omit<StoredDocumentV1, 'globalInventory'> & {
+    globalInventory: { [medicineKey: string]: StoredInventoryEntryV2[] };
+};
+type StoredDocumentV4 = StoredDocumentV2 & { priceHistory: { [canonicalId: string]: StoredPricePointV4[] } };
+type StoredDocumentV7 = Pick<AppDatabase, 'globalInventory' | 'dynamicPharmacies' | 'priceHistory' | 'auditLog'>;
+
+interface Migration {
+    /** The schema version this migration produces. */
+    version: number;
+    description: string;
+    /** Receives a document of version `version - 1`. */
+    migrate: (db: StoredDocument) => StoredDocument;
+}
+
+const isRecord = (value: unknown): value is StoredDocument =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The rename toPharmacyId (pharmacyIds.ts) made in migration 6, frozen so the migration always gives the same IDs.
+const toLegacyPharmacyIdV6 = (id: number | string): PharmacyId =>
+    typeof id === 'number' || /^\d+$/.test(id) ? `legacy-${Number(id)}` : id;
+
+// Ordered list of migrations. Each one upgrades a document from `version - 1` to `version`.
+// A migration only uses logic frozen inside it (or in a frozen copy such as medicineIdsV3.ts),
+// never code that may change later, so an old document always upgrades the same way.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Add schemaVersion, fill in missing collections and normalize legacy stock values.',
+        migrate: (db): StoredDocumentV1 => {
+            const globalInventory: StoredDocumentV1['globalInventory'] = {};
+            Object.entries(isRecord(db.globalInventory) ? db.globalInventory : {}).forEach(([medicineKey, entries]) => {
+                if (!Array.isArray(entries)) return;
+                globalInventory[medicineKey] = entries.filter(isRecord).map(entry => ({
+                    ...(entry as StoredInventoryEntryV1),
+                    stock: normalizeLegacyStockStatus(entry.stock),
+                }));
+            });
+            return {
+                ...db,
+                globalInventory,
+                dynamicPharmacies: Array.isArray(db.dynamicPharmacies) ? db.dynamicPharmacies : [],
+            };
+        },
+    },
+    {
+        version: 2,
+        description: 'Store the display name of each medicine on its inventory entries.',
+        migrate: (db): StoredDocumentV2 => {
+            const globalInventory: StoredDocumentV2['globalInventory'] = {};
+            Object.entries((db as StoredDocumentV1).globalInventory).forEach(([medicineKey, entries]) => {
+                globalInventory[medicineKey] = entries.map(entry => ({
+                    ...entry,
+                    medicineName: entry.medicineName || medicineKey,
+                }));
+            });
+            return { ...(db as StoredDocumentV1), globalInventory };
+        },
+    },
+    {
+        version: 3,
+        description: 'Key globalInventory by canonical medicine ID instead of the lowercased name.',
+        migrate: (db): StoredDocumentV2 => {
+            const globalInventory: StoredDocumentV2['globalInventory'] = {};
+            Object.values((db as StoredDocumentV2).globalInventory).forEach(entries => {
+                entries.forEach(entry => {
+                    const canonicalId = getCanonicalMedicineIdV3(entry.medicineName);
+                    const merged = (globalInventory[canonicalId] || []).filter(e => e.pharmacyId !== entry.pharmacyId);
+                    globalInventory[canonicalId] = [...merged, entry];
+                });
+            });
+            return { ...(db as StoredDocumentV2), globalInventory };
+        },
+    },
+    {
+        version: 4,
+        description: 'Start a price history, seeded with current prices whose last update time is known.',
+        migrate: (db): StoredDocumentV4 => {
+            const priceHistory: StoredDocumentV4['priceHistory'] = {};
+            Object.entries((db as StoredDocumentV2).globalInventory).forEach(([canonicalId, entries]) => {
+                const points = entries
+                    .filter(entry => typeof entry.updatedAt === 'number')
+                    .map(entry => ({ pharmacyId: entry.pharmacyId, price: entry.price, changedAt: entry.updatedAt! }));
+                if (points.length > 0) {
+                    priceHistory[canonicalId] = points;
+                }
+            });
+            return { ...(db as StoredDocumentV2), priceHistory };
+        },
+    },
+    {
+        version: 5,
+        description: 'Treat the last save of each inventory entry as its last confirmation.',
+        migrate: (db): StoredDocumentV4 => {
+            const globalInventory: StoredDocumentV4['globalInventory'] = {};
+            Object.entries((db as StoredDocumentV4).globalInventory).forEach(([canonicalId, entries]) => {
+                globalInventory[canonicalId] = entries.map(entry => ({
+                    ...entry,
+                    lastConfirmedAt: entry.lastConfirmedAt ?? entry.updatedAt,
+                }));
+            });
+            return { ...(db as StoredDocumentV4), globalInventory };
+        },
+    },
+    {
+        version: 6,
+        description: 'Replace sequential numeric pharmacy IDs with collision-safe string IDs.',
+        migrate: (db) => {
+            const previous = db as StoredDocumentV4;
+            const globalInventory: GlobalInventory = {};
+            Object.entries(previous.globalInventory).forEach(([canonicalId, entries]) => {
+                globalInventory[canonicalId] = entries.map(entry => ({ ...entry, pharmacyId: toLegacyPharmacyIdV6(entry.pharmacyId) }));
+            });
+            const priceHistory: PriceHistory = {};
+            Object.entries(previous.priceHistory).forEach(([canonicalId, points]) => {
+                priceHistory[canonicalId] = points.map(point => ({ ...point, pharmacyId: toLegacyPharmacyIdV6(point.pharmacyId) }));
+            });
+            return {
+                ...previous,
+                globalInventory,
+                priceHistory,
+                dynamicPharmacies: previous.dynamicPharmacies.map(pharmacy => ({ ...pharmacy, id: toLegacyPharmacyIdV6(pharmacy.id) })),
+            };
+        },
+    },
+    {
+        version: 7,
+        description: 'Start an audit log of inventory changes. Changes made before it are not in it.',
+        migrate: (db) => ({ ...db, auditLog: {} }),
+    },
+    {
+        version: 8,
+        description: 'Re-key inventory, price history and the audit log by canonical IDs that include the pack size.',
+        migrate: (db): StoredDocumentV7 => {
+            const previous = db as StoredDocumentV7;
+            // Price history points carry no name, so they follow the names their pharmacy listed or logged under the old key.
+            const keyFor = (oldKey: string, pharmacyId: PharmacyId) => `${oldKey}\n${pharmacyId}`;
+            const newKeys = new Map<string, string>();
+            const anyNewKey = new Map<string, string>();
+
+            const globalInventory: GlobalInventory = {};
+            Object.entries(previous.globalInventory).forEach(([oldKey, entries]) => {
+                entries.forEach(entry => {
+                    const canonicalId = getCanonicalMedicineIdV8(entry.medicineName);
+                    newKeys.set(keyFor(oldKey, entry.pharmacyId), canonicalId);
+                    if (!anyNewKey.has(oldKey)) anyNewKey.set(oldKey, canonicalId);
+                    // Names that now share an ID keep the most recently saved entry, or the last one listed
+                    // when they were saved at the same time or don't say when. (Migration 3 always kept the last one listed.)
+                    const others = globalInventory[canonicalId] || [];
+                    const existing = others.find(e => e.pharmacyId === entry.pharmacyId);
+                    if (existing && (existing.updatedAt ?? 0) > (entry.updatedAt ?? 0)) return;
+                    globalInventory[canonicalId] = [...others.filter(e => e !== existing), entry];
+                });
+            });
+
+            const auditLog: AuditLog = {};
+            Object.entries(previous.auditLog).forEach(([pharmacyId, entries]) => {
+                auditLog[pharmacyId] = entries.map(entry => {
+                    const canonicalId = getCanonicalMedicineIdV8(entry.medicineName);
+                    if (!newKeys.has(keyFor(entry.canonicalId, pharmacyId))) {
+                        newKeys.set(keyFor(entry.canonicalId, pharmacyId), canonicalId);
+                    }
+                    return { ...entry, canonicalId };
+                });
+            });
+
+            const priceHistory: PriceHistory = {};
+            Object.entries(previous.priceHistory).forEach(([oldKey, points]) => {
+                points.forEach(point => {
+                    const canonicalId = newKeys.get(keyFor(oldKey, point.pharmacyId)) ?? anyNewKey.get(oldKey) ?? oldKey;
+                    if (!priceHistory[canonicalId]) priceHistory[canonicalId] = [];
+                    priceHistory[canonicalId].push(point);
+                });
+            });
+            Object.values(priceHistory).forEach(points => points.sort((a, b) => a.changedAt - b.changedAt));
+
+            return { ...previous, globalInventory, priceHistory, auditLog };
+        },
+    },
+];
+
+/**
+ * Upgrades a parsed database document to the current schema version.
+ * Documents without a schemaVersion are treated as version 0 (written before versioning existed).
+ * @param raw The parsed JSON document.
+ * @returns The migrated database.
+ * @throws If the document is not an object or was written by a newer version of the app.
+ */
+export const migrateDatabase = (raw: unknown): AppDatabase => {
+    if (!isRecord(raw)) {
+        throw new Error("Stored database is not a valid object.");
+    }
+
+    let db = raw;
+    const storedVersion = typeof db.schemaVersion === 'number' ? db.schemaVersion : 0;
+
+    if (storedVersion > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`Stored database uses schema version ${storedVersion}, but this app only supports up to version ${CURRENT_SCHEMA_VERSION}.`);
+    }
+
+    MIGRATIONS
+        .filter(migration => migration.version > storedVersion)
+        .sort((a, b) => a.version - b.version)
+        .forEach(migration => {
+            db = { ...migration.migrate(db), schemaVersion: migration.version };
+        });
+
+    return db as unknown as AppDatabase;
+};
@@ -0,0 +1,160 @@
+import type { PharmacyId } from '../types';
+import type { AppDatabase, AuditLogEntry, GlobalInventoryEntry, InventoryChangeAction, InventoryChangeSource, InventorySnapshot } from './databaseSchema';
+import { createUlid } from './pharmacyIds';
+
+// --- Inventory audit log ---
+// Every change an owner makes to an item is appended to the pharmacy's log with the item as it was
+// before and after, so a wrong edit or deletion can be seen and put back. Undoing or restoring
+// is itself a new entry: nothing in the log is ever changed. Only the oldest entries are dropped,
+// to keep the document small.
+
+export interface ChangeAuthor {
+    /** The name of the owner signed in. */
+    changedBy: string;
+    source: InventoryChangeSource;
+}
+
+/** Recorded for changes saved without saying who made them, e.g. by callers written before the log existed. */
+export const DEFAULT_CHANGE_AUTHOR: ChangeAuthor = { changedBy: 'Owner', source: 'dashboard' };
+
+// Older entries are dropped beyond this, per pharmacy.
+export const MAX_AUDIT_ENTRIES = 1000;
+
+// Confirming stock and flagging prices don't change what the owner entered, so they aren't logged.
+const UNLOGGED_FIELDS = new Set<string>(['updatedAt', 'lastConfirmedAt', 'priceFlag']);
+
+/**
+ * Copies an inventory entry for the log.
+ * @param entry The entry, or undefined if the pharmacy doesn't list the medicine.
+ */
+export const toSnapshot = (entry: GlobalInventoryEntry | undefined): InventorySnapshot | null => {
+    if (!entry) return null;
+    const { pharmacyId, ...snapshot } = entry;
+    return JSON.parse(JSON.stringify(snapshot));
+};
+
+const loggedValues = (snapshot: InventorySnapshot | null): string =>
+    JSON.stringify(snapshot && Object.entries(snapshot)
+        .filter(([field, value]) => !UNLOGGED_FIELDS.has(field) && value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b)));
+
+/**
+ * Whether two snapshots differ in anything the owner entered.
+ */
+export const isSameSnapshot = (a: InventorySnapshot | null, b: InventorySnapshot | null): boolean =>
+    loggedValues(a) === loggedValues(b);
+
+/**
+ * Appends a change to a pharmacy's audit log.
+ * @param db The database to add the entry to.
+ * @param pharmacyId The ID of the pharmacy.
+ * @param change The item before and after. Without an `action`, it is worked out from the snapshots
+ *   and nothing is logged if the owner's values didn't change.
+ * @param author Who made the change and how.
+ * @param changedAt When the change was made.
+ * @returns The new log entry, or null if nothing was logged.
+ */
+export const recordInventoryChange = (
+    db: AppDatabase,
+    pharmacyId: PharmacyId,
+    change: { canonicalId: string; before: InventorySnapshot | null; after: InventorySnapshot | null; action?: InventoryChangeAction; revertedEntryId?: string; batchId?: string },
+    author: ChangeAuthor,
+    changedAt = Date.now()
+): AuditLogEntry | null => {
+    const { canonicalId, before, after, revertedEntryId, batchId } = change;
+    if (!change.action && isSameSnapshot(before, after)) return null;
+
+    const entry: AuditLogEntry = {
+        id: createUlid(changedAt),
+        action: change.action ?? (!before ? 'added' : !after ? 'deleted' : 'updated'),
+        canonicalId,
+        medicineName: (after ?? before)?.medicineName ?? canonicalId,
+        before,
+        after,
+        changedAt,
+        changedBy: author.changedBy,
+        source: author.source,
+        ...(revertedEntryId ? { revertedEntryId } : {}),
+        ...(batchId ? { batchId } : {}),
+    };
+    db.auditLog[pharmacyId] = trimAuditLog([...(db.auditLog[pharmacyId] || []), entry]);
+    return entry;
+};
+
+/**
+ * Drops the oldest entries of a pharmacy's log beyond MAX_AUDIT_ENTRIES.
+ * @param log The pharmacy's log, oldest first.
+ */
+export const trimAuditLog = (log: AuditLogEntry[]): AuditLogEntry[] => {
+    if (log.length <= MAX_AUDIT_ENTRIES) return log;
+    const kept = log.slice(-MAX_AUDIT_ENTRIES);
+    // A batch cut in two could only be undone in part, so the rest of it goes too.
+    const cutBatchId = log[log.length - MAX_AUDIT_ENTRIES - 1].batchId;
+    return cutBatchId ? kept.filter(entry => entry.batchId !== cutBatchId) : kept;
+};
+
+/**
+ * Finds the changes "Undo" reverts: the latest one that hasn't been undone already, together with
+ * the rest of its batch (e.g. a whole import), so undoing again steps further back. Undos themselves aren't undone.
+ * @param log The pharmacy's log, oldest first.
+ * @returns The changes, oldest first; empty if there is nothing to undo.
+ */
+export const findUndoableChanges = (log: AuditLogEntry[]): AuditLogEntry[] => {
+    const undoneIds = new Set(log.filter(entry => entry.action === 'undone').map(entry => entry.revertedEntryId));
+    const isUndoable = (entry: AuditLogEntry) => entry.action !== 'undone' && !undoneIds.has(entry.id);
+    for (let i = log.length - 1; i >= 0; i--) {
+        const latest = log[i];
+        if (!isUndoable(latest)) continue;
+        return latest.batchId ? log.filter(entry => entry.batchId === latest.batchId && isUndoable(entry)) : [latest];
+    }
+    return [];
+};
+
+/**
+ * Lists the deleted items that can be restored: the latest deletion of each medicine the
+ * pharmacy no longer lists.
+ * @param log The pharmacy's log, oldest first.
+ * @param listedCanonicalIds The medicines the pharmacy lists now.
+ * @returns The deletions, newest first.
+ */
+export const findRestorableDeletions = (log: AuditLogEntry[], listedCanonicalIds: Set<string>): AuditLogEntry[] => {
+    const seen = new Set<string>();
+    const deletions: AuditLogEntry[] = [];
+    for (let i = log.length - 1; i >= 0; i--) {
+        const entry = log[i];
+        if (seen.has(entry.canonicalId)) continue;
+        seen.add(entry.canonicalId);
+        if (entry.action === 'deleted' && entry.before && !listedCanonicalIds.has(entry.canonicalId)) {
+            deletions.push(entry);
+        }
+    }
+    return deletions;
+};
+
+const formatPrice = (price: number) => `₹${price.toFixed(2)}`;
+
+const formatPackSize = (snapshot: InventorySnapshot) =>
+    snapshot.packSize ? `${snapshot.packSize.quantity}${snapshot.packSize.unit === 'unit' ? '' : ` ${snapshot.packSize.unit}`}` : 'none';
+
+const FIELD_DESCRIPTIONS: { label: string; format: (snapshot: InventorySnapshot) => string }[] = [
+    { label: 'Name', format: s => s.medicineName },
+    { label: 'Price', format: s => formatPrice(s.price) },
+    { label: 'Stock', format: s => s.stock },
+    { label: 'Strips', format: s => s.quantity?.toString() ?? 'not tracked' },
+    { label: 'Reorder at', format: s => s.reorderThreshold?.toString() ?? 'none' },
+    { label: 'Pack size', format: s => formatPackSize(s) },
+];
+
+/**
+ * Describes a change for the history view, e.g. "Price ₹30.00 → ₹32.00".
+ */
+export const describeInventoryChange = ({ before, after }: AuditLogEntry): string => {
+    if (!before && after) return `Added at ${formatPrice(after.price)}, ${after.stock.toLowerCase()}`;
+    if (before && !after) return `Deleted (was ${formatPrice(before.price)}, ${before.stock.toLowerCase()})`;
+    if (!before || !after) return '';
+    const changes = FIELD_DESCRIPTIONS
+        .map(({ label, format }) => ({ label, from: format(before), to: format(after) }))
+        .filter(({ from, to }) => from !== to)
+        .map(({ label, from, to }) => `${label} ${from} → ${to}`);
+    return changes.length > 0 ? changes.join(', ') : 'No visible change';
+};
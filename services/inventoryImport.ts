@@ -0,0 +1,253 @@
+import { StockStatus } from '../types';
+import type { InventoryItem, PackSize } from '../types';
+import { getCanonicalMedicineId, parseMedicineName } from './medicineCatalog';
+import { findFirstRowIndex, isEmptyRow } from './spreadsheetFiles';
+import type { SpreadsheetRows } from './spreadsheetFiles';
+
+// --- Bulk inventory import from a spreadsheet ---
+// Owners map the columns of their stock list onto the fields below. Every row is then checked
+// on its own, so one bad row is reported against its row number rather than failing the file,
+// and compared with the current inventory so the owner can see what will change before saving.
+
+export type InventoryImportField = 'medicineName' | 'price' | 'stock' | 'packSize';
+
+/** The column each field is read from (zero-based), or null when the file doesn't have it. */
+export type ColumnMapping = Record<InventoryImportField, number | null>;
+
+export const INVENTORY_IMPORT_FIELDS: { field: InventoryImportField; label: string; required: boolean }[] = [
+    { field: 'medicineName', label: 'Medicine name', required: true },
+    { field: 'price', label: 'Price', required: true },
+    { field: 'stock', label: 'Stock', required: false },
+    { field: 'packSize', label: 'Pack size', required: false },
+];
+
+// Header names seen in pharmacy billing software and hand-made stock lists, most specific first.
+const HEADER_ALIASES: Record<InventoryImportField, string[]> = {
+    medicineName: ['medicine name', 'item name', 'product name', 'drug name', 'medicine', 'item', 'product', 'drug', 'name', 'description'],
+    price: ['selling price', 'sale price', 'unit price', 'price', 'mrp', 'rate', 'amount'],
+    stock: ['stock status', 'availability', 'in stock', 'stock', 'quantity', 'qty', 'status', 'available'],
+    packSize: ['pack size', 'pack qty', 'strip size', 'packing', 'pack', 'size'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+
+// Columns such as "Item Code" or "Product ID" hold a reference to the item, not the item itself.
+const REFERENCE_WORDS = new Set(['code', 'id', 'no', 'number', 'barcode', 'sku', 'hsn']);
+
+// Whether every word of the alias appears, as whole words and in order, in the header.
+const containsWords = (header: string, alias: string) => ` ${header} `.includes(` ${alias} `);
+
+const isReferenceColumn = (header: string) => header.split(' ').some(word => REFERENCE_WORDS.has(word));
+
+export interface ColumnGuess {
+    mapping: ColumnMapping;
+    /** Whether the first non-empty row looks like column names rather than an item. */
+    hasHeaderRow: boolean;
+}
+
+/**
+ * Guesses which column holds which field from the first non-empty row of a file.
+ * @param rows The rows of the file.
+ * @returns The likely mapping. Without recognisable headers, the columns are taken to be
+ *   name, price, stock and pack size in that order.
+ */
+export const guessColumnMapping = (rows: SpreadsheetRows): ColumnGuess => {
+    const headers = (rows[findFirstRowIndex(rows)] || []).map(normalizeHeader);
+    const mapping: ColumnMapping = { medicineName: null, price: null, stock: null, packSize: null };
+    const taken = new Set<number>();
+
+    // Exact names first, so "Pack size" isn't claimed by "size" before "pack size" is tried.
+    // Then headers that contain an alias as whole words, e.g. "MRP (Rs)", unless they name a code or ID.
+    [
+        (header: string, alias: string) => header === alias,
+        (header: string, alias: string) => containsWords(header, alias) && !isReferenceColumn(header),
+    ].forEach(matches => {
+        INVENTORY_IMPORT_FIELDS.forEach(({ field }) => {
+            if (mapping[field] !== null) return;
+            for (const alias of HEADER_ALIASES[field]) {
+                const column = headers.findIndex((header, index) => !taken.has(index) && matches(header, alias));
+                if (column !== -1) {
+                    mapping[field] = column;
+                    taken.add(column);
+                    return;
+                }
+            }
+        });
+    });
+
+    if (mapping.medicineName !== null || mapping.price !== null) {
+        return { mapping, hasHeaderRow: true };
+    }
+    const columnCount = Math.max(0, ...rows.map(row => row.length));
+    return {
+        mapping: {
+            medicineName: columnCount > 0 ? 0 : null,
+            price: columnCount > 1 ? 1 : null,
+            stock: columnCount > 2 ? 2 : null,
+            packSize: columnCount > 3 ? 3 : null,
+        },
+        hasHeaderRow: false,
+    };
+};
+
+const AVAILABLE_WORDS = ['available', 'in stock', 'instock', 'yes', 'y', 'true', 'in'];
+const UNAVAILABLE_WORDS = ['unavailable', 'not available', 'out of stock', 'outofstock', 'out', 'no', 'n', 'false', 'nil'];
+
+/**
+ * Reads a price such as "₹45", "Rs. 1,250.00", "45/-" or "45,50".
+ * @returns The price, or NaN if the text is not a price.
+ */
+export const parsePriceText = (text: string): number => {
+    const match = text.trim().match(/^(?:₹|rs\.?|inr)?\s*(\d[\d,]*(?:\.\d+)?)\s*(?:\/-)?$/i);
+    if (!match) return NaN;
+    // Thousands groups always end in three digits, so "45,50" uses a decimal comma.
+    const number = /,\d{1,2}$/.test(match[1]) ? match[1].replace(/,(\d{1,2})$/, '.$1') : match[1];
+    return parseFloat(number.replace(/,/g, ''));
+};
+
+/**
+ * Reads a stock cell: a word such as "In stock" or "No", or a number of strips on hand.
+ * @returns The stock status and, for numbers, the quantity; or null if the text isn't recognised.
+ */
+export const parseStockText = (text: string): { stock: StockStatus; quantity?: number } | null => {
+    const normalized = text.trim().toLowerCase();
+    if (/^\d+$/.test(normalized)) {
+        const quantity = parseInt(normalized, 10);
+        return { stock: quantity > 0 ? StockStatus.Available : StockStatus.Unavailable, quantity };
+    }
+    if (AVAILABLE_WORDS.includes(normalized)) return { stock: StockStatus.Available };
+    if (UNAVAILABLE_WORDS.includes(normalized)) return { stock: StockStatus.Unavailable };
+    return null;
+};
+
+/**
+ * Reads a pack size such as "10", "15 tablets", "strip of 10", "1x15", "60 ml" or "20g".
+ * @returns The pack size, or undefined if the text isn't one.
+ */
+export const parsePackSizeText = (text: string): PackSize | undefined => {
+    const match = text.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(ml|g|gm|gms|grams?|tablets?|tabs?|capsules?|caps?|sachets?|units?|nos?|'s)?$/);
+    if (match) {
+        const quantity = parseFloat(match[1]);
+        if (!(quantity > 0)) return undefined;
+        const unit = match[2] ?? '';
+        return { quantity, unit: unit === 'ml' ? 'ml' : unit.startsWith('g') ? 'g' : 'unit' };
+    }
+    return parseMedicineName(text).packSize;
+};
+
+export type InventoryImportChange = 'new' | 'updated' | 'unchanged';
+
+export interface InventoryImportRow {
+    /** The row's position in the file, starting at 1, as the owner's spreadsheet app numbers it. */
+    rowNumber: number;
+    /** The item to save, or null if the row has errors. */
+    item: InventoryItem | null;
+    errors: string[];
+    /** How the item compares with the current inventory; only set for rows without errors. */
+    change?: InventoryImportChange;
+    /** The current inventory item with the same medicine, if there is one. */
+    previous?: InventoryItem;
+}
+
+export interface InventoryImportPreview {
+    rows: InventoryImportRow[];
+    /** The items that will be saved: every valid row that is new or changes something. */
+    items: InventoryItem[];
+    counts: Record<InventoryImportChange | 'invalid', number>;
+}
+
+const cellAt = (row: string[], column: number | null) => (column === null ? '' : (row[column] ?? '').trim());
+
+const samePackSize = (a?: PackSize, b?: PackSize) => a?.quantity === b?.quantity && a?.unit === b?.unit;
+
+/**
+ * Whether saving an item would change the pharmacy's current item for the same medicine.
+ * A quantity or pack size that the item leaves out keeps the current one, so it isn't a change.
+ */
+export const hasInventoryItemChanged = (item: InventoryItem, previous: InventoryItem): boolean =>
+    previous.price !== item.price
+    || previous.stock !== item.stock
+    || (item.quantity !== undefined && previous.quantity !== item.quantity)
+    || (item.packSize !== undefined && !samePackSize(previous.packSize, item.packSize));
+
+const compareWithCurrent = (item: InventoryItem, previous: InventoryItem | undefined): InventoryImportChange => {
+    if (!previous) return 'new';
+    return hasInventoryItemChanged(item, previous) ? 'updated' : 'unchanged';
+};
+
+/**
+ * Checks every row of a file and compares it with the current inventory.
+ * @param rows The rows of the file.
+ * @param mapping Which column holds which field.
+ * @param options `hasHeaderRow` skips the first non-empty row; `currentInventory` is what the pharmacy lists now.
+ * @returns Each non-empty row with its errors or its change, and the items to save.
+ */
+export const previewInventoryImport = (
+    rows: SpreadsheetRows,
+    mapping: ColumnMapping,
+    options: { hasHeaderRow: boolean; currentInventory: InventoryItem[] }
+): InventoryImportPreview => {
+    const current = new Map(options.currentInventory.map(item => [getCanonicalMedicineId(item.medicineName), item]));
+    const firstRowByMedicine = new Map<string, number>();
+    const headerIndex = options.hasHeaderRow ? findFirstRowIndex(rows) : -1;
+
+    const importRows = rows
+        .map((row, index) => ({ row, rowNumber: index + 1 }))
+        .filter(({ row }, index) => index > headerIndex && !isEmptyRow(row))
+        .map(({ row, rowNumber }): InventoryImportRow => {
+            const errors: string[] = [];
+
+            const medicineName = cellAt(row, mapping.medicineName).replace(/\s+/g, ' ');
+            if (!medicineName) {
+                errors.push('Medicine name is missing.');
+            }
+
+            const priceText = cellAt(row, mapping.price);
+            const price = parsePriceText(priceText);
+            if (!priceText) {
+                errors.push('Price is missing.');
+            } else if (isNaN(price)) {
+                errors.push(`Price "${priceText}" is not a number.`);
+            } else if (!(price > 0)) {
+                errors.push('Price must be more than 0.');
+            }
+
+            const stockText = cellAt(row, mapping.stock);
+            // Listing an item without saying otherwise means it is in stock.
+            const stock = stockText ? parseStockText(stockText) : { stock: StockStatus.Available };
+            if (!stock) {
+                errors.push(`Stock "${stockText}" isn't recognised. Use "Available", "Unavailable" or the number of strips.`);
+            }
+
+            const packText = cellAt(row, mapping.packSize);
+            const packSize = packText ? parsePackSizeText(packText) : undefined;
+            if (packText && !packSize) {
+                errors.push(`Pack size "${packText}" isn't recognised. Use e.g. "10 tablets" or "60 ml".`);
+            }
+
+            if (medicineName) {
+                const canonicalId = getCanonicalMedicineId(medicineName);
+                const earlierRow = firstRowByMedicine.get(canonicalId);
+                if (earlierRow !== undefined) {
+                    errors.push(`Same medicine as row ${earlierRow}.`);
+                } else {
+                    firstRowByMedicine.set(canonicalId, rowNumber);
+                }
+            }
+
+            if (errors.length > 0 || !stock) {
+                return { rowNumber, item: null, errors };
+            }
+            const item: InventoryItem = { medicineName, price, stock: stock.stock, quantity: stock.quantity, packSize };
+            const previous = current.get(getCanonicalMedicineId(medicineName));
+            return { rowNumber, item, errors, change: compareWithCurrent(item, previous), previous };
+        });
+
+    const counts = { new: 0, updated: 0, unchanged: 0, invalid: 0 };
+    importRows.forEach(row => counts[row.change ?? 'invalid']++);
+    return {
+        rows: importRows,
+        items: importRows.filter(row => row.change === 'new' || row.change === 'updated').map(row => row.item!),
+        counts,
+    };
+};
@@ -0,0 +1,152 @@
+import type { InventoryItem, PharmacyId } from '../types';
+import { getInventoryForPharmacy, updateGlobalInventory } from './pharmacyService';
+import { normalizeLegacyStockStatus } from './databaseSchema';
+import { getCanonicalMedicineId } from './medicineCatalog';
+import { DEFAULT_CHANGE_AUTHOR } from './inventoryAudit';
+import { toPharmacyId } from './pharmacyIds';
+
+// --- One-time reconciliation of legacy per-owner inventories ---
+// Older versions of the owner dashboard kept a second copy of each pharmacy's inventory
+// under `pharmacyInventory_<id>` in localStorage, next to the shared globalInventory.
+// The two copies drifted whenever one of the writes failed. The dashboard now reads
+// from the pharmacy service only; this module reports what the legacy copies disagree on
+// and folds them into the service so they can be retired.
+
+export const LEGACY_INVENTORY_KEY_PREFIX = 'pharmacyInventory_';
+
+export type InventoryMismatchKind = 'missingFromGlobal' | 'missingFromOwner' | 'priceMismatch' | 'stockMismatch';
+
+export interface InventoryMismatch {
+    pharmacyId: PharmacyId;
+    medicineName: string;
+    kind: InventoryMismatchKind;
+    /** The item as stored in the legacy per-owner copy. */
+    ownerItem?: InventoryItem;
+    /** The item as stored in the shared globalInventory. */
+    globalItem?: InventoryItem;
+}
+
+export interface ReconciliationReport {
+    pharmacyIds: PharmacyId[];
+    mismatches: InventoryMismatch[];
+    /** True once the mismatches have been applied and the legacy copies removed. */
+    fixed: boolean;
+}
+
+const legacyKeyFor = (pharmacyId: PharmacyId) => `${LEGACY_INVENTORY_KEY_PREFIX}${pharmacyId}`;
+
+/**
+ * Lists the pharmacies that still have a legacy per-owner inventory on this device.
+ * Copies saved under an older numeric pharmacy ID are moved to the key for its current ID.
+ * @returns The IDs of those pharmacies.
+ */
+export const findLegacyInventoryPharmacyIds = (): PharmacyId[] => {
+    const storedIds: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && key.startsWith(LEGACY_INVENTORY_KEY_PREFIX)) {
+            storedIds.push(key.slice(LEGACY_INVENTORY_KEY_PREFIX.length));
+        }
+    }
+    return storedIds
+        .filter(Boolean)
+        .map(storedId => {
+            const pharmacyId = toPharmacyId(storedId);
+            const stored = localStorage.getItem(`${LEGACY_INVENTORY_KEY_PREFIX}${storedId}`);
+            if (pharmacyId !== storedId && stored !== null) {
+                localStorage.setItem(legacyKeyFor(pharmacyId), stored);
+                localStorage.removeItem(`${LEGACY_INVENTORY_KEY_PREFIX}${storedId}`);
+            }
+            return pharmacyId;
+        })
+        .sort();
+};
+
+// Reads a legacy copy, keeping the last item saved for each medicine: entering the same medicine
+// under two spellings left two items that the shared inventory can only hold one of.
+// An unreadable copy is an error rather than an empty list, so it is never retired by mistake.
+const readLegacyInventory = (pharmacyId: PharmacyId): InventoryItem[] => {
+    let items: unknown;
+    try {
+        items = JSON.parse(localStorage.getItem(legacyKeyFor(pharmacyId)) || '[]');
+    } catch (error) {
+        console.error(`Could not read legacy inventory for pharmacy ${pharmacyId}`, error);
+        items = null;
+    }
+    if (!Array.isArray(items) || items.some(item => typeof item?.medicineName !== 'string')) {
+        throw new Error(`The inventory saved on this device for pharmacy ${pharmacyId} can't be read, so it was left as it is.`);
+    }
+    const byMedicine = new Map<string, InventoryItem>();
+    (items as InventoryItem[]).forEach(item => {
+        const canonicalId = getCanonicalMedicineId(item.medicineName);
+        byMedicine.delete(canonicalId);
+        byMedicine.set(canonicalId, { ...item, stock: normalizeLegacyStockStatus(item.stock) });
+    });
+    return Array.from(byMedicine.values());
+};
+
+const comparePharmacyInventories = (pharmacyId: PharmacyId, ownerItems: InventoryItem[], globalItems: InventoryItem[]): InventoryMismatch[] => {
+    const mismatches: InventoryMismatch[] = [];
+    const globalById = new Map(globalItems.map(item => [getCanonicalMedicineId(item.medicineName), item]));
+    const ownerIds = new Set<string>();
+
+    ownerItems.forEach(ownerItem => {
+        const canonicalId = getCanonicalMedicineId(ownerItem.medicineName);
+        ownerIds.add(canonicalId);
+        const globalItem = globalById.get(canonicalId);
+        if (!globalItem) {
+            mismatches.push({ pharmacyId, medicineName: ownerItem.medicineName, kind: 'missingFromGlobal', ownerItem });
+        } else if (globalItem.price !== ownerItem.price) {
+            mismatches.push({ pharmacyId, medicineName: ownerItem.medicineName, kind: 'priceMismatch', ownerItem, globalItem });
+        } else if (globalItem.stock !== ownerItem.stock) {
+            mismatches.push({ pharmacyId, medicineName: ownerItem.medicineName, kind: 'stockMismatch', ownerItem, globalItem });
+        }
+    });
+
+    globalItems
+        .filter(globalItem => !ownerIds.has(getCanonicalMedicineId(globalItem.medicineName)))
+        .forEach(globalItem => {
+            mismatches.push({ pharmacyId, medicineName: globalItem.medicineName, kind: 'missingFromOwner', globalItem });
+        });
+
+    return mismatches;
+};
+
+/**
+ * Compares legacy per-owner inventories with the shared inventory, and optionally fixes them.
+ * When fixing, the owner's copy wins for items it contains (it is what the owner last saw on
+ * their dashboard); items that only exist in the shared inventory are kept as they are.
+ * The legacy copy is removed afterwards, leaving the shared inventory as the single source.
+ * @param options `fix` applies the changes; `pharmacyIds` limits the run to specific pharmacies;
+ *   `changedBy` names the owner in the audit log.
+ * @returns A promise that resolves to a report of every mismatch found.
+ */
+export const reconcileOwnerInventories = async (options: { fix: boolean; pharmacyIds?: PharmacyId[]; changedBy?: string }): Promise<ReconciliationReport> => {
+    const pharmacyIds = options.pharmacyIds || findLegacyInventoryPharmacyIds();
+    const mismatches: InventoryMismatch[] = [];
+
+    for (const pharmacyId of pharmacyIds) {
+        const ownerItems = readLegacyInventory(pharmacyId);
+        const globalItems = await getInventoryForPharmacy(pharmacyId);
+        const pharmacyMismatches = comparePharmacyInventories(pharmacyId, ownerItems, globalItems);
+        mismatches.push(...pharmacyMismatches);
+
+        if (options.fix) {
+            const itemsToApply = pharmacyMismatches
+                .filter(m => m.kind !== 'missingFromOwner' && m.ownerItem)
+                .map(m => m.ownerItem!);
+            if (itemsToApply.length > 0) {
+                await updateGlobalInventory(pharmacyId, itemsToApply, { changedBy: options.changedBy ?? DEFAULT_CHANGE_AUTHOR.changedBy, source: 'reconciliation' });
+            }
+            // Only retire the legacy copy once the shared inventory really contains everything from it.
+            const remaining = comparePharmacyInventories(pharmacyId, ownerItems, await getInventoryForPharmacy(pharmacyId))
+                .filter(m => m.kind !== 'missingFromOwner');
+            if (remaining.length > 0) {
+                throw new Error(`Could not reconcile the inventory of pharmacy ${pharmacyId}. Please try again.`);
+            }
+            localStorage.removeItem(legacyKeyFor(pharmacyId));
+        }
+    }
+
+    return { pharmacyIds, mismatches, fixed: options.fix };
+};
@@ -0,0 +1,196 @@
+import type { PackSize } from '../types';
+
+// --- Canonical medicine IDs as migration 3 computed them ---
+// A frozen copy of how medicineCatalog.ts worked out canonical IDs when migration 3 keyed
+// globalInventory by them. A migration must keep producing the same output however the catalog
+// changes later, so this file is never edited: a catalog change that alters IDs re-keys stored
+// documents with a migration of its own.
+
+type DosageForm = 'tablet' | 'capsule' | 'syrup' | 'suspension' | 'drops' | 'injection' | 'cream' | 'ointment' | 'gel' | 'inhaler' | 'powder' | 'sachet';
+
+const FORM_ALIASES: Record<string, DosageForm> = {
+    tab: 'tablet', tabs: 'tablet', tablet: 'tablet', tablets: 'tablet',
+    cap: 'capsule', caps: 'capsule', capsule: 'capsule', capsules: 'capsule',
+    syp: 'syrup', syrup: 'syrup',
+    susp: 'suspension', suspension: 'suspension',
+    drop: 'drops', drops: 'drops',
+    inj: 'injection', injection: 'injection',
+    cream: 'cream',
+    oint: 'ointment', ointment: 'ointment',
+    gel: 'gel',
+    inhaler: 'inhaler',
+    powder: 'powder',
+    sachet: 'sachet', sachets: 'sachet',
+};
+
+const TOPICAL_FORMS: DosageForm[] = ['cream', 'ointment', 'gel', 'powder'];
+
+// Alternative spellings and abbreviations of active ingredients.
+const INGREDIENT_SYNONYMS: Record<string, string> = {
+    pcm: 'paracetamol',
+    acetaminophen: 'paracetamol',
+    amoxycillin: 'amoxicillin',
+    clavulanate: 'clavulanic acid',
+    'potassium clavulanate': 'clavulanic acid',
+    'vitamin c': 'ascorbic acid',
+    asa: 'aspirin',
+};
+
+// Common brands and their active ingredients.
+const BRANDS: Record<string, string[]> = {
+    dolo: ['paracetamol'],
+    crocin: ['paracetamol'],
+    calpol: ['paracetamol'],
+    metacin: ['paracetamol'],
+    combiflam: ['ibuprofen', 'paracetamol'],
+    brufen: ['ibuprofen'],
+    azithral: ['azithromycin'],
+    azee: ['azithromycin'],
+    augmentin: ['amoxicillin', 'clavulanic acid'],
+    clavam: ['amoxicillin', 'clavulanic acid'],
+    mox: ['amoxicillin'],
+    pan: ['pantoprazole'],
+    pantocid: ['pantoprazole'],
+    omez: ['omeprazole'],
+    allegra: ['fexofenadine'],
+    cetzine: ['cetirizine'],
+    okacet: ['cetirizine'],
+    glycomet: ['metformin'],
+    ecosprin: ['aspirin'],
+    disprin: ['aspirin'],
+    limcee: ['ascorbic acid'],
+    montair: ['montelukast'],
+    shelcal: ['calcium carbonate', 'cholecalciferol'],
+};
+
+// Words that describe packaging rather than the medicine itself.
+const NOISE_WORDS = new Set(['strip', 'strips', 'pack', 'box', 'bottle', 'of', 'x', 'per', 'and', 'with', 'ip', 'bp', 'usp']);
+
+const formatNumber = (value: number) => String(parseFloat(value.toFixed(4)));
+
+// Converts a mass to milligrams so that '1g' and '1000mg' compare equal.
+const normalizeStrengthUnit = (value: number, unit: string): string => {
+    switch (unit) {
+        case 'g':
+            return `${formatNumber(value * 1000)}mg`;
+        case 'mcg':
+        case 'µg':
+            return `${formatNumber(value / 1000)}mg`;
+        default:
+            return `${formatNumber(value)}${unit}`;
+    }
+};
+
+const normalizeIngredient = (name: string) => INGREDIENT_SYNONYMS[name] || name;
+
+/**
+ * Returns the canonical ID migration 3 gave a medicine name.
+ * @param name The medicine name.
+ */
+export const getCanonicalMedicineIdV3 = (name: string): string => {
+    const cleaned = name
+        .toLowerCase()
+        .replace(/[^a-z0-9.+&/%'µ]+/g, ' ')
+        // Keep decimal points ("2.5mg") but drop abbreviation dots ("Tab.").
+        .replace(/\.(?!\d)|(?<!\d)\./g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    let text = ` ${cleaned} `;
+    const strengths: string[] = [];
+    let form: DosageForm | undefined;
+    let packSize: PackSize | undefined;
+
+    // Combination strengths written as "500/125 mg" or "500mg/125mg".
+    text = text.replace(/(\d+(?:\.\d+)?)\s*(mg|mcg|g)?\s*\/\s*(\d+(?:\.\d+)?)\s*(mg|mcg|g)\b/g, (_, a, unitA, b, unitB) => {
+        strengths.push(normalizeStrengthUnit(parseFloat(a), unitA || unitB), normalizeStrengthUnit(parseFloat(b), unitB));
+        return ' ';
+    });
+
+    // Pack sizes: "strip of 10", "10's", "1x15", "15 tablets".
+    text = text.replace(/\b(?:strip|pack|box|bottle)\s+of\s+(\d+)\b/g, (_, count) => {
+        packSize = { quantity: parseInt(count, 10), unit: 'unit' };
+        return ' ';
+    });
+    text = text.replace(/\b(\d+)\s*'s\b/g, (_, count) => {
+        packSize = { quantity: parseInt(count, 10), unit: 'unit' };
+        return ' ';
+    });
+    text = text.replace(/\b(\d+)\s*x\s*(\d+)\b/g, (_, a, b) => {
+        packSize = { quantity: parseInt(a, 10) * parseInt(b, 10), unit: 'unit' };
+        return ' ';
+    });
+    // Only plural words count units; "650 tab" is a strength followed by a form.
+    text = text.replace(/\b(\d+)\s*(tablets|tabs|capsules|caps|sachets)\b/g, (_, count, word) => {
+        packSize = { quantity: parseInt(count, 10), unit: 'unit' };
+        form = FORM_ALIASES[word];
+        return ' ';
+    });
+
+    // Strengths, including concentrations such as "125mg/5ml".
+    text = text.replace(/(\d+(?:\.\d+)?)\s*(mg|mcg|µg|iu|%)(?:\s*\/\s*(\d+(?:\.\d+)?)?\s*(ml|g))?\b/g, (_, value, unit, per, perUnit) => {
+        const strength = normalizeStrengthUnit(parseFloat(value), unit);
+        strengths.push(perUnit ? `${strength}/${per ? formatNumber(parseFloat(per)) : '1'}${perUnit}` : strength);
+        return ' ';
+    });
+
+    // Dosage form words.
+    text = text.replace(/[a-z]+/g, word => {
+        if (FORM_ALIASES[word]) {
+            form = form || FORM_ALIASES[word];
+            return ' ';
+        }
+        return word;
+    });
+
+    // Volumes and weights left over describe the pack ("100ml" syrup, "20g" cream),
+    // except a bare gram amount on a solid form, which is a strength ("1g" tablet).
+    text = text.replace(/(\d+(?:\.\d+)?)\s*(ml|g)\b/g, (_, value, unit) => {
+        if (unit === 'g' && !(form && TOPICAL_FORMS.includes(form))) {
+            strengths.push(normalizeStrengthUnit(parseFloat(value), 'g'));
+        } else {
+            packSize = { quantity: parseFloat(value), unit };
+        }
+        return ' ';
+    });
+
+    // A bare number after a brand ("Dolo 650") is a strength in mg.
+    if (strengths.length === 0) {
+        text = text.replace(/\b(\d+(?:\.\d+)?)\b/, (_, value) => {
+            strengths.push(normalizeStrengthUnit(parseFloat(value), 'mg'));
+            return ' ';
+        });
+    }
+
+    const nameText = text
+        .replace(/\d+(?:\.\d+)?/g, ' ')
+        .split(/\s+/)
+        .filter(word => word && !NOISE_WORDS.has(word))
+        .join(' ');
+
+    let brand: string | undefined;
+    let activeIngredients: string[];
+    const brandWord = nameText.split(' ').find(word => BRANDS[word]);
+    if (brandWord) {
+        brand = brandWord;
+        activeIngredients = [...BRANDS[brandWord]];
+    } else {
+        activeIngredients = nameText
+            .split(/\s*[+&]\s*/)
+            .map(part => normalizeIngredient(part.trim()))
+            .filter(Boolean);
+    }
+    activeIngredients.sort();
+    if (activeIngredients.length === 0) {
+        activeIngredients = [name.trim().toLowerCase()];
+    }
+
+    if (!form && strengths.length > 0 && strengths.every(s => s.endsWith('mg'))) {
+        // A plain mass strength with no form given is, in practice, a tablet.
+        form = 'tablet';
+    } else if (!form && packSize?.unit === 'ml') {
+        form = 'syrup';
+    }
+
+    const strength = strengths.length > 0 ? strengths.join('+') : undefined;
+    return [brand || '', activeIngredients.join('+'), strength || '', form || ''].join('|');
+};
@@ -0,0 +1,232 @@
+import type { PackSize } from '../types';
+
+// --- Canonical medicine IDs as migration 8 computed them ---
+// A frozen copy of how medicineCatalog.ts worked out canonical IDs when migration 8 re-keyed
+// stored documents to include pack sizes. Like medicineIdsV3.ts, this file is never edited.
+
+type DosageForm = 'tablet' | 'capsule' | 'syrup' | 'suspension' | 'drops' | 'injection' | 'cream' | 'ointment' | 'gel' | 'inhaler' | 'powder' | 'sachet';
+
+const FORM_ALIASES = new Map<string, DosageForm>(Object.entries({
+    tab: 'tablet', tabs: 'tablet', tablet: 'tablet', tablets: 'tablet',
+    cap: 'capsule', caps: 'capsule', capsule: 'capsule', capsules: 'capsule',
+    syp: 'syrup', syrup: 'syrup',
+    susp: 'suspension', suspension: 'suspension',
+    drop: 'drops', drops: 'drops',
+    inj: 'injection', injection: 'injection',
+    cream: 'cream',
+    oint: 'ointment', ointment: 'ointment',
+    gel: 'gel',
+    inhaler: 'inhaler',
+    powder: 'powder',
+    sachet: 'sachet', sachets: 'sachet',
+}));
+
+const COUNTABLE_FORMS: DosageForm[] = ['tablet', 'capsule', 'sachet'];
+const TOPICAL_FORMS: DosageForm[] = ['cream', 'ointment', 'gel', 'powder'];
+
+// Alternative spellings and abbreviations of active ingredients.
+const INGREDIENT_SYNONYMS = new Map<string, string>(Object.entries({
+    pcm: 'paracetamol',
+    acetaminophen: 'paracetamol',
+    amoxycillin: 'amoxicillin',
+    clavulanate: 'clavulanic acid',
+    'potassium clavulanate': 'clavulanic acid',
+    'vitamin c': 'ascorbic acid',
+    asa: 'aspirin',
+}));
+
+// Common brands and their active ingredients. A brand's variants ("Pan D", "Allegra M") usually
+// add an ingredient, so each known variant is listed under its full name.
+const BRANDS = new Map<string, string[]>(Object.entries({
+    dolo: ['paracetamol'],
+    crocin: ['paracetamol'],
+    calpol: ['paracetamol'],
+    metacin: ['paracetamol'],
+    combiflam: ['ibuprofen', 'paracetamol'],
+    brufen: ['ibuprofen'],
+    azithral: ['azithromycin'],
+    azee: ['azithromycin'],
+    augmentin: ['amoxicillin', 'clavulanic acid'],
+    clavam: ['amoxicillin', 'clavulanic acid'],
+    mox: ['amoxicillin'],
+    'augmentin duo': ['amoxicillin', 'clavulanic acid'],
+    pan: ['pantoprazole'],
+    'pan d': ['domperidone', 'pantoprazole'],
+    'pan dsr': ['domperidone', 'pantoprazole'],
+    pantocid: ['pantoprazole'],
+    'pantocid d': ['domperidone', 'pantoprazole'],
+    'pantocid dsr': ['domperidone', 'pantoprazole'],
+    omez: ['omeprazole'],
+    'omez d': ['domperidone', 'omeprazole'],
+    allegra: ['fexofenadine'],
+    'allegra m': ['fexofenadine', 'montelukast'],
+    cetzine: ['cetirizine'],
+    okacet: ['cetirizine'],
+    glycomet: ['metformin'],
+    'glycomet gp': ['glimepiride', 'metformin'],
+    ecosprin: ['aspirin'],
+    'ecosprin av': ['aspirin', 'atorvastatin'],
+    disprin: ['aspirin'],
+    limcee: ['ascorbic acid'],
+    montair: ['montelukast'],
+    'montair lc': ['levocetirizine', 'montelukast'],
+    shelcal: ['calcium carbonate', 'cholecalciferol'],
+}));
+
+// Words after a brand that name a variant of it. An unlisted variant ("Crocin Cold") has
+// ingredients we don't know, so it is not matched to the plain brand.
+const VARIANT_WORDS = new Set(['plus', 'forte', 'duo', 'advance', 'cold', 'kid', 'kids', 'junior', 'total']);
+const isVariantWord = (word: string) => /^[a-z]{1,3}$/.test(word) || VARIANT_WORDS.has(word);
+
+// Words that describe packaging rather than the medicine itself.
+const NOISE_WORDS = new Set(['strip', 'strips', 'pack', 'box', 'bottle', 'of', 'x', 'per', 'and', 'with', 'ip', 'bp', 'usp']);
+
+const formatNumber = (value: number) => String(parseFloat(value.toFixed(4)));
+
+// Converts a mass to milligrams so that '1g' and '1000mg' compare equal.
+const normalizeStrengthUnit = (value: number, unit: string): string => {
+    switch (unit) {
+        case 'g':
+            return `${formatNumber(value * 1000)}mg`;
+        case 'mcg':
+        case 'µg':
+            return `${formatNumber(value / 1000)}mg`;
+        default:
+            return `${formatNumber(value)}${unit}`;
+    }
+};
+
+const normalizeIngredient = (name: string) => INGREDIENT_SYNONYMS.get(name) ?? name;
+
+// Finds the brand in a name, preferring a listed variant ("pan d") to the plain brand ("pan").
+const findBrand = (words: string[]): { brand: string; ingredients?: string[] } | undefined => {
+    for (let i = 0; i < words.length; i++) {
+        const variant = `${words[i]} ${words[i + 1]}`;
+        if (BRANDS.has(variant)) return { brand: variant, ingredients: BRANDS.get(variant) };
+        if (BRANDS.has(words[i])) {
+            const next = words[i + 1];
+            return next && isVariantWord(next) ? { brand: `${words[i]} ${next}` } : { brand: words[i], ingredients: BRANDS.get(words[i]) };
+        }
+    }
+    return undefined;
+};
+
+const formatPackSize = (packSize: PackSize) =>
+    packSize.unit === 'unit' ? `${packSize.quantity}'s` : `${formatNumber(packSize.quantity)}${packSize.unit}`;
+
+/**
+ * Returns the canonical ID migration 8 gave a medicine name.
+ * @param name The medicine name.
+ */
+export const getCanonicalMedicineIdV8 = (name: string): string => {
+    const cleaned = name
+        .toLowerCase()
+        .replace(/[^a-z0-9.+&/%'µ]+/g, ' ')
+        // Keep decimal points ("2.5mg") but drop abbreviation dots ("Tab.").
+        .replace(/\.(?!\d)|(?<!\d)\./g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    let text = ` ${cleaned} `;
+    const strengths: string[] = [];
+    let form: DosageForm | undefined;
+    let packSize: PackSize | undefined;
+
+    // Combination strengths written as "500/125 mg" or "500mg/125mg".
+    text = text.replace(/(\d+(?:\.\d+)?)\s*(mg|mcg|g)?\s*\/\s*(\d+(?:\.\d+)?)\s*(mg|mcg|g)\b/g, (_, a, unitA, b, unitB) => {
+        strengths.push(normalizeStrengthUnit(parseFloat(a), unitA || unitB), normalizeStrengthUnit(parseFloat(b), unitB));
+        return ' ';
+    });
+
+    // Pack sizes: "strip of 10", "10's", "1x15", "15 tablets".
+    text = text.replace(/\b(?:strip|pack|box|bottle)\s+of\s+(\d+)\b/g, (_, count) => {
+        packSize = { quantity: parseInt(count, 10), unit: 'unit' };
+        return ' ';
+    });
+    text = text.replace(/\b(\d+)\s*'s\b/g, (_, count) => {
+        packSize = { quantity: parseInt(count, 10), unit: 'unit' };
+        return ' ';
+    });
+    text = text.replace(/\b(\d+)\s*x\s*(\d+)\b/g, (_, a, b) => {
+        packSize = { quantity: parseInt(a, 10) * parseInt(b, 10), unit: 'unit' };
+        return ' ';
+    });
+    // Only plural words count units; "650 tab" is a strength followed by a form.
+    text = text.replace(/\b(\d+)\s*(tablets|tabs|capsules|caps|sachets)\b/g, (_, count, word) => {
+        packSize = { quantity: parseInt(count, 10), unit: 'unit' };
+        form = FORM_ALIASES.get(word);
+        return ' ';
+    });
+
+    // Strengths, including concentrations such as "125mg/5ml".
+    text = text.replace(/(\d+(?:\.\d+)?)\s*(mg|mcg|µg|iu|%)(?:\s*\/\s*(\d+(?:\.\d+)?)?\s*(ml|g))?\b/g, (_, value, unit, per, perUnit) => {
+        const strength = normalizeStrengthUnit(parseFloat(value), unit);
+        strengths.push(perUnit ? `${strength}/${per ? formatNumber(parseFloat(per)) : '1'}${perUnit}` : strength);
+        return ' ';
+    });
+
+    // Dosage form words.
+    text = text.replace(/[a-z]+/g, word => {
+        const wordForm = FORM_ALIASES.get(word);
+        if (wordForm) {
+            form = form || wordForm;
+            return ' ';
+        }
+        return word;
+    });
+
+    // Volumes and weights left over describe the pack ("100ml" syrup, "20g" cream),
+    // except a bare gram amount on a solid form, which is a strength ("1g" tablet).
+    text = text.replace(/(\d+(?:\.\d+)?)\s*(ml|g)\b/g, (_, value, unit) => {
+        if (unit === 'g' && !(form && TOPICAL_FORMS.includes(form))) {
+            strengths.push(normalizeStrengthUnit(parseFloat(value), 'g'));
+        } else {
+            packSize = { quantity: parseFloat(value), unit };
+        }
+        return ' ';
+    });
+
+    // A bare number after a brand ("Dolo 650") is a strength in mg.
+    if (strengths.length === 0) {
+        text = text.replace(/\b(\d+(?:\.\d+)?)\b/, (_, value) => {
+            strengths.push(normalizeStrengthUnit(parseFloat(value), 'mg'));
+            return ' ';
+        });
+    }
+
+    const nameText = text
+        .replace(/\d+(?:\.\d+)?/g, ' ')
+        .split(/\s+/)
+        .filter(word => word && !NOISE_WORDS.has(word))
+        .join(' ');
+
+    let brand: string | undefined;
+    let activeIngredients: string[];
+    const brandMatch = findBrand(nameText.split(' '));
+    if (brandMatch) {
+        brand = brandMatch.brand;
+        // An unlisted variant is its own "ingredient", like any other unknown name.
+        activeIngredients = brandMatch.ingredients ? [...brandMatch.ingredients] : [brandMatch.brand];
+    } else {
+        activeIngredients = nameText
+            .split(/\s*[+&]\s*/)
+            .map(part => normalizeIngredient(part.trim()))
+            .filter(Boolean);
+    }
+    activeIngredients.sort();
+    if (activeIngredients.length === 0) {
+        activeIngredients = [name.trim().toLowerCase()];
+    }
+
+    if (!form && strengths.length > 0 && strengths.every(s => s.endsWith('mg'))) {
+        // A plain mass strength with no form given is, in practice, a tablet.
+        form = 'tablet';
+    } else if (!form && packSize?.unit === 'ml') {
+        form = 'syrup';
+    }
+    if (packSize && form && packSize.unit === 'unit' && !COUNTABLE_FORMS.includes(form)) {
+        packSize = undefined;
+    }
+
+    const strength = strengths.length > 0 ? strengths.join('+') : undefined;
+    return [brand || '', activeIngredients.join('+'), strength || '', form || '', packSize ? formatPackSize(packSize) : ''].join('|');
+};
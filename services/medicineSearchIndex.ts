@@ -0,0 +1,124 @@
+// --- Local fuzzy search over stocked medicine names ---
+// An in-memory trigram index with an edit-distance re-ranking step. It lets typos such as
+// "paracetmol" resolve against what pharmacies actually stock, without a network round-trip.
+
+export interface MedicineSearchMatch {
+    /** The matched name, as it should be shown and searched for. */
+    name: string;
+    /** Similarity between 0 and 1, where 1 is an exact match. */
+    score: number;
+}
+
+export interface MedicineSearchIndex {
+    readonly size: number;
+    search(query: string, limit?: number): MedicineSearchMatch[];
+}
+
+// Candidates sharing fewer trigrams than this (as a Dice coefficient) are not scored at all.
+const MIN_TRIGRAM_SIMILARITY = 0.2;
+// Matches scoring below this are too far off to be offered to the user.
+const MIN_SCORE = 0.5;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const trigramsOf = (text: string): Set<string> => {
+    const padded = `  ${text} `;
+    const grams = new Set<string>();
+    for (let i = 0; i < padded.length - 2; i++) {
+        grams.add(padded.slice(i, i + 3));
+    }
+    return grams;
+};
+
+// Damerau-Levenshtein distance (optimal string alignment), so a swapped pair of letters costs 1.
+const editDistance = (a: string, b: string): number => {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+};
+
+const editSimilarity = (a: string, b: string) => {
+    const longest = Math.max(a.length, b.length);
+    return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+};
+
+/**
+ * Builds a fuzzy search index over a list of medicine names.
+ * Names that only differ in case or punctuation are indexed once (the first spelling wins).
+ * @param names The names to index.
+ * @returns An index whose `search` returns matches ranked by score, best first.
+ */
+export const createMedicineSearchIndex = (names: string[]): MedicineSearchIndex => {
+    const terms: { name: string; normalized: string; grams: Set<string> }[] = [];
+    const seen = new Set<string>();
+    const postings = new Map<string, number[]>();
+
+    names.forEach(name => {
+        const normalized = normalize(name);
+        if (!normalized || seen.has(normalized)) return;
+        seen.add(normalized);
+        const grams = trigramsOf(normalized);
+        const termIndex = terms.push({ name, normalized, grams }) - 1;
+        grams.forEach(gram => {
+            const list = postings.get(gram);
+            if (list) {
+                list.push(termIndex);
+            } else {
+                postings.set(gram, [termIndex]);
+            }
+        });
+    });
+
+    const search = (query: string, limit = 5): MedicineSearchMatch[] => {
+        const normalizedQuery = normalize(query);
+        if (!normalizedQuery) return [];
+        const queryGrams = trigramsOf(normalizedQuery);
+        const queryWordCount = normalizedQuery.split(' ').length;
+
+        const sharedCounts = new Map<number, number>();
+        queryGrams.forEach(gram => {
+            postings.get(gram)?.forEach(termIndex => {
+                sharedCounts.set(termIndex, (sharedCounts.get(termIndex) || 0) + 1);
+            });
+        });
+
+        const matches: MedicineSearchMatch[] = [];
+        sharedCounts.forEach((shared, termIndex) => {
+            const term = terms[termIndex];
+            const dice = (2 * shared) / (queryGrams.size + term.grams.size);
+            if (dice < MIN_TRIGRAM_SIMILARITY) return;
+
+            // Compare against the whole name and against its leading words, so that
+            // "paracetmol" still scores well against "Paracetamol 650mg".
+            const leadingWords = term.normalized.split(' ').slice(0, queryWordCount).join(' ');
+            const similarity = Math.max(editSimilarity(normalizedQuery, term.normalized), 0.9 * editSimilarity(normalizedQuery, leadingWords));
+            let score = 0.4 * dice + 0.6 * similarity;
+
+            if (term.normalized === normalizedQuery) {
+                score = 1;
+            } else if (term.normalized.startsWith(normalizedQuery)) {
+                // Typing the start of a name is a strong signal, especially for autocomplete.
+                score = Math.max(score, 0.8 + 0.15 * (normalizedQuery.length / term.normalized.length));
+            }
+
+            if (score >= MIN_SCORE) {
+                matches.push({ name: term.name, score: parseFloat(score.toFixed(3)) });
+            }
+        });
+
+        return matches
+            .sort((a, b) => b.score - a.score || a.name.length - b.name.length || a.name.localeCompare(b.name))
+            .slice(0, limit);
+    };
+
+    return { size: terms.length, search };
+};
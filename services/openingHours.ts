@@ -0,0 +1,178 @@
+import type { DailyHours, OpeningHours } from '../types';
+
+// --- Opening hours ---
+// Owners record weekly hours, or "open 24x7", plus overrides for individual dates such as
+// public holidays. Times are the pharmacy's local time, which is assumed to be the same as
+// the device's. Hours that close at or before they open run past midnight, so "20:00"-"02:00"
+// is a night shift and "00:00"-"00:00" is open all day.
+
+const MINUTES_PER_DAY = 24 * 60;
+// How far ahead to look for the next opening or closing time.
+const LOOKAHEAD_DAYS = 7;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ALL_DAY: DailyHours = { open: '00:00', close: '00:00' };
+
+/**
+ * The hours suggested to owners at registration: 9 AM to 9 PM every day.
+ */
+export const createDefaultOpeningHours = (): OpeningHours => ({
+    alwaysOpen: false,
+    weekly: WEEKDAY_LABELS.map(() => ({ open: '09:00', close: '21:00' })),
+    holidays: [],
+});
+
+/**
+ * Parses an "HH:MM" time.
+ * @returns Minutes since midnight, or NaN if the time is not valid.
+ */
+const parseTime = (time: string): number => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+    if (!match) return NaN;
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : NaN;
+};
+
+/**
+ * Formats a time for display, e.g. "10 PM" or "9:30 AM".
+ * @param date The time to format.
+ */
+const formatTime = (date: Date): string => {
+    const hours = date.getHours();
+    const minutes = date.getMinutes();
+    const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+    return `${hour12}${minutes > 0 ? `:${String(minutes).padStart(2, '0')}` : ''} ${hours < 12 ? 'AM' : 'PM'}`;
+};
+
+const toDateKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const getHoursForDate = (hours: OpeningHours, date: Date): DailyHours | null => {
+    const holiday = hours.holidays.find(h => h.date === toDateKey(date));
+    if (holiday) return holiday.hours;
+    return hours.alwaysOpen ? ALL_DAY : hours.weekly[date.getDay()] ?? null;
+};
+
+interface OpenInterval {
+    start: number;
+    end: number;
+}
+
+// The opening intervals from the day before `now` (whose night shift may still be running)
+// up to LOOKAHEAD_DAYS ahead, in order, with back-to-back intervals joined together.
+const getOpenIntervals = (hours: OpeningHours, now: number): OpenInterval[] => {
+    const today = new Date(now);
+    const intervals: OpenInterval[] = [];
+    for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+        const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+        const dayHours = getHoursForDate(hours, day);
+        if (!dayHours) continue;
+        const open = parseTime(dayHours.open);
+        const close = parseTime(dayHours.close);
+        if (isNaN(open) || isNaN(close)) continue;
+        const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, open).getTime();
+        const length = close > open ? close - open : close - open + MINUTES_PER_DAY;
+        const end = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, open + length).getTime();
+
+        const previous = intervals[intervals.length - 1];
+        if (previous && start <= previous.end) {
+            previous.end = Math.max(previous.end, end);
+        } else {
+            intervals.push({ start, end });
+        }
+    }
+    return intervals;
+};
+
+export interface OpeningStatus {
+    isOpen: boolean;
+    /** e.g. "Open until 10 PM", "Closed, opens 9 AM" or "Open 24 hours". */
+    label: string;
+}
+
+const describeDay = (date: Date, now: Date): string => {
+    const days = Math.round(
+        (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+            - new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) / (MINUTES_PER_DAY * 60 * 1000)
+    );
+    if (days === 0) return '';
+    if (days === 1) return 'tomorrow ';
+    return `${WEEKDAY_NAMES[date.getDay()]} `;
+};
+
+/**
+ * Works out whether a pharmacy is open and when that changes.
+ * @param hours The pharmacy's opening hours.
+ * @param now The time to check, as a Unix timestamp in milliseconds.
+ * @returns Whether it is open and a short description for customers.
+ */
+export const getOpeningStatus = (hours: OpeningHours, now = Date.now()): OpeningStatus => {
+    const intervals = getOpenIntervals(hours, now);
+    const current = intervals.find(i => i.start <= now && now < i.end);
+    const nowDate = new Date(now);
+
+    if (current) {
+        // Open for the whole lookahead, e.g. 24x7 with no holidays coming up.
+        if (current === intervals[intervals.length - 1] && current.end - now >= LOOKAHEAD_DAYS * MINUTES_PER_DAY * 60 * 1000) {
+            return { isOpen: true, label: 'Open 24 hours' };
+        }
+        const closesAt = new Date(current.end);
+        if (closesAt.getHours() === 0 && closesAt.getMinutes() === 0) {
+            // Closing at 00:00 is the end of the day before, e.g. "Open until midnight".
+            const lastDay = new Date(current.end - 1);
+            return { isOpen: true, label: `Open until ${describeDay(lastDay, nowDate)}midnight` };
+        }
+        const closesNextDay = describeDay(closesAt, nowDate);
+        // Closing in the small hours of tomorrow reads naturally as "until 2 AM".
+        const label = closesNextDay === 'tomorrow ' && closesAt.getHours() < 12 ? '' : closesNextDay;
+        return { isOpen: true, label: `Open until ${label}${formatTime(closesAt)}` };
+    }
+
+    const next = intervals.find(i => i.start > now);
+    if (!next) {
+        return { isOpen: false, label: 'Closed' };
+    }
+    const opensAt = new Date(next.start);
+    return { isOpen: false, label: `Closed, opens ${describeDay(opensAt, nowDate)}${formatTime(opensAt)}` };
+};
+
+/**
+ * Whether a pharmacy is open at the given time.
+ */
+export const isOpenAt = (hours: OpeningHours, now = Date.now()): boolean => getOpeningStatus(hours, now).isOpen;
+
+/**
+ * Checks opening hours entered by an owner.
+ * @param hours The hours to check.
+ * @returns A message describing the first problem found, or null if the hours are valid.
+ */
+export const validateOpeningHours = (hours: OpeningHours): string | null => {
+    const isValid = (dayHours: DailyHours | null) =>
+        dayHours === null || (!isNaN(parseTime(dayHours.open)) && !isNaN(parseTime(dayHours.close)));
+
+    if (hours.weekly.length !== 7) {
+        return 'Opening hours must cover all seven days of the week.';
+    }
+    if (!hours.alwaysOpen) {
+        const invalidDay = hours.weekly.findIndex(dayHours => !isValid(dayHours));
+        if (invalidDay > -1) {
+            return `Enter both an opening and a closing time for ${WEEKDAY_LABELS[invalidDay]}.`;
+        }
+    }
+    const seenDates = new Set<string>();
+    for (const holiday of hours.holidays) {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(holiday.date)) {
+            return 'Choose a date for every holiday.';
+        }
+        if (seenDates.has(holiday.date)) {
+            return `${holiday.date} is listed more than once.`;
+        }
+        seenDates.add(holiday.date);
+        if (!isValid(holiday.hours)) {
+            return `Enter both an opening and a closing time for ${holiday.date}.`;
+        }
+    }
+    return null;
+};
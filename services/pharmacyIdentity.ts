@@ -0,0 +1,94 @@
+import { haversineDistance } from './spatialIndex';
+import type { GeoPoint } from './spatialIndex';
+
+// --- Pharmacy identity ---
+// Chains have many branches with the same name, so a name alone doesn't identify a pharmacy.
+// Two registrations are the same pharmacy when their names match and they are at the same
+// spot, or a little further apart (geocoding is imprecise) but share a phone number.
+// Looser matches are only reported as possible duplicates, for a person to review and merge.
+
+export interface PharmacyIdentity extends GeoPoint {
+    name: string;
+    phone: string;
+}
+
+export type DuplicateReason = 'similarName' | 'nearby' | 'samePhone';
+
+// Registrations this close together with matching names are the same pharmacy.
+export const SAME_PHARMACY_RADIUS_KM = 0.15;
+// With matching names and phone numbers, allow for addresses geocoded a little apart.
+const SAME_PHONE_RADIUS_KM = 2;
+// Pharmacies this close together are worth a look if they also share a name or phone number.
+export const DUPLICATE_CANDIDATE_RADIUS_KM = 0.5;
+
+// Words that say what kind of shop it is rather than which one.
+const GENERIC_NAME_WORDS = new Set([
+    'the', 'and', 'pharmacy', 'pharmacies', 'pharma', 'medical', 'medicals', 'medicine', 'medicines',
+    'store', 'stores', 'chemist', 'chemists', 'drug', 'drugs', 'druggist', 'druggists', 'shop',
+]);
+
+const getNameWords = (name: string): string[] =>
+    name.toLowerCase().replace(/&/g, ' ').replace(/[^a-z0-9\s]/g, '').split(/\s+/).filter(Boolean);
+
+/**
+ * Reduces a pharmacy name to the words that identify it, e.g. "Apollo Pharmacy" and
+ * "APOLLO PHARMACY." both become "apollo".
+ */
+export const normalizePharmacyName = (name: string): string => {
+    const words = getNameWords(name);
+    const distinctive = words.filter(word => !GENERIC_NAME_WORDS.has(word));
+    // "Medical Store" on its own is still a name.
+    return (distinctive.length > 0 ? distinctive : words).join(' ');
+};
+
+/**
+ * Reduces a phone number to its last 10 digits, dropping spaces, dashes and the country code.
+ */
+export const normalizePhone = (phone: string): string => phone.replace(/\D/g, '').slice(-10);
+
+const namesMatch = (a: string, b: string) => {
+    const normalizedA = normalizePharmacyName(a);
+    return normalizedA !== '' && normalizedA === normalizePharmacyName(b);
+};
+
+// One name's distinctive words are all in the other's, e.g. "Apollo" and "Apollo Jayanagar".
+const namesSimilar = (a: string, b: string) => {
+    const wordsA = normalizePharmacyName(a).split(' ').filter(Boolean);
+    const wordsB = normalizePharmacyName(b).split(' ').filter(Boolean);
+    if (wordsA.length === 0 || wordsB.length === 0) return false;
+    const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, new Set(wordsB)] : [wordsB, new Set(wordsA)];
+    return shorter.every(word => longer.has(word));
+};
+
+const phonesMatch = (a: string, b: string) => {
+    const normalizedA = normalizePhone(a);
+    return normalizedA.length === 10 && normalizedA === normalizePhone(b);
+};
+
+/**
+ * Whether two registrations are the same pharmacy, e.g. an owner registering again.
+ */
+export const isSamePharmacy = (a: PharmacyIdentity, b: PharmacyIdentity): boolean => {
+    if (!namesMatch(a.name, b.name)) return false;
+    const distanceKm = haversineDistance(a, b);
+    return distanceKm <= SAME_PHARMACY_RADIUS_KM || (phonesMatch(a.phone, b.phone) && distanceKm <= SAME_PHONE_RADIUS_KM);
+};
+
+/**
+ * Lists what two pharmacies have in common that suggests they are one pharmacy registered twice.
+ * @returns The reasons, or an empty array when fewer than two point that way.
+ */
+export const getDuplicateReasons = (a: PharmacyIdentity, b: PharmacyIdentity): DuplicateReason[] => {
+    const reasons: DuplicateReason[] = [];
+    if (namesSimilar(a.name, b.name)) reasons.push('similarName');
+    if (haversineDistance(a, b) <= DUPLICATE_CANDIDATE_RADIUS_KM) reasons.push('nearby');
+    if (phonesMatch(a.phone, b.phone)) reasons.push('samePhone');
+    return reasons.length >= 2 ? reasons : [];
+};
+
+/**
+ * Whether an owner may merge a reported duplicate into their pharmacy. A similar name nearby
+ * is also what another branch of the same chain looks like, so only a shared phone number
+ * shows it is the owner's own listing; other pairs are only reported.
+ */
+export const canMergeDuplicate = (reasons: DuplicateReason[]): boolean => reasons.includes('samePhone');
@@ -0,0 +1,55 @@
+import type { PharmacyId } from '../types';
+
+// --- Pharmacy identifiers ---
+// Pharmacies used to get the next number after the highest one in the database, so two tabs
+// or devices registering at the same time could mint the same ID. New pharmacies now get a
+// ULID: a timestamp followed by random characters, unique without asking anyone else.
+// IDs written before this change are renamed to `legacy-<number>`. The rename is worked out
+// from the old number alone, so the shared database and each device's own localStorage keys
+// (saved owners, legacy inventories) arrive at the same ID without sharing a lookup table.
+
+// Crockford's base 32, as used by ULIDs: no I, L, O or U to misread.
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ULID_TIME_LENGTH = 10;
+const ULID_RANDOM_LENGTH = 16;
+const LEGACY_ID_PREFIX = 'legacy-';
+
+const encodeTime = (time: number): string => {
+    let encoded = '';
+    for (let i = 0; i < ULID_TIME_LENGTH; i++) {
+        encoded = ULID_ALPHABET[time % 32] + encoded;
+        time = Math.floor(time / 32);
+    }
+    return encoded;
+};
+
+const encodeRandom = (): string => {
+    const bytes = new Uint8Array(ULID_RANDOM_LENGTH);
+    crypto.getRandomValues(bytes);
+    // 256 is a multiple of 32, so every character is equally likely.
+    return Array.from(bytes, byte => ULID_ALPHABET[byte % 32]).join('');
+};
+
+/**
+ * Mints a ULID for any record that needs an ID unique across tabs and devices.
+ * @param now The creation time, which IDs sort by.
+ * @returns A 26-character ULID.
+ */
+export const createUlid = (now = Date.now()): string => encodeTime(now) + encodeRandom();
+
+/**
+ * Mints an ID for a newly registered pharmacy.
+ * @param now The registration time, which IDs sort by.
+ * @returns A 26-character ULID.
+ */
+export const createPharmacyId = (now = Date.now()): PharmacyId => createUlid(now);
+
+/**
+ * Converts a stored pharmacy ID to the current format.
+ * Numeric IDs from older versions (stored as numbers, or as strings in localStorage keys)
+ * always map to the same ID; IDs already in the current format are returned unchanged.
+ * @param id The stored ID.
+ * @returns The pharmacy ID.
+ */
+export const toPharmacyId = (id: number | string): PharmacyId =>
+    typeof id === 'number' || /^\d+$/.test(id) ? `${LEGACY_ID_PREFIX}${Number(id)}` : id;
@@ -0,0 +1,209 @@
+// --- Storage backends for the pharmacy database ---
+// The pharmacy service keeps its whole database as a single serialized JSON document.
+// A repository only knows how to read and write that document, so the same service
+// logic works on top of localStorage, IndexedDB or a shared HTTP backend.
+// Every service call reads the whole document, changes it and writes it back. Each document
+// carries a revision, and a save is refused if the stored document is no longer the one it
+// was read from, so two tabs or two clients never silently overwrite each other's changes.
+
+export interface DocumentRevision {
+    /** The revision of the document being saved. */
+    current: string;
+    /**
+     * The revision of the document it was read from, or null if that had none (or nothing was stored).
+     * Leave it out to replace whatever is stored, e.g. when restoring a backup.
+     */
+    previous?: string | null;
+}
+
+export const SAVE_CONFLICT_MESSAGE = 'The pharmacy data was changed in another tab or by another user. Your change was not saved; please try again.';
+
+export interface PharmacyRepository {
+    /** A short label for logs and diagnostics, e.g. 'localStorage'. */
+    readonly name: string;
+    /** Reads the serialized database, or null if nothing has been stored yet. */
+    load(): Promise<string | null>;
+    /**
+     * Persists the serialized database, replacing whatever was stored before.
+     * @param revision The revisions to check; without it the save is unconditional.
+     * @throws An error with SAVE_CONFLICT_MESSAGE if the stored revision is not `revision.previous`.
+     */
+    save(data: string, revision?: DocumentRevision): Promise<void>;
+}
+
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'http';
+
+export interface RepositoryConfig {
+    backend?: string;
+    apiUrl?: string;
+}
+
+/**
+ * Creates a repository backed by the browser's localStorage.
+ * Data stays on this device and is not shared between browsers.
+ * @param key The localStorage key holding the database.
+ */
+export const createLocalStorageRepository = (key: string): PharmacyRepository => {
+    // Kept next to the document so it can be checked without parsing it.
+    const revisionKey = `${key}_revision`;
+    return {
+        name: 'localStorage',
+        load: async () => localStorage.getItem(key),
+        save: async (data: string, revision?: DocumentRevision) => {
+            if (revision?.previous !== undefined && localStorage.getItem(revisionKey) !== revision.previous) {
+                throw new Error(SAVE_CONFLICT_MESSAGE);
+            }
+            localStorage.setItem(key, data);
+            if (revision) {
+                localStorage.setItem(revisionKey, revision.current);
+            } else {
+                localStorage.removeItem(revisionKey);
+            }
+        },
+    };
+};
+
+const IDB_STORE_NAME = 'documents';
+
+const openIndexedDb = (dbName: string): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(IDB_STORE_NAME)) {
+                request.result.createObjectStore(IDB_STORE_NAME);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Creates a repository backed by IndexedDB.
+ * Unlike localStorage it is not limited to a few megabytes, which matters once
+ * thousands of pharmacies and their inventories are stored locally.
+ * @param dbName The IndexedDB database name.
+ * @param key The record key holding the database document.
+ */
+export const createIndexedDbRepository = (dbName: string, key: string): PharmacyRepository => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const getConnection = () => {
+        if (!dbPromise) {
+            dbPromise = openIndexedDb(dbName);
+        }
+        return dbPromise;
+    };
+
+    return {
+        name: 'indexedDB',
+        load: async () => {
+            const db = await getConnection();
+            return new Promise<string | null>((resolve, reject) => {
+                const request = db.transaction(IDB_STORE_NAME, 'readonly').objectStore(IDB_STORE_NAME).get(key);
+                request.onsuccess = () => resolve(typeof request.result === 'string' ? request.result : null);
+                request.onerror = () => reject(request.error);
+            });
+        },
+        save: async (data: string, revision?: DocumentRevision) => {
+            const db = await getConnection();
+            const revisionKey = `${key}:revision`;
+            await new Promise<void>((resolve, reject) => {
+                const transaction = db.transaction(IDB_STORE_NAME, 'readwrite');
+                const store = transaction.objectStore(IDB_STORE_NAME);
+                let isConflict = false;
+                // The revision is checked and written in the same transaction, so no other save can come between.
+                const request = store.get(revisionKey);
+                request.onsuccess = () => {
+                    if (revision?.previous !== undefined && (request.result ?? null) !== revision.previous) {
+                        isConflict = true;
+                        transaction.abort();
+                        return;
+                    }
+                    store.put(data, key);
+                    if (revision) {
+                        store.put(revision.current, revisionKey);
+                    } else {
+                        store.delete(revisionKey);
+                    }
+                };
+                transaction.oncomplete = () => resolve();
+                transaction.onerror = () => reject(transaction.error);
+                transaction.onabort = () => reject(isConflict ? new Error(SAVE_CONFLICT_MESSAGE) : transaction.error);
+            });
+        },
+    };
+};
+
+// The entity tag of a document is its quoted revision; "" for a document without one.
+const toEntityTag = (revision: string | null) => JSON.stringify(revision ?? '');
+
+/**
+ * Creates a repository backed by a remote HTTP server, so every user sees the same data.
+ * The server must answer `GET {baseUrl}/database` with the stored document (404 or 204 when empty)
+ * and accept `PUT {baseUrl}/database` with the new document as a JSON body. A PUT with an
+ * `If-Match` header must be refused with 412 unless it matches the quoted `revision` of the
+ * stored document ("" if it has none or nothing is stored).
+ * See `scripts/pharmacyServer.mjs` for a minimal stand-in implementation.
+ * @param baseUrl The server's base URL, e.g. 'http://localhost:4000/api'.
+ */
+export const createHttpRepository = (baseUrl: string): PharmacyRepository => {
+    const url = `${baseUrl.replace(/\/+$/, '')}/database`;
+    return {
+        name: 'http',
+        load: async () => {
+            const response = await fetch(url, { headers: { Accept: 'application/json' } });
+            if (response.status === 404 || response.status === 204) {
+                return null;
+            }
+            if (!response.ok) {
+                throw new Error(`Could not load the pharmacy database (HTTP ${response.status}).`);
+            }
+            return response.text();
+        },
+        save: async (data: string, revision?: DocumentRevision) => {
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (revision?.previous !== undefined) {
+                headers['If-Match'] = toEntityTag(revision.previous);
+            }
+            const response = await fetch(url, { method: 'PUT', headers, body: data });
+            if (response.status === 412) {
+                throw new Error(SAVE_CONFLICT_MESSAGE);
+            }
+            if (!response.ok) {
+                throw new Error(`Could not save the pharmacy database (HTTP ${response.status}).`);
+            }
+        },
+    };
+};
+
+const DEFAULT_STORAGE_KEY = 'appDatabase';
+
+/**
+ * Builds the repository selected by the app configuration.
+ * Falls back to localStorage when the backend is missing or unknown,
+ * or when IndexedDB is requested but not supported by the browser.
+ * @param config The configured backend name and, for 'http', the server URL.
+ * @returns The repository to hand to the pharmacy service.
+ */
+export const createPharmacyRepository = (config: RepositoryConfig): PharmacyRepository => {
+    const backend = (config.backend || 'localStorage') as StorageBackend;
+    switch (backend) {
+        case 'indexedDB':
+            if (typeof indexedDB !== 'undefined') {
+                return createIndexedDbRepository('medifinder', DEFAULT_STORAGE_KEY);
+            }
+            console.warn("IndexedDB is not available in this browser. Falling back to localStorage.");
+            break;
+        case 'http':
+            if (config.apiUrl) {
+                return createHttpRepository(config.apiUrl);
+            }
+            console.warn("The 'http' storage backend needs PHARMACY_API_URL to be set. Falling back to localStorage.");
+            break;
+        case 'localStorage':
+            break;
+        default:
+            console.warn(`Unknown storage backend '${config.backend}'. Falling back to localStorage.`);
+    }
+    return createLocalStorageRepository(DEFAULT_STORAGE_KEY);
+};
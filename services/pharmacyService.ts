@@ -1,104 +1,612 @@
 
 import { StockStatus } from '../types';
-import type { Pharmacy, InventoryItem, PharmacyOwner } from '../types';
+import type { Pharmacy, PharmacyId, InventoryItem, PharmacyOwner, OpeningHours, PackSize, PricePoint, BestOptionWeights, BasketLine, BasketStop, BasketOption, BasketSearchResult, OpenPharmacy } from '../types';
+import { createPharmacyRepository } from './pharmacyRepository';
+import type { PharmacyRepository } from './pharmacyRepository';
+import { CURRENT_SCHEMA_VERSION, createEmptyDatabase, migrateDatabase } from './databaseSchema';
+import type { AppDatabase, AuditLogEntry, BasePharmacy, GlobalInventory, GlobalInventoryEntry, InventorySnapshot, PriceHistory, PriceHistoryEntry } from './databaseSchema';
+import { getCanonicalMedicineId, isMedicineMatch, parseMedicineName, scoreMedicineMatch } from './medicineCatalog';
+import { createMedicineSearchIndex } from './medicineSearchIndex';
+import type { MedicineSearchIndex, MedicineSearchMatch } from './medicineSearchIndex';
+import { createSpatialIndex, haversineDistance } from './spatialIndex';
+import type { SpatialIndex } from './spatialIndex';
+import { scoreCandidates, DEFAULT_BEST_OPTION_WEIGHTS } from './bestOptionScoring';
+import { getEffectiveStockStatus } from './stockFreshness';
+import { isInStock } from './stockLevels';
+import { getOpeningStatus, isOpenAt, validateOpeningHours } from './openingHours';
+import { getDefaultPriceUnit, getUnitPrice } from './unitPricing';
+import { DUPLICATE_CANDIDATE_RADIUS_KM, getDuplicateReasons, isSamePharmacy, normalizePhone } from './pharmacyIdentity';
+import type { DuplicateReason } from './pharmacyIdentity';
+import { createPharmacyId, createUlid } from './pharmacyIds';
+import { findPriceAnomalies, median } from './priceAnomalies';
+import { DEFAULT_CHANGE_AUTHOR, findRestorableDeletions, findUndoableChanges, isSameSnapshot, recordInventoryChange, toSnapshot, trimAuditLog } from './inventoryAudit';
+import type { ChangeAuthor } from './inventoryAudit';
 
-// --- Start of Local Storage Database Logic ---
-// This implementation uses the browser's localStorage.
-// It is fast and works offline, but data is not shared between different users/browsers.
-// The previous remote database implementation was causing network errors.
-// This local version ensures the application remains stable and functional.
+// --- Start of Database Logic ---
+// The whole database is stored as one JSON document in a pluggable repository
+// (localStorage by default, or IndexedDB / a shared HTTP server, chosen at startup).
+// The service functions below only ever go through getDb()/saveDb(), so they work
+// the same way regardless of where the data actually lives.
+// Documents are versioned; see databaseSchema.ts for the schema and its migrations.
 
-const DB_KEY = 'appDatabase';
+const CORRUPT_BACKUP_KEY = 'appDatabase_corruptBackup';
 
-// Storing only the core, non-runtime properties of a pharmacy.
-type BasePharmacy = Omit<Pharmacy, 'distance' | 'price' | 'priceUnit' | 'stock' | 'isBestOption' | 'alternative'>;
-
-interface GlobalInventory {
-  [medicineName: string]: {
-    pharmacyId: number;
-    price: number;
-    stock: StockStatus;
-  }[];
+export interface DatabaseRecoveryStatus {
+    reason: string;
+    /** localStorage key holding a copy of the unreadable document, if one could be saved. */
+    backupKey: string | null;
+    detectedAt: number;
 }
 
-interface AppDatabase {
-    globalInventory: GlobalInventory;
-    dynamicPharmacies: BasePharmacy[];
-}
+let repository: PharmacyRepository = createPharmacyRepository({});
+
+// Set while the stored database cannot be read. Writes are refused in this state,
+// so that an empty fallback database never overwrites data that might still be recoverable.
+let recoveryStatus: DatabaseRecoveryStatus | null = null;
+
+/**
+ * Replaces the storage backend used by every service function.
+ * Call this once at startup, before the first read.
+ * @param newRepository The repository to read from and write to.
+ */
+export const setPharmacyRepository = (newRepository: PharmacyRepository) => {
+    repository = newRepository;
+    recoveryStatus = null;
+};
 
-// Helper to get the database from localStorage
-const getDb = (): AppDatabase => {
+// Keeps a copy of an unreadable document so it can be inspected or repaired by hand.
+const backUpCorruptData = (data: string): string | null => {
     try {
-        const data = localStorage.getItem(DB_KEY);
-        if (data) {
-            return JSON.parse(data);
-        }
+        localStorage.setItem(CORRUPT_BACKUP_KEY, data);
+        return CORRUPT_BACKUP_KEY;
+    } catch (error) {
+        console.error("Could not back up the corrupt DB", error);
+        return null;
+    }
+};
+
+// Helper to get the database from the active repository, upgrading older schema versions.
+const getDb = async (): Promise<AppDatabase> => {
+    let data: string | null;
+    try {
+        data = await repository.load();
+    } catch (error) {
+        console.error(`Could not load DB from ${repository.name}`, error);
+        recoveryStatus = { reason: `The database could not be loaded from ${repository.name}.`, backupKey: null, detectedAt: Date.now() };
+        return createEmptyDatabase();
+    }
+
+    if (!data) {
+        recoveryStatus = null;
+        return createEmptyDatabase();
+    }
+
+    try {
+        const db = migrateDatabase(JSON.parse(data));
+        recoveryStatus = null;
+        return db;
     } catch (error) {
-        console.error("Could not parse DB from localStorage", error);
+        console.error(`Could not read DB from ${repository.name}`, error);
+        const reason = error instanceof SyntaxError
+            ? 'The stored database is corrupt and could not be read.'
+            : (error instanceof Error ? error.message : 'The stored database could not be read.');
+        recoveryStatus = { reason, backupKey: backUpCorruptData(data), detectedAt: Date.now() };
+        return createEmptyDatabase();
     }
-    // Return a default/empty DB if nothing is found or parsing fails
-    return { globalInventory: {}, dynamicPharmacies: [] };
 };
 
-// Helper to save the database to localStorage
-const saveDb = (db: AppDatabase) => {
+// Helper to save the database to the active repository, then tell listeners what changed.
+// Failures (a full quota, a server error, or a conflicting save elsewhere) are thrown to the caller.
+const saveDb = async (db: AppDatabase, changedPharmacyIds: PharmacyId[]) => {
+    if (recoveryStatus) {
+        throw new Error(`Changes were not saved: ${recoveryStatus.reason}`);
+    }
+    const revision = createUlid();
     try {
-        localStorage.setItem(DB_KEY, JSON.stringify(db));
+        await repository.save(
+            JSON.stringify({ ...db, schemaVersion: CURRENT_SCHEMA_VERSION, revision }),
+            { current: revision, previous: db.revision ?? null }
+        );
+    } catch (error) {
+        console.error(`Could not save DB to ${repository.name}`, error);
+        throw error;
+    }
+    db.revision = revision;
+    publishPharmacyChange(changedPharmacyIds);
+};
+
+// --- Change notifications ---
+// Every successful save is announced to listeners in this tab and, through a BroadcastChannel,
+// to other tabs and windows of the app in the same browser, whichever backend is in use.
+// Changes made on other devices through the HTTP backend are not announced.
+
+export interface PharmacyDataChange {
+    /** The pharmacies whose details, stock or prices changed. */
+    pharmacyIds: PharmacyId[];
+    /** True when the change was saved by another tab or window. */
+    fromOtherTab: boolean;
+}
+
+export type PharmacyChangeListener = (change: PharmacyDataChange) => void;
+
+const CHANGE_CHANNEL_NAME = 'pharmacyDataChanges';
+
+const changeListeners = new Set<PharmacyChangeListener>();
+// Open only while something in this tab is listening.
+let changeChannel: BroadcastChannel | null = null;
+
+const notifyChangeListeners = (change: PharmacyDataChange) => {
+    changeListeners.forEach(listener => {
+        try {
+            listener(change);
+        } catch (error) {
+            console.error("A pharmacy change listener failed", error);
+        }
+    });
+};
+
+const publishPharmacyChange = (pharmacyIds: PharmacyId[]) => {
+    if (pharmacyIds.length === 0) return;
+    notifyChangeListeners({ pharmacyIds, fromOtherTab: false });
+    if (typeof BroadcastChannel === 'undefined') return;
+    try {
+        if (changeChannel) {
+            changeChannel.postMessage({ pharmacyIds });
+        } else {
+            const channel = new BroadcastChannel(CHANGE_CHANNEL_NAME);
+            channel.postMessage({ pharmacyIds });
+            channel.close();
+        }
     } catch (error) {
-        console.error("Could not save DB to localStorage", error);
+        console.error("Could not announce the change to other tabs", error);
     }
 };
 
+/**
+ * Calls a listener whenever pharmacy data is saved, in this tab or another one.
+ * @param listener Receives the IDs of the pharmacies that changed.
+ * @returns A function that stops the listener.
+ */
+export const subscribeToPharmacyChanges = (listener: PharmacyChangeListener): (() => void) => {
+    changeListeners.add(listener);
+    if (!changeChannel && typeof BroadcastChannel !== 'undefined') {
+        changeChannel = new BroadcastChannel(CHANGE_CHANNEL_NAME);
+        changeChannel.onmessage = (event: MessageEvent) => {
+            const pharmacyIds = event.data?.pharmacyIds;
+            if (Array.isArray(pharmacyIds)) {
+                notifyChangeListeners({ pharmacyIds, fromOtherTab: true });
+            }
+        };
+    }
+    return () => {
+        changeListeners.delete(listener);
+        if (changeListeners.size === 0 && changeChannel) {
+            changeChannel.close();
+            changeChannel = null;
+        }
+    };
+};
+
+/**
+ * Reports whether the stored database could be read.
+ * @returns A promise that resolves to the recovery status, or null if the database is healthy.
+ */
+export const getDatabaseRecoveryStatus = async (): Promise<DatabaseRecoveryStatus | null> => {
+    await getDb();
+    return recoveryStatus;
+};
+
+/**
+ * Replaces an unreadable database with an empty one so the app can be used again.
+ * The unreadable document stays available under its backup key.
+ */
+export const resetCorruptDatabase = async () => {
+    const revision = createUlid();
+    await repository.save(JSON.stringify({ ...createEmptyDatabase(), revision }), { current: revision });
+    recoveryStatus = null;
+};
+
+/**
+ * Reads the whole database, e.g. to back it up.
+ * @returns A promise that resolves to the database.
+ * @throws If the stored database cannot be read, so an empty stand-in is never exported.
+ */
+export const exportDatabase = async (): Promise<AppDatabase> => {
+    const db = await getDb();
+    if (recoveryStatus) {
+        throw new Error(recoveryStatus.reason);
+    }
+    return db;
+};
+
+/**
+ * Replaces the whole database, e.g. to restore a backup.
+ * Unlike other changes this is allowed while the stored database is unreadable.
+ * @param db The database to store. Older schema versions are upgraded first.
+ * @param previousRevision The revision `db` was built from, e.g. when merging a backup into it, so
+ *   a change saved since is not overwritten; null if it was built from an empty database. Leave it
+ *   out to replace whatever is stored.
+ * @throws If the database is invalid, was changed since `previousRevision` or could not be saved.
+ */
+export const replaceDatabase = async (db: AppDatabase, previousRevision?: string | null) => {
+    const migrated = migrateDatabase(db);
+    const previous = await getDb();
+    const revision = createUlid();
+    await repository.save(
+        JSON.stringify({ ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION, revision }),
+        previousRevision === undefined ? { current: revision } : { current: revision, previous: previousRevision }
+    );
+    recoveryStatus = null;
+    // Pharmacies that were removed changed too.
+    const changedIds = new Set([...previous.dynamicPharmacies, ...migrated.dynamicPharmacies].map(p => p.id));
+    publishPharmacyChange(Array.from(changedIds));
+};
+
 // --- Service functions ---
-// All functions are async to maintain a consistent API,
-// making it easy to switch to a real remote database in the future.
+// All functions are async because the underlying repository may be remote.
+
+// Older points are dropped beyond this, per pharmacy and medicine.
+const MAX_PRICE_POINTS = 50;
+
+const recordPriceChange = (priceHistory: PriceHistory, canonicalId: string, pharmacyId: PharmacyId, price: number, changedAt: number, flagged: boolean) => {
+    const point: PriceHistoryEntry = { pharmacyId, price, changedAt, ...(flagged ? { flagged: true } : {}) };
+    const history = [...(priceHistory[canonicalId] || []), point];
+    const pointsForPharmacy = history.filter(point => point.pharmacyId === pharmacyId);
+    const excess = new Set(pointsForPharmacy.slice(0, Math.max(0, pointsForPharmacy.length - MAX_PRICE_POINTS)));
+    priceHistory[canonicalId] = history.filter(point => !excess.has(point));
+};
+
+/**
+ * Checks a new price against the same medicine at other pharmacies within DEFAULT_SEARCH_RADIUS_KM,
+ * and against what the pharmacy charged before. Prices that are themselves flagged aren't compared with,
+ * so correcting a mistyped price back isn't flagged in turn.
+ * @returns The reasons the price looks wrong; empty if it looks fine.
+ */
+const checkNewPrice = (db: AppDatabase, pharmacyId: PharmacyId, canonicalId: string, price: number): string[] => {
+    const pharmaciesById = new Map([...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies].map(p => [p.id, p]));
+    const pharmacy = pharmaciesById.get(pharmacyId);
+    const areaPrices = (db.globalInventory[canonicalId] || [])
+        .filter(entry => {
+            if (entry.pharmacyId === pharmacyId || entry.priceFlag || !(entry.price > 0)) return false;
+            const other = pharmaciesById.get(entry.pharmacyId);
+            return !!other && (!pharmacy || haversineDistance(pharmacy, other) <= DEFAULT_SEARCH_RADIUS_KM);
+        })
+        .map(entry => entry.price);
+    const previousPrices = (db.priceHistory[canonicalId] || [])
+        .filter(point => point.pharmacyId === pharmacyId && !point.flagged)
+        .map(point => point.price);
+    return findPriceAnomalies(price, { areaPrices, previousPrices });
+};
 
-export const updateGlobalInventory = async (pharmacyId: number, items: InventoryItem[]) => {
-    const db = getDb();
+export interface FlaggedPrice {
+    medicineName: string;
+    price: number;
+    /** Why the price looks wrong. */
+    reasons: string[];
+}
+
+/**
+ * Saves items to a pharmacy's inventory. A new or changed price that looks wrong (see
+ * priceAnomalies.ts) is flagged and kept out of search ranking until confirmPrice is called.
+ * @param pharmacyId The ID of the pharmacy.
+ * @param items The items to add or update.
+ * @param author Who saved the items and how, for the audit log. Defaults to the owner on the dashboard.
+ * @returns A promise that resolves to the prices that were flagged, so the owner can be warned as they enter them.
+ */
+export const updateGlobalInventory = async (pharmacyId: PharmacyId, items: InventoryItem[], author: ChangeAuthor = DEFAULT_CHANGE_AUTHOR): Promise<FlaggedPrice[]> => {
+    const db = await getDb();
     const { globalInventory } = db;
+    const flaggedPrices: FlaggedPrice[] = [];
+    // The items are logged as one batch, so undoing e.g. an import reverts all of it.
+    const batchId = createUlid();
     items.forEach(item => {
-        const medicineKey = item.medicineName.toLowerCase();
+        const medicineKey = getCanonicalMedicineId(item.medicineName);
         if (!globalInventory[medicineKey]) {
             globalInventory[medicineKey] = [];
         }
         const pharmacyEntryIndex = globalInventory[medicineKey].findIndex(p => p.pharmacyId === pharmacyId);
+        const before = toSnapshot(globalInventory[medicineKey][pharmacyEntryIndex]);
         const stock = item.stock || StockStatus.Available;
+        const updatedAt = Date.now();
+
+        const isPriceChange = pharmacyEntryIndex === -1 || globalInventory[medicineKey][pharmacyEntryIndex].price !== item.price;
+        // Checked before the new price goes into the history it is compared with.
+        const priceAnomalies = isPriceChange ? checkNewPrice(db, pharmacyId, medicineKey, item.price) : [];
+        if (isPriceChange) {
+            recordPriceChange(db.priceHistory, medicineKey, pharmacyId, item.price, updatedAt, priceAnomalies.length > 0);
+        }
 
         if (pharmacyEntryIndex > -1) {
+            globalInventory[medicineKey][pharmacyEntryIndex].medicineName = item.medicineName;
             globalInventory[medicineKey][pharmacyEntryIndex].price = item.price;
             globalInventory[medicineKey][pharmacyEntryIndex].stock = stock;
+            globalInventory[medicineKey][pharmacyEntryIndex].updatedAt = updatedAt;
+            globalInventory[medicineKey][pharmacyEntryIndex].lastConfirmedAt = updatedAt;
         } else {
-            globalInventory[medicineKey].push({ pharmacyId, price: item.price, stock: stock });
+            globalInventory[medicineKey].push({ pharmacyId, medicineName: item.medicineName, price: item.price, stock: stock, updatedAt, lastConfirmedAt: updatedAt });
         }
+
+        // Items saved without quantities (e.g. from a price slip) keep whatever quantities were recorded before.
+        const entry = globalInventory[medicineKey].find(p => p.pharmacyId === pharmacyId)!;
+        if (item.quantity !== undefined) entry.quantity = item.quantity;
+        if (item.reorderThreshold !== undefined) entry.reorderThreshold = item.reorderThreshold;
+        if (item.packSize !== undefined) entry.packSize = item.packSize;
+        if (priceAnomalies.length > 0) {
+            entry.priceFlag = { reasons: priceAnomalies, flaggedAt: updatedAt };
+            flaggedPrices.push({ medicineName: item.medicineName, price: item.price, reasons: priceAnomalies });
+        } else if (isPriceChange) {
+            delete entry.priceFlag;
+        }
+        recordInventoryChange(db, pharmacyId, { canonicalId: medicineKey, before, after: toSnapshot(entry), batchId }, author, updatedAt);
     });
-    saveDb(db);
+    await saveDb(db, [pharmacyId]);
+    return flaggedPrices;
+};
+
+/**
+ * Confirms a price that was flagged as looking wrong, so it is ranked in search results again.
+ * @param pharmacyId The ID of the pharmacy.
+ * @param medicineName The medicine name.
+ */
+export const confirmPrice = async (pharmacyId: PharmacyId, medicineName: string) => {
+    const db = await getDb();
+    const canonicalId = getCanonicalMedicineId(medicineName);
+    const entry = db.globalInventory[canonicalId]?.find(p => p.pharmacyId === pharmacyId);
+    if (!entry?.priceFlag) return;
+
+    delete entry.priceFlag;
+    // The confirmed price is what later prices are compared with.
+    const lastChange = (db.priceHistory[canonicalId] || []).filter(p => p.pharmacyId === pharmacyId).pop();
+    if (lastChange?.price === entry.price) delete lastChange.flagged;
+    entry.lastConfirmedAt = Date.now();
+    await saveDb(db, [pharmacyId]);
 };
 
-export const updateStockStatusInGlobalInventory = async (pharmacyId: number, medicineName: string, stock: StockStatus) => {
-    const db = getDb();
+/**
+ * Retrieves the full inventory of a single pharmacy.
+ * This is the only source the owner dashboard reads its inventory from.
+ * @param pharmacyId The ID of the pharmacy.
+ * @returns A promise that resolves to the pharmacy's inventory items, sorted by name.
+ */
+export const getInventoryForPharmacy = async (pharmacyId: PharmacyId): Promise<InventoryItem[]> => {
+    const db = await getDb();
+    const items: InventoryItem[] = [];
+    Object.entries(db.globalInventory).forEach(([canonicalId, entries]) => {
+        const entry = entries.find(p => p.pharmacyId === pharmacyId);
+        if (entry) {
+            const lastChange = (db.priceHistory[canonicalId] || []).filter(p => p.pharmacyId === pharmacyId).pop();
+            items.push({
+                medicineName: entry.medicineName,
+                price: entry.price,
+                stock: entry.stock,
+                priceChangedAt: lastChange?.changedAt,
+                lastConfirmedAt: entry.lastConfirmedAt,
+                quantity: entry.quantity,
+                reorderThreshold: entry.reorderThreshold,
+                packSize: entry.packSize,
+                priceFlag: entry.priceFlag,
+            });
+        }
+    });
+    return items.sort((a, b) => a.medicineName.localeCompare(b.medicineName));
+};
+
+export const updateStockStatusInGlobalInventory = async (pharmacyId: PharmacyId, medicineName: string, stock: StockStatus, author: ChangeAuthor = DEFAULT_CHANGE_AUTHOR) => {
+    const db = await getDb();
     const { globalInventory } = db;
-    const medicineKey = medicineName.toLowerCase();
+    const medicineKey = getCanonicalMedicineId(medicineName);
 
     if (globalInventory[medicineKey]) {
         const pharmacyEntryIndex = globalInventory[medicineKey].findIndex(p => p.pharmacyId === pharmacyId);
         if (pharmacyEntryIndex > -1) {
+            const before = toSnapshot(globalInventory[medicineKey][pharmacyEntryIndex]);
             globalInventory[medicineKey][pharmacyEntryIndex].stock = stock;
-            saveDb(db);
+            globalInventory[medicineKey][pharmacyEntryIndex].updatedAt = Date.now();
+            globalInventory[medicineKey][pharmacyEntryIndex].lastConfirmedAt = Date.now();
+            recordInventoryChange(db, pharmacyId, { canonicalId: medicineKey, before, after: toSnapshot(globalInventory[medicineKey][pharmacyEntryIndex]) }, author);
+            await saveDb(db, [pharmacyId]);
         }
     }
 };
 
-export const deleteFromGlobalInventory = async (pharmacyId: number, medicineName: string) => {
-    const db = getDb();
+/**
+ * Records how many strips of a medicine a pharmacy has on hand. This also confirms the stock,
+ * and marks the item available or unavailable to match the quantity.
+ * @param pharmacyId The ID of the pharmacy.
+ * @param medicineName The medicine name.
+ * @param quantity Strips on hand, or undefined to stop tracking quantities for the item.
+ * @param reorderThreshold The level to reorder at, or undefined for none.
+ * @param author Who made the change and how, for the audit log. Defaults to the owner on the dashboard.
+ */
+export const updateStockQuantity = async (pharmacyId: PharmacyId, medicineName: string, quantity: number | undefined, reorderThreshold: number | undefined, author: ChangeAuthor = DEFAULT_CHANGE_AUTHOR) => {
+    const db = await getDb();
+    const medicineKey = getCanonicalMedicineId(medicineName);
+    const entry = db.globalInventory[medicineKey]?.find(p => p.pharmacyId === pharmacyId);
+    if (!entry) return;
+
+    const before = toSnapshot(entry);
+    const now = Date.now();
+    if (quantity === undefined) {
+        delete entry.quantity;
+    } else {
+        entry.quantity = Math.max(0, Math.floor(quantity));
+        entry.stock = entry.quantity > 0 ? StockStatus.Available : StockStatus.Unavailable;
+    }
+    if (reorderThreshold === undefined) {
+        delete entry.reorderThreshold;
+    } else {
+        entry.reorderThreshold = Math.max(0, Math.floor(reorderThreshold));
+    }
+    entry.updatedAt = now;
+    entry.lastConfirmedAt = now;
+    recordInventoryChange(db, pharmacyId, { canonicalId: medicineKey, before, after: toSnapshot(entry) }, author, now);
+    await saveDb(db, [pharmacyId]);
+};
+
+/**
+ * Records the pack size a pharmacy's price is for, so customers can compare prices per tablet or ml.
+ * @param pharmacyId The ID of the pharmacy.
+ * @param medicineName The medicine name.
+ * @param packSize The pack size, or undefined to forget it.
+ * @param author Who made the change and how, for the audit log. Defaults to the owner on the dashboard.
+ */
+export const updatePackSize = async (pharmacyId: PharmacyId, medicineName: string, packSize: PackSize | undefined, author: ChangeAuthor = DEFAULT_CHANGE_AUTHOR) => {
+    if (packSize && !(packSize.quantity > 0)) {
+        throw new Error('Pack size must be greater than zero.');
+    }
+    const db = await getDb();
+    const medicineKey = getCanonicalMedicineId(medicineName);
+    const entry = db.globalInventory[medicineKey]?.find(p => p.pharmacyId === pharmacyId);
+    if (!entry) return;
+
+    const before = toSnapshot(entry);
+    if (packSize === undefined) {
+        delete entry.packSize;
+    } else {
+        entry.packSize = packSize;
+    }
+    entry.updatedAt = Date.now();
+    recordInventoryChange(db, pharmacyId, { canonicalId: medicineKey, before, after: toSnapshot(entry) }, author, entry.updatedAt);
+    await saveDb(db, [pharmacyId]);
+};
+
+/**
+ * Confirms that everything a pharmacy lists as available is still in stock, without changing prices.
+ * @param pharmacyId The ID of the pharmacy.
+ * @returns A promise that resolves to the number of items confirmed.
+ */
+export const confirmAllInStock = async (pharmacyId: PharmacyId): Promise<number> => {
+    const db = await getDb();
+    const confirmedAt = Date.now();
+    let confirmed = 0;
+    Object.values(db.globalInventory).forEach(entries => {
+        entries.forEach(entry => {
+            if (entry.pharmacyId === pharmacyId && entry.stock === StockStatus.Available) {
+                entry.lastConfirmedAt = confirmedAt;
+                confirmed++;
+            }
+        });
+    });
+    if (confirmed > 0) {
+        await saveDb(db, [pharmacyId]);
+    }
+    return confirmed;
+};
+
+export const deleteFromGlobalInventory = async (pharmacyId: PharmacyId, medicineName: string, author: ChangeAuthor = DEFAULT_CHANGE_AUTHOR) => {
+    const db = await getDb();
     const { globalInventory } = db;
-    const medicineKey = medicineName.toLowerCase();
+    const medicineKey = getCanonicalMedicineId(medicineName);
     if (globalInventory[medicineKey]) {
+        const before = toSnapshot(globalInventory[medicineKey].find(p => p.pharmacyId === pharmacyId));
         globalInventory[medicineKey] = globalInventory[medicineKey].filter(p => p.pharmacyId !== pharmacyId);
         if (globalInventory[medicineKey].length === 0) {
             delete globalInventory[medicineKey];
         }
+        if (before) {
+            recordInventoryChange(db, pharmacyId, { canonicalId: medicineKey, before, after: null }, author);
+        }
     }
-    saveDb(db);
+    await saveDb(db, [pharmacyId]);
+};
+
+// --- Inventory history ---
+// Undo and restore put back a snapshot from the audit log (see inventoryAudit.ts) and log that
+// as a change of its own, so the history always shows what happened.
+
+/**
+ * Retrieves a pharmacy's inventory audit log.
+ * @param pharmacyId The ID of the pharmacy.
+ * @returns A promise that resolves to the log entries, newest first.
+ */
+export const getInventoryHistory = async (pharmacyId: PharmacyId): Promise<AuditLogEntry[]> => {
+    const db = await getDb();
+    return [...(db.auditLog[pharmacyId] || [])].reverse();
+};
+
+/**
+ * Lists the items a pharmacy deleted and hasn't listed again, for restoring.
+ * @param pharmacyId The ID of the pharmacy.
+ * @returns A promise that resolves to the latest deletion of each item, newest first.
+ */
+export const getRestorableDeletions = async (pharmacyId: PharmacyId): Promise<AuditLogEntry[]> => {
+    const db = await getDb();
+    const listed = new Set(Object.keys(db.globalInventory).filter(canonicalId =>
+        db.globalInventory[canonicalId].some(entry => entry.pharmacyId === pharmacyId)));
+    return findRestorableDeletions(db.auditLog[pharmacyId] || [], listed);
+};
+
+// Puts an item back the way a snapshot has it, or removes it for a null snapshot.
+const applySnapshot = (db: AppDatabase, pharmacyId: PharmacyId, canonicalId: string, snapshot: InventorySnapshot | null, appliedAt: number) => {
+    const entries = (db.globalInventory[canonicalId] || []).filter(entry => entry.pharmacyId !== pharmacyId);
+    const current = db.globalInventory[canonicalId]?.find(entry => entry.pharmacyId === pharmacyId);
+    if (snapshot) {
+        if (current?.price !== snapshot.price) {
+            recordPriceChange(db.priceHistory, canonicalId, pharmacyId, snapshot.price, appliedAt, !!snapshot.priceFlag);
+        }
+        entries.push({ ...snapshot, pharmacyId, updatedAt: appliedAt });
+    }
+    if (entries.length > 0) {
+        db.globalInventory[canonicalId] = entries;
+    } else {
+        delete db.globalInventory[canonicalId];
+    }
+};
+
+/**
+ * Reverts a pharmacy's most recent inventory change that hasn't been undone yet, with every
+ * change saved together with it (e.g. a whole import). Calling it again steps further back through the history.
+ * @param pharmacyId The ID of the pharmacy.
+ * @param author Who is undoing the change, for the audit log. Defaults to the owner on the dashboard.
+ * @returns A promise that resolves to the log entries of the changes that were undone, oldest first.
+ */
+export const undoLastInventoryChange = async (pharmacyId: PharmacyId, author: ChangeAuthor = DEFAULT_CHANGE_AUTHOR): Promise<AuditLogEntry[]> => {
+    const db = await getDb();
+    const changes = findUndoableChanges(db.auditLog[pharmacyId] || []);
+    if (changes.length === 0) {
+        throw new Error('There are no changes to undo.');
+    }
+    const currentSnapshot = (canonicalId: string) =>
+        toSnapshot(db.globalInventory[canonicalId]?.find(entry => entry.pharmacyId === pharmacyId));
+    // Undoing a change that was overwritten since (e.g. from another tab) would lose the newer one.
+    const latestChanges = new Map(changes.map(change => [change.canonicalId, change]));
+    latestChanges.forEach(change => {
+        if (!isSameSnapshot(currentSnapshot(change.canonicalId), change.after)) {
+            throw new Error(`${change.medicineName} has changed since, so this change can't be undone.`);
+        }
+    });
+
+    const undoneAt = Date.now();
+    const batchId = createUlid(undoneAt);
+    [...changes].reverse().forEach(change => {
+        const current = currentSnapshot(change.canonicalId);
+        applySnapshot(db, pharmacyId, change.canonicalId, change.before, undoneAt);
+        recordInventoryChange(db, pharmacyId, { canonicalId: change.canonicalId, before: current, after: change.before, action: 'undone', revertedEntryId: change.id, batchId }, author, undoneAt);
+    });
+    await saveDb(db, [pharmacyId]);
+    return changes;
+};
+
+/**
+ * Lists a deleted item again, as it was when it was deleted.
+ * @param pharmacyId The ID of the pharmacy.
+ * @param entryId The ID of the log entry that recorded the deletion.
+ * @param author Who is restoring the item, for the audit log. Defaults to the owner on the dashboard.
+ */
+export const restoreDeletedItem = async (pharmacyId: PharmacyId, entryId: string, author: ChangeAuthor = DEFAULT_CHANGE_AUTHOR) => {
+    const db = await getDb();
+    const deletion = (db.auditLog[pharmacyId] || []).find(entry => entry.id === entryId);
+    if (!deletion || deletion.action !== 'deleted' || !deletion.before) {
+        throw new Error('This deletion is not in the inventory history.');
+    }
+    if (db.globalInventory[deletion.canonicalId]?.some(entry => entry.pharmacyId === pharmacyId)) {
+        throw new Error(`${deletion.medicineName} is already in the inventory.`);
+    }
+
+    const restoredAt = Date.now();
+    applySnapshot(db, pharmacyId, deletion.canonicalId, deletion.before, restoredAt);
+    recordInventoryChange(db, pharmacyId, { canonicalId: deletion.canonicalId, before: null, after: deletion.before, action: 'restored', revertedEntryId: deletion.id }, author, restoredAt);
+    await saveDb(db, [pharmacyId]);
 };
 
 interface Location {
@@ -106,21 +614,69 @@ interface Location {
   lon: number;
 }
 
+/**
+ * Finds the inventory entries that satisfy a medicine search, at most one per pharmacy.
+ * When a pharmacy stocks several matching products (e.g. "Dolo 650" and "Paracetamol 650mg"),
+ * the closest match wins, then an available one, then the cheapest.
+ * @param globalInventory The inventory to search.
+ * @param medicineName The medicine as typed by the user.
+ * @returns A map from pharmacy ID to its best matching entry.
+ */
+const findMatchingEntries = (globalInventory: GlobalInventory, medicineName: string): Map<PharmacyId, GlobalInventoryEntry> => {
+    const query = parseMedicineName(medicineName);
+    const best = new Map<PharmacyId, { entry: GlobalInventoryEntry; score: number }>();
+
+    Object.entries(globalInventory).forEach(([canonicalId, entries]) => {
+        const score = scoreMedicineMatch(query, canonicalId);
+        if (score < 0) return;
+        entries.forEach(entry => {
+            const current = best.get(entry.pharmacyId);
+            const isBetter = !current
+                || score > current.score
+                || (score === current.score && entry.stock === StockStatus.Available && current.entry.stock !== StockStatus.Available)
+                || (score === current.score && entry.stock === current.entry.stock && entry.price < current.entry.price);
+            if (isBetter) {
+                best.set(entry.pharmacyId, { entry, score });
+            }
+        });
+    });
+
+    return new Map(Array.from(best.entries(), ([pharmacyId, { entry }]) => [pharmacyId, entry]));
+};
+
 // This list has been cleared to ensure that all pharmacies are added by their owners.
 export const VERIFIED_PHARMACIES_IN_BANGALORE: BasePharmacy[] = [];
 
+type PharmacyLocation = Pick<BasePharmacy, 'id' | 'lat' | 'lon'>;
+
+// Spatial index over every registered pharmacy, kept for the database revision it was built from.
+// Every save writes a new revision, so the index is rebuilt after any change made here or
+// elsewhere (e.g. another device moved a pharmacy), and extended in place on registration.
+// A document saved before revisions existed has none, so its index isn't kept.
+let spatialIndexCache: { revision: string; index: SpatialIndex<PharmacyLocation> } | null = null;
+
+const getSpatialIndex = (db: AppDatabase): SpatialIndex<PharmacyLocation> => {
+    if (spatialIndexCache && spatialIndexCache.revision === db.revision) {
+        return spatialIndexCache.index;
+    }
+    const locations = [...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies].map(({ id, lat, lon }) => ({ id, lat, lon }));
+    const index = createSpatialIndex(locations);
+    spatialIndexCache = db.revision ? { revision: db.revision, index } : null;
+    return index;
+};
+
 /**
  * Retrieves the list of all pharmacies in the system (verified and user-added).
  * The list is combined and sorted alphabetically.
  * @returns A promise that resolves to an array of BasePharmacy objects.
  */
 export const getRegisteredPharmacies = async (): Promise<BasePharmacy[]> => {
-    const db = getDb();
+    const db = await getDb();
     const allPharmacies = [...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies];
 
-    // Use a map to handle potential duplicates, preferring the last one encountered (user-added if name conflicts)
-    const pharmacyMap = new Map<string, BasePharmacy>();
-    allPharmacies.forEach(p => pharmacyMap.set(p.name.toLowerCase(), p));
+    // Keyed by ID: branches of a chain share a name but are different pharmacies.
+    const pharmacyMap = new Map<PharmacyId, BasePharmacy>();
+    allPharmacies.forEach(p => pharmacyMap.set(p.id, p));
     
     const uniquePharmacies = Array.from(pharmacyMap.values());
     
@@ -132,39 +688,202 @@ export const getRegisteredPharmacies = async (): Promise<BasePharmacy[]> => {
 
 
 /**
- * Registers a new pharmacy or retrieves an existing one by name.
+ * Registers a new pharmacy, or retrieves the existing one if it is already registered.
+ * A pharmacy is the same one if its name matches and it is at the same location, or nearby
+ * with the same phone number (see pharmacyIdentity.ts); other branches of a chain get their own ID.
  * @param details The owner's details for the pharmacy.
  * @param location The pharmacy's coordinates.
+ * @param openingHours The pharmacy's opening hours. Only used when registering a new pharmacy.
  * @returns A promise that resolves to the pharmacy's base details object, including its ID.
  */
-export const registerOrGetPharmacy = async (details: PharmacyOwner, location: { lat: number, lon: number }): Promise<BasePharmacy> => {
-    const db = getDb();
+export const registerOrGetPharmacy = async (details: PharmacyOwner, location: { lat: number, lon: number }, openingHours?: OpeningHours): Promise<BasePharmacy> => {
+    const db = await getDb();
     
     const allPharmacies = [...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies];
     
-    const existingPharmacy = allPharmacies.find(p => p.name.toLowerCase() === details.name.toLowerCase());
+    const existingPharmacy = allPharmacies.find(p => isSamePharmacy(p, { ...details, ...location }));
     if (existingPharmacy) {
         return existingPharmacy;
     }
 
     // If not found, create a new one.
-    // Generate a new ID. Start from a high number to avoid clashes with verified list.
-    const maxId = Math.max(...allPharmacies.map(p => p.id), 1000);
     const newPharmacy: BasePharmacy = {
-        id: maxId + 1,
+        id: createPharmacyId(),
         name: details.name,
         address: details.address,
         phone: details.phone,
         lat: location.lat,
         lon: location.lon,
+        openingHours,
     };
     
+    const previousRevision = db.revision;
     db.dynamicPharmacies.push(newPharmacy);
-    saveDb(db);
+    await saveDb(db, [newPharmacy.id]);
+
+    if (spatialIndexCache && spatialIndexCache.revision === previousRevision && db.revision) {
+        spatialIndexCache.index.insert({ id: newPharmacy.id, lat: newPharmacy.lat, lon: newPharmacy.lon });
+        spatialIndexCache.revision = db.revision;
+    }
     
     return newPharmacy;
 };
 
+export interface DuplicateCandidate {
+    pharmacies: [BasePharmacy, BasePharmacy];
+    distanceKm: number;
+    /** What the two have in common; always at least two reasons. */
+    reasons: DuplicateReason[];
+}
+
+/**
+ * Finds pairs of pharmacies that look like the same pharmacy registered twice, for review.
+ * @param pharmacyId Only report pairs involving this pharmacy. Reports every pair if omitted.
+ * @returns A promise that resolves to the candidate pairs, strongest first.
+ */
+export const findDuplicatePharmacies = async (pharmacyId?: PharmacyId): Promise<DuplicateCandidate[]> => {
+    const db = await getDb();
+    const allPharmacies = [...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies];
+    const pharmaciesById = new Map(allPharmacies.map(p => [p.id, p]));
+    const pharmacies = pharmacyId === undefined ? allPharmacies : allPharmacies.filter(p => p.id === pharmacyId);
+
+    // Any pair with two reasons in common is either nearby or shares a phone number.
+    const byPhone = new Map<string, BasePharmacy[]>();
+    allPharmacies.forEach(p => {
+        const phone = normalizePhone(p.phone);
+        if (phone.length === 10) byPhone.set(phone, [...(byPhone.get(phone) || []), p]);
+    });
+    const spatialIndex = getSpatialIndex(db);
+
+    const candidates = new Map<string, DuplicateCandidate>();
+    pharmacies.forEach(pharmacy => {
+        const others = [
+            ...spatialIndex.withinRadius(pharmacy, DUPLICATE_CANDIDATE_RADIUS_KM).flatMap(({ item }) => pharmaciesById.get(item.id) ?? []),
+            ...(byPhone.get(normalizePhone(pharmacy.phone)) || []),
+        ];
+        others.forEach(other => {
+            const key = [pharmacy.id, other.id].sort().join(':');
+            if (other.id === pharmacy.id || candidates.has(key)) return;
+            const reasons = getDuplicateReasons(pharmacy, other);
+            if (reasons.length > 0) {
+                candidates.set(key, {
+                    pharmacies: [pharmacy, other],
+                    distanceKm: parseFloat(haversineDistance(pharmacy, other).toFixed(2)),
+                    reasons,
+                });
+            }
+        });
+    });
+
+    return Array.from(candidates.values()).sort((a, b) => b.reasons.length - a.reasons.length || a.distanceKm - b.distanceKm);
+};
+
+export interface PharmacyMergeReport {
+    /** Items only the merged-away pharmacy listed, now listed under the kept one. */
+    movedItems: number;
+    /** Items both listed, where the merged-away pharmacy's more recent entry replaced the kept one's. */
+    replacedItems: number;
+    /** Items both listed, where the kept pharmacy's own entry was more recent and was kept. */
+    keptItems: number;
+}
+
+/**
+ * Folds a duplicate registration into another: its inventory and price history move to the
+ * kept pharmacy and the duplicate is removed. Where both list the same medicine, the more
+ * recently updated entry wins, along with its price history.
+ * @param sourceId The duplicate to merge away.
+ * @param targetId The pharmacy to keep.
+ * @returns A promise that resolves to a summary of what was moved.
+ */
+export const mergePharmacies = async (sourceId: PharmacyId, targetId: PharmacyId): Promise<PharmacyMergeReport> => {
+    if (sourceId === targetId) {
+        throw new Error('A pharmacy cannot be merged into itself.');
+    }
+    const db = await getDb();
+    const sourceIndex = db.dynamicPharmacies.findIndex(p => p.id === sourceId);
+    const target = [...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies].find(p => p.id === targetId);
+    if (sourceIndex === -1 || !target) {
+        throw new Error(`Pharmacy ${sourceIndex === -1 ? sourceId : targetId} is not registered.`);
+    }
+
+    const report: PharmacyMergeReport = { movedItems: 0, replacedItems: 0, keptItems: 0 };
+    Object.entries(db.globalInventory).forEach(([canonicalId, entries]) => {
+        const sourceEntry = entries.find(e => e.pharmacyId === sourceId);
+        if (!sourceEntry) return;
+        const targetEntry = entries.find(e => e.pharmacyId === targetId);
+        const history = db.priceHistory[canonicalId] || [];
+
+        // The losing entry's prices were charged by a different listing, so its history goes with it.
+        let losingId = targetId;
+        if (!targetEntry) {
+            report.movedItems++;
+        } else if ((sourceEntry.updatedAt ?? 0) > (targetEntry.updatedAt ?? 0)) {
+            report.replacedItems++;
+        } else {
+            report.keptItems++;
+            losingId = sourceId;
+        }
+        db.globalInventory[canonicalId] = entries
+            .filter(e => e.pharmacyId !== losingId)
+            .map(e => (e === sourceEntry ? { ...e, pharmacyId: targetId } : e));
+        if (history.length > 0) {
+            db.priceHistory[canonicalId] = history
+                .filter(point => point.pharmacyId !== losingId)
+                .map(point => (point.pharmacyId === sourceId ? { ...point, pharmacyId: targetId } : point));
+        }
+    });
+    // The duplicate's history of items it no longer lists moves too, unless the kept pharmacy has its own.
+    Object.entries(db.priceHistory).forEach(([canonicalId, history]) => {
+        const targetHasHistory = history.some(point => point.pharmacyId === targetId);
+        db.priceHistory[canonicalId] = history
+            .filter(point => point.pharmacyId !== sourceId || !targetHasHistory)
+            .map(point => (point.pharmacyId === sourceId ? { ...point, pharmacyId: targetId } : point));
+    });
+
+    // The duplicate's audit log is kept, so changes made under it can still be looked up.
+    if (db.auditLog[sourceId]) {
+        db.auditLog[targetId] = trimAuditLog([...(db.auditLog[targetId] || []), ...db.auditLog[sourceId]].sort((a, b) => a.changedAt - b.changedAt));
+        delete db.auditLog[sourceId];
+    }
+
+    const [source] = db.dynamicPharmacies.splice(sourceIndex, 1);
+    if (!target.openingHours && source.openingHours) {
+        target.openingHours = source.openingHours;
+    }
+    await saveDb(db, [sourceId, targetId]);
+    return report;
+};
+
+/**
+ * Retrieves a pharmacy's opening hours.
+ * @param pharmacyId The ID of the pharmacy.
+ * @returns A promise that resolves to the hours, or null if the pharmacy has not recorded any.
+ */
+export const getOpeningHours = async (pharmacyId: PharmacyId): Promise<OpeningHours | null> => {
+    const db = await getDb();
+    const pharmacy = [...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies].find(p => p.id === pharmacyId);
+    return pharmacy?.openingHours ?? null;
+};
+
+/**
+ * Replaces a registered pharmacy's opening hours.
+ * @param pharmacyId The ID of the pharmacy.
+ * @param openingHours The new hours.
+ */
+export const updateOpeningHours = async (pharmacyId: PharmacyId, openingHours: OpeningHours) => {
+    const validationError = validateOpeningHours(openingHours);
+    if (validationError) {
+        throw new Error(validationError);
+    }
+    const db = await getDb();
+    const pharmacy = db.dynamicPharmacies.find(p => p.id === pharmacyId);
+    if (!pharmacy) {
+        throw new Error(`Pharmacy ${pharmacyId} is not registered.`);
+    }
+    pharmacy.openingHours = openingHours;
+    await saveDb(db, [pharmacyId]);
+};
+
 /**
  * Checks if a medicine exists in the local globalInventory.
  * @param medicineName The name of the medicine to check.
@@ -174,11 +893,79 @@ export const checkMedicineLocally = async (medicineName: string): Promise<boolea
   // Simulate a quick, non-blocking check
   await new Promise(resolve => setTimeout(resolve, 50));
   
-  const db = getDb();
-  const medicineKey = medicineName.toLowerCase();
+  const db = await getDb();
+  const query = parseMedicineName(medicineName);
   
-  // Check if the key exists and the array for that key is not empty
-  return !!db.globalInventory[medicineKey] && db.globalInventory[medicineKey].length > 0;
+  // Any stocked product with the same composition counts, however it was spelled.
+  return Object.entries(db.globalInventory).some(([canonicalId, entries]) => entries.length > 0 && isMedicineMatch(query, canonicalId));
+};
+
+// The fuzzy index is rebuilt only when the set of stocked names changes.
+let searchIndexCache: { key: string; index: MedicineSearchIndex } | null = null;
+
+const toTitleCase = (text: string) => text.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+
+const getSearchIndex = (db: AppDatabase): MedicineSearchIndex => {
+  const names: string[] = [];
+  Object.values(db.globalInventory).forEach(entries => {
+    if (entries.length === 0) return;
+    names.push(toTitleCase(parseMedicineName(entries[0].medicineName).generic));
+    entries.forEach(entry => names.push(entry.medicineName));
+  });
+
+  const key = names.join('\n');
+  if (!searchIndexCache || searchIndexCache.key !== key) {
+    searchIndexCache = { key, index: createMedicineSearchIndex(names) };
+  }
+  return searchIndexCache.index;
+};
+
+/**
+ * Fuzzy-searches the names of every medicine in the local globalInventory.
+ * Both the names owners entered (e.g. "Dolo 650") and their generic names (e.g. "Paracetamol")
+ * are searchable, so misspellings such as "paracetmol" resolve without calling the AI service.
+ * @param query The medicine name as typed by the user.
+ * @param limit The maximum number of matches to return.
+ * @returns A promise that resolves to matches ranked by score, best first.
+ */
+export const searchMedicinesLocally = async (query: string, limit = 5): Promise<MedicineSearchMatch[]> => {
+  const db = await getDb();
+  return getSearchIndex(db).search(query, limit);
+};
+
+export interface MedicineSuggestion extends MedicineSearchMatch {
+  /** Pharmacies that have the medicine available, within the radius if a location was given. */
+  pharmacyCount: number;
+}
+
+// Radius used for the "stocked nearby" counts in search suggestions.
+const SUGGESTION_RADIUS_KM = 10;
+
+/**
+ * Suggests stocked medicines for a partially typed name, for search-box autocomplete.
+ * @param query The text typed so far.
+ * @param options `userLocation` limits the stock counts to pharmacies within `radiusKm` (default 10 km).
+ * @returns A promise that resolves to ranked suggestions with the number of pharmacies stocking each.
+ */
+export const getMedicineSuggestions = async (
+  query: string,
+  options: { userLocation?: Location; radiusKm?: number; limit?: number } = {}
+): Promise<MedicineSuggestion[]> => {
+  const db = await getDb();
+  const matches = getSearchIndex(db).search(query, options.limit ?? 6);
+  const radiusKm = options.radiusKm ?? SUGGESTION_RADIUS_KM;
+  const pharmaciesById = new Map([...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies].map(p => [p.id, p]));
+
+  return matches.map(match => {
+    let pharmacyCount = 0;
+    findMatchingEntries(db.globalInventory, match.name).forEach((entry, pharmacyId) => {
+      const pharmacy = pharmaciesById.get(pharmacyId);
+      if (!pharmacy || !isInStock(getEffectiveStockStatus(entry))) return;
+      if (options.userLocation && haversineDistance(options.userLocation, pharmacy) > radiusKm) return;
+      pharmacyCount++;
+    });
+    return { ...match, pharmacyCount };
+  });
 };
 
 /**
@@ -187,114 +974,386 @@ export const checkMedicineLocally = async (medicineName: string): Promise<boolea
  * @param medicineName The name of the medicine.
  * @returns A promise that resolves to the medicine's details or null if not found.
  */
-export const getMedicineDetailsForPharmacy = async (pharmacyId: number, medicineName: string): Promise<{ price: number; stock: StockStatus } | null> => {
-    const db = getDb();
-    const medicineKey = medicineName.toLowerCase();
-    const inventoryEntry = db.globalInventory[medicineKey];
+export const getMedicineDetailsForPharmacy = async (pharmacyId: PharmacyId, medicineName: string): Promise<{ price: number; stock: StockStatus } | null> => {
+    const db = await getDb();
+    const pharmacyData = findMatchingEntries(db.globalInventory, medicineName).get(pharmacyId);
     
-    if (inventoryEntry) {
-        const pharmacyData = inventoryEntry.find(p => p.pharmacyId === pharmacyId);
-        if (pharmacyData) {
-            return { price: pharmacyData.price, stock: pharmacyData.stock };
-        }
+    if (pharmacyData) {
+        return { price: pharmacyData.price, stock: getEffectiveStockStatus(pharmacyData) };
     }
     return null;
 };
 
+/**
+ * Retrieves every price a pharmacy has charged for a medicine.
+ * @param pharmacyId The ID of the pharmacy.
+ * @param medicineName The medicine name; the product the pharmacy stocks for it is used.
+ * @returns A promise that resolves to the price changes, oldest first.
+ */
+export const getPriceHistory = async (pharmacyId: PharmacyId, medicineName: string): Promise<PricePoint[]> => {
+    const db = await getDb();
+    const entry = findMatchingEntries(db.globalInventory, medicineName).get(pharmacyId);
+    const canonicalId = getCanonicalMedicineId(entry ? entry.medicineName : medicineName);
+    return (db.priceHistory[canonicalId] || [])
+        .filter(point => point.pharmacyId === pharmacyId)
+        .map(({ price, changedAt }) => ({ price, changedAt }));
+};
+
+export interface AreaPriceSummary {
+    median: number;
+    /** Number of pharmacies whose current price went into the median. */
+    pharmacyCount: number;
+}
 
 /**
- * Calculates the Haversine distance between two points on the Earth.
- * @param loc1 First location { lat, lon }
- * @param loc2 Second location { lat, lon }
- * @returns The distance in kilometers.
+ * Calculates the median current price of a medicine across pharmacies.
+ * @param medicineName The medicine name.
+ * @param options `location` limits the median to pharmacies within `radiusKm` (default DEFAULT_SEARCH_RADIUS_KM).
+ * @returns A promise that resolves to the median, or null if no pharmacy has a price for it.
  */
-function haversineDistance(loc1: Location, loc2: Location): number {
-  const R = 6371; // Radius of the Earth in km
-  const dLat = (loc2.lat - loc1.lat) * Math.PI / 180;
-  const dLon = (loc2.lon - loc1.lon) * Math.PI / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(loc1.lat * Math.PI / 180) * Math.cos(loc2.lat * Math.PI / 180) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+export const getAreaMedianPrice = async (
+    medicineName: string,
+    options: { location?: Location; radiusKm?: number } = {}
+): Promise<AreaPriceSummary | null> => {
+    const db = await getDb();
+    const radiusKm = options.radiusKm ?? DEFAULT_SEARCH_RADIUS_KM;
+    const pharmaciesById = new Map([...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies].map(p => [p.id, p]));
+
+    const prices: number[] = [];
+    findMatchingEntries(db.globalInventory, medicineName).forEach((entry, pharmacyId) => {
+        const pharmacy = pharmaciesById.get(pharmacyId);
+        if (!pharmacy || !(entry.price > 0) || entry.priceFlag) return;
+        if (options.location && haversineDistance(options.location, pharmacy) > radiusKm) return;
+        prices.push(entry.price);
+    });
+
+    return prices.length > 0 ? { median: parseFloat(median(prices).toFixed(2)), pharmacyCount: prices.length } : null;
+};
+
+export interface PharmacySearchOptions {
+  /** Only pharmacies within this distance are returned. Defaults to DEFAULT_SEARCH_RADIUS_KM; use Infinity for no limit. */
+  maxRadiusKm?: number;
+  /** Number of pharmacies per page. Defaults to DEFAULT_PAGE_SIZE. */
+  pageSize?: number;
+  /** Number of pharmacies to skip, i.e. the `nextOffset` of the previous page. */
+  offset?: number;
+  /** Also return pharmacies without the medicine in stock, after the ones that have it. */
+  includeUnavailable?: boolean;
+  /** How to weigh price, distance and the other factors when picking the "Best Option". */
+  weights?: BestOptionWeights;
+  /** Only return pharmacies that are open right now. Pharmacies without recorded hours are left out. */
+  openNow?: boolean;
+}
+
+export interface PharmacySearchPage {
+  pharmacies: Pharmacy[];
+  /** Number of pharmacies matching the search across all pages. */
+  total: number;
+  /** Offset of the next page, or null if this is the last one. */
+  nextOffset: number | null;
 }
 
+export const DEFAULT_SEARCH_RADIUS_KM = 25;
+export const DEFAULT_PAGE_SIZE = 15;
+
 /**
- * Finds nearby pharmacies, prioritizing those with the medicine in stock.
- * This ensures that if a pharmacy has the medicine, it will be shown in the results,
- * regardless of its distance. The list is then supplemented with closer, out-of-stock options.
+ * Searches for pharmacies near the user, one page at a time.
+ * Pharmacies with the medicine in stock come first, nearest first, with the "Best Option"
+ * (see bestOptionScoring.ts) always at the top so it is part of the first page. Stock the owner
+ * has not confirmed recently follows as "Unconfirmed" (see stockFreshness.ts), and out-of-stock
+ * pharmacies come last, only when `includeUnavailable` is set. With `openNow`, closed pharmacies are left out.
  * @param userLocation The user's current latitude and longitude.
  * @param medicineName The name of the medicine being searched.
- * @returns A promise that resolves to an array of Pharmacy objects.
+ * @param options Radius, paging and filtering options.
+ * @returns A promise that resolves to the requested page of results.
  */
-export const findNearbyPharmacies = async (userLocation: Location, medicineName: string): Promise<Pharmacy[]> => {
+export const searchNearbyPharmacies = async (userLocation: Location, medicineName: string, options: PharmacySearchOptions = {}): Promise<PharmacySearchPage> => {
   // Simulate network delay for a better user experience with local storage
   await new Promise(resolve => setTimeout(resolve, 500));
+
+  const maxRadiusKm = options.maxRadiusKm ?? DEFAULT_SEARCH_RADIUS_KM;
+  const now = Date.now();
+  const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE);
+  const offset = Math.max(0, options.offset ?? 0);
   
-  const db = getDb();
+  const db = await getDb();
   const { globalInventory, dynamicPharmacies } = db;
   
-  const pharmaciesWithStock = globalInventory[medicineName.toLowerCase()] || [];
-  const stockedPharmacyIds = new Set(pharmaciesWithStock.map(p => p.pharmacyId));
-  const priceMap = new Map(pharmaciesWithStock.map(p => [p.pharmacyId, p.price]));
-  const stockMap = new Map(pharmaciesWithStock.map(p => [p.pharmacyId, p.stock]));
+  const matchingEntries = findMatchingEntries(globalInventory, medicineName);
 
   const allBasePharmacies = [...VERIFIED_PHARMACIES_IN_BANGALORE, ...dynamicPharmacies];
-  const allPharmaciesWithDetails: Omit<Pharmacy, 'isBestOption'>[] = allBasePharmacies.map(pharmacy => {
-    const distance = parseFloat(haversineDistance(userLocation, pharmacy).toFixed(1));
-    const hasEntry = stockedPharmacyIds.has(pharmacy.id);
+  const pharmaciesById = new Map(allBasePharmacies.map(p => [p.id, p]));
+  const pharmaciesInRadius: Pharmacy[] = getSpatialIndex(db)
+    .withinRadius(userLocation, maxRadiusKm)
+    .flatMap(({ item, distanceKm }) => {
+      const pharmacy = pharmaciesById.get(item.id);
+      if (!pharmacy) return [];
+      const distance = parseFloat(distanceKm.toFixed(1));
+      const entry = matchingEntries.get(pharmacy.id);
+      const unitPrice = entry ? getUnitPrice(entry) : null;
+      const stock = entry ? getEffectiveStockStatus(entry, now) : StockStatus.Unavailable;
 
-    return {
-      ...pharmacy,
-      distance,
-      price: hasEntry ? priceMap.get(pharmacy.id)! : 0,
-      priceUnit: hasEntry ? 'per strip' : '-',
-      stock: hasEntry ? stockMap.get(pharmacy.id)! : StockStatus.Unavailable,
-    };
+      return {
+        ...pharmacy,
+        distance,
+        price: entry ? entry.price : 0,
+        priceUnit: entry ? unitPrice?.priceUnit ?? getDefaultPriceUnit(entry.medicineName) : '-',
+        unitPrice: unitPrice?.unitPrice,
+        unitLabel: unitPrice?.unitLabel,
+        // A price awaiting the owner's confirmation is ranked with unconfirmed stock.
+        stock: entry?.priceFlag && isInStock(stock) ? StockStatus.Unconfirmed : stock,
+        isBestOption: false,
+        matchedMedicineName: entry?.medicineName,
+        lastConfirmedAt: entry?.lastConfirmedAt,
+        quantity: entry?.quantity,
+        isOpenNow: pharmacy.openingHours ? isOpenAt(pharmacy.openingHours, now) : undefined,
+        priceUnderReview: entry?.priceFlag ? true : undefined,
+      };
+    })
+    .filter(pharmacy => !options.openNow || pharmacy.isOpenNow);
+
+  // 1. Separate pharmacies into confirmed, unconfirmed and unavailable lists, each nearest first
+  const byDistance = (a: Pharmacy, b: Pharmacy) => a.distance - b.distance;
+  const availablePharmacies = pharmaciesInRadius.filter(p => isInStock(p.stock)).sort(byDistance);
+  const unconfirmedPharmacies = pharmaciesInRadius.filter(p => p.stock === StockStatus.Unconfirmed).sort(byDistance);
+  const unavailablePharmacies = options.includeUnavailable
+    ? pharmaciesInRadius.filter(p => p.stock === StockStatus.Unavailable).sort(byDistance)
+    : [];
+
+  // 2. Score ALL pharmacies with stock in the radius, not just this page, and put the "Best Option" first.
+  // Only confirmed stock can be the Best Option. Flagged prices aren't scored, so they can't skew the cheapest price.
+  const pharmaciesWithStock = [...availablePharmacies, ...unconfirmedPharmacies].filter(p => !p.priceUnderReview);
+  const breakdowns = scoreCandidates(pharmaciesWithStock, options.weights ?? DEFAULT_BEST_OPTION_WEIGHTS, now);
+  pharmaciesWithStock.forEach((pharmacy, i) => {
+    pharmacy.scoreBreakdown = breakdowns[i];
   });
+  if (availablePharmacies.length > 0 && availablePharmacies[0].scoreBreakdown!.components.some(c => c.weight > 0)) {
+    // Ties go to the nearer pharmacy, as the list is already nearest first.
+    const bestOption = availablePharmacies.reduce((best, current) =>
+        current.scoreBreakdown!.total > best.scoreBreakdown!.total ? current : best
+    );
+    bestOption.isBestOption = true;
+    availablePharmacies.splice(availablePharmacies.indexOf(bestOption), 1);
+    availablePharmacies.unshift(bestOption);
+  }
+
+  // 3. Return the requested page. The App component will handle the final sorting based on user preference.
+  const orderedResults = [...availablePharmacies, ...unconfirmedPharmacies, ...unavailablePharmacies];
+  const nextOffset = offset + pageSize < orderedResults.length ? offset + pageSize : null;
 
-  // 1. Separate pharmacies into available and unavailable lists
-  const availablePharmacies: Pharmacy[] = allPharmaciesWithDetails
-    .filter(p => p.stock === StockStatus.Available)
-    .map(p => ({ ...p, isBestOption: false }));
+  return {
+    pharmacies: orderedResults.slice(offset, offset + pageSize),
+    total: orderedResults.length,
+    nextOffset,
+  };
+};
 
-  const unavailablePharmacies: Pharmacy[] = allPharmaciesWithDetails
-    .filter(p => p.stock !== StockStatus.Available)
-    .map(p => ({ ...p, isBestOption: false }));
+/**
+ * Finds nearby pharmacies that have the medicine, prioritizing the best option.
+ * Convenience wrapper around searchNearbyPharmacies that returns a single page.
+ * @param userLocation The user's current latitude and longitude.
+ * @param medicineName The name of the medicine being searched.
+ * @param options Radius, paging and filtering options.
+ * @returns A promise that resolves to an array of Pharmacy objects.
+ */
+export const findNearbyPharmacies = async (userLocation: Location, medicineName: string, options: PharmacySearchOptions = {}): Promise<Pharmacy[]> => {
+  const page = await searchNearbyPharmacies(userLocation, medicineName, options);
+  return page.pharmacies;
+};
+
+export interface BasketSearchOptions {
+  /** Only pharmacies within this distance are considered. Defaults to DEFAULT_SEARCH_RADIUS_KM. */
+  maxRadiusKm?: number;
+  /** The maximum number of pharmacies stocking everything to return. */
+  limit?: number;
+}
 
-  // 2. Sort unavailable pharmacies by distance
-  unavailablePharmacies.sort((a, b) => a.distance - b.distance);
+// Caps the pairs compared for two-stop baskets: only the nearest pharmacies stocking anything on the list are paired.
+const MAX_TWO_STOP_CANDIDATES = 200;
 
-  // 3. Combine the lists: take ALL available pharmacies, and supplement with the nearest unavailable ones up to a total of 15.
-  const MAX_RESULTS = 15;
-  const combinedResults = [...availablePharmacies];
-  const neededUnavailable = MAX_RESULTS - combinedResults.length;
+const roundPrice = (value: number) => parseFloat(value.toFixed(2));
 
-  if (neededUnavailable > 0) {
-    combinedResults.push(...unavailablePharmacies.slice(0, neededUnavailable));
+/**
+ * Searches for a whole list of medicines at once, e.g. everything on a prescription.
+ * Only in-stock items count. A two-stop combination buys each medicine at the cheaper of
+ * its two pharmacies, and is only offered when it costs less than every single pharmacy.
+ * @param userLocation The user's current latitude and longitude.
+ * @param medicineNames The medicines to buy. Duplicates are ignored.
+ * @param options Radius and result limit.
+ * @returns A promise that resolves to the single-stop and two-stop options.
+ */
+export const searchBasket = async (userLocation: Location, medicineNames: string[], options: BasketSearchOptions = {}): Promise<BasketSearchResult> => {
+  const seen = new Set<string>();
+  const medicines = medicineNames.map(name => name.trim()).filter(name => {
+    const key = getCanonicalMedicineId(name);
+    if (!name || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (medicines.length === 0) {
+    return { medicines, completePharmacies: [], cheapestTwoStop: null, unavailableMedicines: [] };
   }
-  
-  // 4. Determine the "Best Option" from ALL available pharmacies, not just the closest ones.
-  let bestOption: Pharmacy | null = null;
-  if (availablePharmacies.length > 0) {
-    // Use a scoring system to find the best balance of distance and price.
-    // A lower score is better. We'll value 1km of distance as being equivalent to ?10.
-    bestOption = availablePharmacies.reduce((best, current) => {
-        const bestScore = (best.distance * 10) + best.price;
-        const currentScore = (current.distance * 10) + current.price;
-        return currentScore < bestScore ? current : best;
+
+  const maxRadiusKm = options.maxRadiusKm ?? DEFAULT_SEARCH_RADIUS_KM;
+  const db = await getDb();
+  const allBasePharmacies = [...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies];
+  const pharmaciesById = new Map(allBasePharmacies.map(p => [p.id, p]));
+  const pharmaciesInRadius = getSpatialIndex(db).withinRadius(userLocation, maxRadiusKm).flatMap(({ item, distanceKm }) => {
+    const pharmacy = pharmaciesById.get(item.id);
+    return pharmacy ? [{ item, distanceKm, pharmacy }] : [];
+  });
+
+  // For each medicine, what every pharmacy that has it in stock charges.
+  const offersByMedicine = medicines.map(medicineName => {
+    const offers = new Map<PharmacyId, BasketLine>();
+    findMatchingEntries(db.globalInventory, medicineName).forEach((entry, pharmacyId) => {
+      if (isInStock(getEffectiveStockStatus(entry)) && !entry.priceFlag) {
+        offers.set(pharmacyId, { medicineName, matchedMedicineName: entry.medicineName, price: entry.price });
+      }
     });
+    return offers;
+  });
+
+  const candidates = pharmaciesInRadius.filter(({ item }) => offersByMedicine.some(offers => offers.has(item.id)));
+  const unavailableMedicines = medicines.filter((_, i) => !candidates.some(({ item }) => offersByMedicine[i].has(item.id)));
+  if (unavailableMedicines.length > 0) {
+    return { medicines, completePharmacies: [], cheapestTwoStop: null, unavailableMedicines };
   }
 
-  // Mark the best option within the combined results list.
-  if (bestOption) {
-    const bestOptionIndex = combinedResults.findIndex(p => p.id === bestOption!.id);
-    if (bestOptionIndex > -1) {
-      combinedResults[bestOptionIndex].isBestOption = true;
+  const toStop = ({ id, name, address, phone, lat, lon }: BasePharmacy, distanceKm: number, items: BasketLine[]): BasketStop => {
+    return {
+      pharmacyId: id, name, address, phone, lat, lon,
+      distance: parseFloat(distanceKm.toFixed(1)),
+      items,
+      subtotal: roundPrice(items.reduce((sum, line) => sum + line.price, 0)),
+    };
+  };
+
+  const completePharmacies: BasketOption[] = candidates
+    .filter(({ item }) => offersByMedicine.every(offers => offers.has(item.id)))
+    .map(({ item, distanceKm, pharmacy }) => {
+      const stop = toStop(pharmacy, distanceKm, offersByMedicine.map(offers => offers.get(item.id)!));
+      return { stops: [stop], totalCost: stop.subtotal, travelDistance: stop.distance };
+    })
+    .sort((a, b) => a.totalCost - b.totalCost || a.travelDistance - b.travelDistance)
+    .slice(0, options.limit ?? DEFAULT_PAGE_SIZE);
+
+  let cheapestTwoStop: BasketOption | null = null;
+  if (medicines.length > 1) {
+    // Candidates are nearest first, so in every pair `first` is the one to visit first.
+    const pool = candidates.slice(0, MAX_TWO_STOP_CANDIDATES);
+    let best: { first: typeof pool[number]; second: typeof pool[number]; cost: number; travel: number } | null = null;
+
+    for (let i = 0; i < pool.length; i++) {
+      for (let j = i + 1; j < pool.length; j++) {
+        const first = pool[i];
+        const second = pool[j];
+        let cost = 0;
+        let fromFirst = 0;
+        let fromSecond = 0;
+        const coversAll = offersByMedicine.every(offers => {
+          const priceAtFirst = offers.get(first.item.id)?.price ?? Infinity;
+          const priceAtSecond = offers.get(second.item.id)?.price ?? Infinity;
+          if (priceAtFirst === Infinity && priceAtSecond === Infinity) return false;
+          if (priceAtFirst <= priceAtSecond) {
+            cost += priceAtFirst;
+            fromFirst++;
+          } else {
+            cost += priceAtSecond;
+            fromSecond++;
+          }
+          return true;
+        });
+        // A pair where one pharmacy supplies everything is just a single stop.
+        if (!coversAll || fromFirst === 0 || fromSecond === 0) continue;
+
+        const travel = first.distanceKm + haversineDistance(first.item, second.item);
+        if (!best || cost < best.cost || (cost === best.cost && travel < best.travel)) {
+          best = { first, second, cost, travel };
+        }
+      }
+    }
+
+    const cheapestSingleCost = completePharmacies[0]?.totalCost ?? Infinity;
+    if (best && roundPrice(best.cost) < cheapestSingleCost) {
+      const { first, second } = best;
+      const firstItems: BasketLine[] = [];
+      const secondItems: BasketLine[] = [];
+      offersByMedicine.forEach(offers => {
+        const atFirst = offers.get(first.item.id);
+        const atSecond = offers.get(second.item.id);
+        if (atFirst && (!atSecond || atFirst.price <= atSecond.price)) {
+          firstItems.push(atFirst);
+        } else {
+          secondItems.push(atSecond!);
+        }
+      });
+      cheapestTwoStop = {
+        stops: [toStop(first.pharmacy, first.distanceKm, firstItems), toStop(second.pharmacy, second.distanceKm, secondItems)],
+        totalCost: roundPrice(best.cost),
+        travelDistance: parseFloat(best.travel.toFixed(1)),
+      };
     }
   }
-  
-  // Return the combined list. The App component will handle the final sorting based on user preference.
-  return combinedResults;
+
+  return { medicines, completePharmacies, cheapestTwoStop, unavailableMedicines };
+};
+
+export interface OpenPharmacySearchOptions {
+  /** Stock of this medicine is reported for each pharmacy. It is matched locally, without validating the name. */
+  medicineName?: string;
+  /** Only pharmacies within this distance are returned. Defaults to DEFAULT_SEARCH_RADIUS_KM. */
+  maxRadiusKm?: number;
+  /** The maximum number of pharmacies to return. */
+  limit?: number;
+}
+
+export const DEFAULT_OPEN_PHARMACY_LIMIT = 10;
+
+// How many of the nearest pharmacies are checked at first for each open one requested.
+const OPEN_PHARMACY_QUERY_FACTOR = 4;
+
+/**
+ * Finds the nearest pharmacies that are open right now, for late-night emergencies.
+ * Pharmacies without recorded opening hours are left out, as we can't promise they are open.
+ * @param userLocation The user's current latitude and longitude.
+ * @param options The medicine to check, radius and result limit.
+ * @returns A promise that resolves to the open pharmacies, nearest first.
+ */
+export const findOpenPharmaciesNow = async (userLocation: Location, options: OpenPharmacySearchOptions = {}): Promise<OpenPharmacy[]> => {
+  const now = Date.now();
+  const maxRadiusKm = options.maxRadiusKm ?? DEFAULT_SEARCH_RADIUS_KM;
+  const limit = Math.max(1, options.limit ?? DEFAULT_OPEN_PHARMACY_LIMIT);
+  const medicineName = options.medicineName?.trim();
+
+  const db = await getDb();
+  const allBasePharmacies = [...VERIFIED_PHARMACIES_IN_BANGALORE, ...db.dynamicPharmacies];
+  const pharmaciesById = new Map(allBasePharmacies.map(p => [p.id, p]));
+  const matchingEntries = medicineName ? findMatchingEntries(db.globalInventory, medicineName) : null;
+
+  // Most pharmacies nearby may be closed at night, so the k-nearest query is widened until
+  // enough open ones are found or every pharmacy in the radius has been checked.
+  const spatialIndex = getSpatialIndex(db);
+  for (let k = limit * OPEN_PHARMACY_QUERY_FACTOR; ; k *= 2) {
+    const nearby = spatialIndex.nearest(userLocation, k, maxRadiusKm);
+    const openPharmacies: OpenPharmacy[] = [];
+    for (const { item, distanceKm } of nearby) {
+      const base = pharmaciesById.get(item.id);
+      const status = base?.openingHours ? getOpeningStatus(base.openingHours, now) : null;
+      if (!base || !status?.isOpen) continue;
+
+      const { openingHours, ...pharmacy } = base;
+      const entry = matchingEntries?.get(pharmacy.id);
+      openPharmacies.push({
+        ...pharmacy,
+        distance: parseFloat(distanceKm.toFixed(1)),
+        openingLabel: status.label,
+        medicineStock: matchingEntries ? (entry ? getEffectiveStockStatus(entry, now) : StockStatus.Unavailable) : undefined,
+        matchedMedicineName: entry?.medicineName,
+        price: entry?.price,
+      });
+      if (openPharmacies.length === limit) return openPharmacies;
+    }
+    if (nearby.length < k) return openPharmacies;
+  }
 };
@@ -0,0 +1,340 @@
+import { StockStatus } from '../types';
+import type { InventoryItem, PackSize } from '../types';
+import { getCanonicalMedicineId } from './medicineCatalog';
+import { parseCsv, decodeXmlText } from './spreadsheetFiles';
+import { guessColumnMapping, previewInventoryImport, parsePriceText, parsePackSizeText, hasInventoryItemChanged } from './inventoryImport';
+
+// --- Billing software (POS) exports ---
+// Desktop billing software exports stock in its own fixed layout. Each layout is a PosExportFormat
+// that recognises its own files and reads them into inventory items; more can be added with
+// registerPosExportFormat. A billing software export lists the pharmacy's whole stock, so importing
+// one also marks anything it no longer lists as unavailable. Other CSVs may be a partial price
+// list, so that only happens when the owner says the file is their whole stock.
+
+export interface PosExportFile {
+    fileName: string;
+    text: string;
+}
+
+export interface SkippedExportEntry {
+    /** Where the entry is in the file, e.g. "Row 12" or the item's name. */
+    location: string;
+    reason: string;
+}
+
+export interface PosExportContents {
+    items: InventoryItem[];
+    /** Entries that couldn't be read into an item, e.g. because they have no price. */
+    skipped: SkippedExportEntry[];
+}
+
+export interface PosExportFormat {
+    id: string;
+    /** Shown to the owner, e.g. "Marg ERP stock report (CSV)". */
+    name: string;
+    /** Whether every export in this layout lists the pharmacy's whole stock, so items missing from it have run out. */
+    listsWholeStock: boolean;
+    /** Whether the file looks like an export in this layout. */
+    detect: (file: PosExportFile) => boolean;
+    /**
+     * Reads the stock listed in the file.
+     * @throws If the file isn't in this layout.
+     */
+    parse: (file: PosExportFile) => PosExportContents;
+}
+
+// Billing software allows negative stock when sales are billed before the purchase is entered.
+const parseQuantityText = (text: string): number | undefined => {
+    const match = text.trim().replace(/,/g, '').match(/^-?\d+(?:\.\d+)?/);
+    return match ? Math.max(0, Math.floor(parseFloat(match[0]))) : undefined;
+};
+
+const toInventoryItem = (medicineName: string, price: number, quantity?: number, packSize?: PackSize): InventoryItem => ({
+    medicineName,
+    price,
+    stock: quantity === undefined || quantity > 0 ? StockStatus.Available : StockStatus.Unavailable,
+    quantity,
+    packSize,
+});
+
+const isXmlText = (text: string) => text.trimStart().startsWith('<');
+
+// --- CSV layouts ---
+
+export interface CsvExportLayout {
+    id: string;
+    name: string;
+    /** The header names each column goes by in the export. Case and punctuation are ignored. */
+    columns: { medicineName: string[]; price: string[]; quantity?: string[]; packSize?: string[] };
+    /**
+     * Headers that together identify the layout; a file is only taken to be in it if it has them all.
+     * An entry may list several names, any one of which will do.
+     */
+    signature: (string | string[])[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Reports usually start with the firm's name and the report date above the column headers.
+const HEADER_SEARCH_ROWS = 10;
+
+const findHeaderRow = (rows: string[][], signature: CsvExportLayout['signature']): number =>
+    rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => {
+        const headers = row.map(normalizeHeader);
+        return signature.every(names => [names].flat().some(name => headers.includes(normalizeHeader(name))));
+    });
+
+const findColumn = (headers: string[], aliases: string[] = []): number => {
+    for (const alias of aliases) {
+        const column = headers.indexOf(normalizeHeader(alias));
+        if (column !== -1) return column;
+    }
+    return -1;
+};
+
+/**
+ * Creates the format for a CSV report with a fixed set of column headers.
+ * @param layout The report's column headers.
+ * @returns A format that can be passed to registerPosExportFormat.
+ */
+export const createCsvExportFormat = (layout: CsvExportLayout): PosExportFormat => ({
+    id: layout.id,
+    name: layout.name,
+    listsWholeStock: true,
+    detect: file => !isXmlText(file.text) && findHeaderRow(parseCsv(file.text), layout.signature) !== -1,
+    parse: file => {
+        const rows = parseCsv(file.text);
+        const headerRow = findHeaderRow(rows, layout.signature);
+        if (headerRow === -1) {
+            throw new Error(`This file is not a ${layout.name} export.`);
+        }
+        const headers = rows[headerRow].map(normalizeHeader);
+        const nameColumn = findColumn(headers, layout.columns.medicineName);
+        const priceColumn = findColumn(headers, layout.columns.price);
+        const quantityColumn = findColumn(headers, layout.columns.quantity);
+        const packColumn = findColumn(headers, layout.columns.packSize);
+        if (nameColumn === -1 || priceColumn === -1) {
+            throw new Error(`The medicine name and price columns were not found in this ${layout.name} export.`);
+        }
+
+        const contents: PosExportContents = { items: [], skipped: [] };
+        rows.slice(headerRow + 1).forEach((row, index) => {
+            const medicineName = (row[nameColumn] ?? '').replace(/\s+/g, ' ').trim();
+            // Blank names are group headings or spacer lines; totals close the report.
+            if (!medicineName || /^(grand )?total\b/i.test(medicineName)) return;
+            const price = parsePriceText(row[priceColumn] ?? '');
+            if (!(price > 0)) {
+                contents.skipped.push({ location: `Row ${headerRow + index + 2}`, reason: `${medicineName} has no price.` });
+                return;
+            }
+            const quantity = quantityColumn === -1 ? undefined : parseQuantityText(row[quantityColumn] ?? '');
+            const packSize = packColumn === -1 ? undefined : parsePackSizeText(row[packColumn] ?? '');
+            contents.items.push(toInventoryItem(medicineName, price, quantity, packSize));
+        });
+        return contents;
+    },
+});
+
+// Marg's stock report lists one row per batch, with the pack ("10'S", "1X15") and closing stock in strips.
+// As with Tally, the price is the selling rate, or the MRP when the report has no rate column.
+// Plenty of stock lists have a packing and an MRP column, so the report is only recognised by
+// Marg's own abbreviations for closing stock or the selling rate too: it is taken to be the whole stock.
+const margStockReportFormat = createCsvExportFormat({
+    id: 'marg-csv',
+    name: 'Marg ERP stock report (CSV)',
+    columns: {
+        medicineName: ['Item Name', 'Product Name', 'Product'],
+        price: ['S Rate', 'Rate', 'MRP'],
+        quantity: ['Cl. Stock', 'Closing Stock', 'Cl. Qty', 'Stock'],
+        packSize: ['Packing', 'Pack'],
+    },
+    signature: ['Packing', 'MRP', ['Cl. Stock', 'Cl. Qty', 'S Rate']],
+});
+
+// Any other CSV with recognisable column names, read the same way as an uploaded stock list.
+const genericCsvFormat: PosExportFormat = {
+    id: 'csv',
+    name: 'Other CSV with column names',
+    listsWholeStock: false,
+    detect: file => {
+        if (isXmlText(file.text)) return false;
+        const { mapping, hasHeaderRow } = guessColumnMapping(parseCsv(file.text));
+        return hasHeaderRow && mapping.medicineName !== null && mapping.price !== null;
+    },
+    parse: file => {
+        const rows = parseCsv(file.text);
+        const { mapping, hasHeaderRow } = guessColumnMapping(rows);
+        if (!hasHeaderRow || mapping.medicineName === null || mapping.price === null) {
+            throw new Error('The medicine name and price columns were not found in this file.');
+        }
+        const { rows: importRows } = previewInventoryImport(rows, mapping, { hasHeaderRow, currentInventory: [] });
+        return {
+            items: importRows.flatMap(row => (row.item ? [row.item] : [])),
+            skipped: importRows.filter(row => !row.item).map(row => ({ location: `Row ${row.rowNumber}`, reason: row.errors.join(' ') })),
+        };
+    },
+};
+
+// --- Tally XML ---
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const readElements = (xml: string, tag: string): string[] =>
+    Array.from(xml.matchAll(new RegExp(`<${escapeRegExp(tag)}\\b[^>]*>([\\s\\S]*?)</${escapeRegExp(tag)}>`, 'gi')), m => m[1]);
+
+const readTagTexts = (xml: string, tag: string): string[] =>
+    readElements(xml, tag).map(text => decodeXmlText(text).trim());
+
+// Rates are written per unit, e.g. "32.00/Strip".
+const parseRateText = (text: string) => parsePriceText(text.split('/')[0]);
+
+// Tally exports stock item masters as <STOCKITEM NAME="..."> elements. The selling price is the
+// latest rate in the standard price list, or else the MRP; the quantity is the closing balance,
+// e.g. "25 Strip".
+const tallyStockItemsFormat: PosExportFormat = {
+    id: 'tally-xml',
+    name: 'Tally stock items (XML)',
+    listsWholeStock: true,
+    detect: file => isXmlText(file.text) && /<STOCKITEM\b/i.test(file.text),
+    parse: file => {
+        const stockItems = Array.from(file.text.matchAll(/<STOCKITEM\b([^>]*)>([\s\S]*?)<\/STOCKITEM>/gi));
+        if (stockItems.length === 0) {
+            throw new Error('No stock items were found in this Tally export.');
+        }
+        const contents: PosExportContents = { items: [], skipped: [] };
+        stockItems.forEach(([, attributes, body], index) => {
+            const nameAttribute = attributes.match(/\sNAME="([^"]*)"/i)?.[1];
+            const medicineName = (nameAttribute ? decodeXmlText(nameAttribute) : readTagTexts(body, 'NAME')[0] ?? '').replace(/\s+/g, ' ').trim();
+            if (!medicineName) {
+                contents.skipped.push({ location: `Stock item ${index + 1}`, reason: 'The item has no name.' });
+                return;
+            }
+            const priceLists = readElements(body, 'STANDARDPRICELIST.LIST').flatMap(list => readTagTexts(list, 'RATE'));
+            const price = parseRateText(priceLists.pop() ?? readTagTexts(body, 'MRPRATE')[0] ?? '');
+            if (!(price > 0)) {
+                contents.skipped.push({ location: medicineName, reason: `${medicineName} has no selling price or MRP.` });
+                return;
+            }
+            const closingBalance = readTagTexts(body, 'CLOSINGBALANCE')[0];
+            contents.items.push(toInventoryItem(medicineName, price, closingBalance ? parseQuantityText(closingBalance) : undefined));
+        });
+        return contents;
+    },
+};
+
+// --- Format registry ---
+
+// Tried in order, so the catch-all CSV format stays last.
+const formats: PosExportFormat[] = [margStockReportFormat, tallyStockItemsFormat, genericCsvFormat];
+
+/**
+ * Adds an export format, or replaces the one with the same ID.
+ * New formats are tried before the built-in ones when detecting a file's format.
+ */
+export const registerPosExportFormat = (format: PosExportFormat) => {
+    const index = formats.findIndex(f => f.id === format.id);
+    if (index !== -1) {
+        formats[index] = format;
+    } else {
+        formats.unshift(format);
+    }
+};
+
+/**
+ * @returns Every registered export format, in the order they are tried.
+ */
+export const getPosExportFormats = (): PosExportFormat[] => [...formats];
+
+/**
+ * Finds the format of an export file.
+ * @returns The first format that recognises the file, or undefined if none does.
+ */
+export const detectPosExportFormat = (file: PosExportFile): PosExportFormat | undefined =>
+    formats.find(format => format.detect(file));
+
+// --- Comparing an export with the current inventory ---
+
+export type PosImportChangeKind = 'added' | 'updated' | 'markedUnavailable' | 'unchanged';
+
+export interface PosImportChange {
+    kind: PosImportChangeKind;
+    /** The item as it will be saved. */
+    item: InventoryItem;
+    /** The pharmacy's current item for the same medicine, if there is one. */
+    previous?: InventoryItem;
+}
+
+export interface PosImportDiff {
+    changes: PosImportChange[];
+    /** The items to save: everything added, updated or marked unavailable. */
+    items: InventoryItem[];
+    counts: Record<PosImportChangeKind, number>;
+}
+
+// Exports list each batch separately. Batches of a medicine are added up, and the price and pack
+// of the last one listed are used, unless it has run out and an earlier batch hasn't.
+const combineBatches = (items: InventoryItem[]): Map<string, InventoryItem> => {
+    const combined = new Map<string, InventoryItem>();
+    items.forEach(item => {
+        const canonicalId = getCanonicalMedicineId(item.medicineName);
+        const earlier = combined.get(canonicalId);
+        if (!earlier) {
+            combined.set(canonicalId, item);
+            return;
+        }
+        const quantity = earlier.quantity === undefined && item.quantity === undefined
+            ? undefined
+            : (earlier.quantity ?? 0) + (item.quantity ?? 0);
+        const latest = item.quantity === 0 && (earlier.quantity ?? 0) > 0 ? earlier : item;
+        combined.set(canonicalId, toInventoryItem(latest.medicineName, latest.price, quantity, latest.packSize ?? earlier.packSize ?? item.packSize));
+    });
+    return combined;
+};
+
+const CHANGE_ORDER: PosImportChangeKind[] = ['added', 'updated', 'markedUnavailable', 'unchanged'];
+
+/**
+ * Compares the stock in an export with the pharmacy's current inventory.
+ * @param exported The items read from the export.
+ * @param currentInventory What the pharmacy lists now.
+ * @param options `markMissingUnavailable` says the export is the pharmacy's whole stock: set it for
+ *   a format that `listsWholeStock`, or when the owner confirms it.
+ * @returns What importing the export would change. With `markMissingUnavailable`, listed items
+ *   that aren't in the export are marked unavailable, with no strips left if their quantity is tracked.
+ */
+export const diffPosImport = (
+    exported: InventoryItem[],
+    currentInventory: InventoryItem[],
+    options: { markMissingUnavailable: boolean }
+): PosImportDiff => {
+    const incoming = combineBatches(exported);
+    const changes: PosImportChange[] = [];
+
+    const current = new Map(currentInventory.map(item => [getCanonicalMedicineId(item.medicineName), item]));
+    incoming.forEach((exportedItem, canonicalId) => {
+        const previous = current.get(canonicalId);
+        // Keep the name as the owner wrote it; exports are often in capitals.
+        const item = previous ? { ...exportedItem, medicineName: previous.medicineName } : exportedItem;
+        const kind: PosImportChangeKind = !previous ? 'added' : hasInventoryItemChanged(item, previous) ? 'updated' : 'unchanged';
+        changes.push({ kind, item, previous });
+    });
+    current.forEach((previous, canonicalId) => {
+        if (!options.markMissingUnavailable || incoming.has(canonicalId) || previous.stock === StockStatus.Unavailable) return;
+        const item: InventoryItem = {
+            medicineName: previous.medicineName,
+            price: previous.price,
+            stock: StockStatus.Unavailable,
+            quantity: previous.quantity === undefined ? undefined : 0,
+        };
+        changes.push({ kind: 'markedUnavailable', item, previous });
+    });
+
+    changes.sort((a, b) => CHANGE_ORDER.indexOf(a.kind) - CHANGE_ORDER.indexOf(b.kind) || a.item.medicineName.localeCompare(b.item.medicineName));
+    const counts = { added: 0, updated: 0, markedUnavailable: 0, unchanged: 0 };
+    changes.forEach(change => counts[change.kind]++);
+    return {
+        changes,
+        items: changes.filter(change => change.kind !== 'unchanged').map(change => change.item),
+        counts,
+    };
+};
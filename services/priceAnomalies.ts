@@ -0,0 +1,63 @@
+// --- Price anomaly detection ---
+// A mistyped price such as ₹0.5 or ₹50000 for a strip of paracetamol would win or ruin the
+// "Best Option" for everyone nearby. New prices are compared with what other pharmacies in the
+// area charge and with what the pharmacy charged before. Outliers are kept out of ranking until
+// the owner confirms them (see confirmPrice in pharmacyService.ts).
+
+// A price this many times higher or lower than the one it is compared with is an outlier.
+export const PRICE_OUTLIER_RATIO = 3;
+
+// The area median is only trusted once this many other pharmacies have a price for the medicine.
+export const MIN_AREA_PRICES = 3;
+
+// With nothing to compare against, prices outside this range are outliers.
+export const MIN_PLAUSIBLE_PRICE = 1;
+export const MAX_PLAUSIBLE_PRICE = 5000;
+
+export interface PriceComparison {
+    /** Current prices of the same medicine at other pharmacies in the area. */
+    areaPrices: number[];
+    /** The prices this pharmacy has charged before, oldest first. */
+    previousPrices: number[];
+}
+
+/**
+ * Calculates the median of a list of numbers.
+ * @param values At least one number.
+ */
+export const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const describeOutlier = (price: number, reference: number, label: string): string | undefined => {
+    const ratio = price / reference;
+    if (ratio < PRICE_OUTLIER_RATIO && ratio > 1 / PRICE_OUTLIER_RATIO) return undefined;
+    const times = Math.round(ratio >= 1 ? ratio : 1 / ratio);
+    return `${times}x ${ratio >= 1 ? 'higher' : 'lower'} than ${label} of ₹${reference.toFixed(2)}.`;
+};
+
+/**
+ * Checks whether a new price is far out of line with the area and with the pharmacy's own prices.
+ * @param price The new price.
+ * @param comparison What to compare it with.
+ * @returns The reasons the price looks wrong; empty if it looks fine.
+ */
+export const findPriceAnomalies = (price: number, { areaPrices, previousPrices }: PriceComparison): string[] => {
+    const reasons: string[] = [];
+    const hasAreaMedian = areaPrices.length >= MIN_AREA_PRICES;
+    if (hasAreaMedian) {
+        const reason = describeOutlier(price, median(areaPrices), 'the area median');
+        if (reason) reasons.push(reason);
+    }
+    const previousPrice = previousPrices[previousPrices.length - 1];
+    if (previousPrice > 0) {
+        const reason = describeOutlier(price, previousPrice, 'your previous price');
+        if (reason) reasons.push(reason);
+    }
+    if (!hasAreaMedian && !(previousPrice > 0) && (price < MIN_PLAUSIBLE_PRICE || price > MAX_PLAUSIBLE_PRICE)) {
+        reasons.push(`₹${price.toFixed(2)} is unusually ${price < MIN_PLAUSIBLE_PRICE ? 'low' : 'high'} for a medicine.`);
+    }
+    return reasons;
+};
@@ -0,0 +1,84 @@
+import type { InventoryItem } from '../types';
+import { getCanonicalMedicineId } from './medicineCatalog';
+import { PRICE_OUTLIER_RATIO, MIN_PLAUSIBLE_PRICE, MAX_PLAUSIBLE_PRICE } from './priceAnomalies';
+
+// --- Reviewing a parsed price slip ---
+// Prices read from a photo of a price slip can be wrong: a missed decimal point turns "30.50"
+// into "3050". Before anything is saved, each parsed row is compared with the pharmacy's
+// current inventory and flagged if its price looks unlikely, so the owner can fix or reject it.
+
+export type SlipItemChange = 'new' | 'priceChange' | 'unchanged';
+
+export interface SlipItemReview {
+    /** How the row compares with the current inventory; undefined if the row has errors. */
+    change?: SlipItemChange;
+    /** The current inventory item with the same medicine, if there is one. */
+    previous?: InventoryItem;
+    /** Problems that stop the row from being saved until it is edited. */
+    errors: string[];
+    /** Reasons the row looks wrong; the owner has to accept or reject it. */
+    warnings: string[];
+}
+
+// A ratio close to a power of ten usually means a misread decimal point.
+const looksLikeMisplacedDecimal = (ratio: number) =>
+    [10, 100, 1000].some(power => Math.abs(ratio / power - 1) < 0.05);
+
+const describePriceChange = (price: number, previousPrice: number): string | undefined => {
+    const ratio = price / previousPrice;
+    if (ratio < PRICE_OUTLIER_RATIO && ratio > 1 / PRICE_OUTLIER_RATIO) return undefined;
+    const times = ratio >= 1 ? ratio : 1 / ratio;
+    const direction = ratio >= 1 ? 'higher' : 'lower';
+    const hint = looksLikeMisplacedDecimal(times) ? ' The decimal point may have been misread.' : '';
+    return `${Math.round(times)}x ${direction} than the current price of ₹${previousPrice.toFixed(2)}.${hint}`;
+};
+
+/**
+ * Checks the rows read from a price slip and compares them with the current inventory.
+ * @param items The rows, in the order they appear on the slip.
+ * @param currentInventory What the pharmacy lists now.
+ * @returns A review for each row, in the same order.
+ */
+export const reviewPriceSlip = (items: InventoryItem[], currentInventory: InventoryItem[]): SlipItemReview[] => {
+    const current = new Map(currentInventory.map(item => [getCanonicalMedicineId(item.medicineName), item]));
+    const firstRowByMedicine = new Map<string, number>();
+
+    return items.map((item, index): SlipItemReview => {
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        const medicineName = item.medicineName.trim();
+
+        if (!medicineName) {
+            errors.push('Medicine name is missing.');
+        }
+        if (!Number.isFinite(item.price) || !(item.price > 0)) {
+            errors.push('Price must be more than 0.');
+        }
+        if (errors.length > 0) {
+            return { errors, warnings };
+        }
+
+        const canonicalId = getCanonicalMedicineId(medicineName);
+        const earlierRow = firstRowByMedicine.get(canonicalId);
+        if (earlierRow !== undefined) {
+            warnings.push(`Also on row ${earlierRow + 1} of the slip.`);
+        } else {
+            firstRowByMedicine.set(canonicalId, index);
+        }
+
+        if (Math.abs(item.price * 100 - Math.round(item.price * 100)) > 1e-6) {
+            warnings.push('Price has more than two decimal places.');
+        }
+
+        const previous = current.get(canonicalId);
+        if (previous) {
+            const priceWarning = describePriceChange(item.price, previous.price);
+            if (priceWarning) warnings.push(priceWarning);
+        } else if (item.price < MIN_PLAUSIBLE_PRICE || item.price > MAX_PLAUSIBLE_PRICE) {
+            warnings.push(`₹${item.price.toFixed(2)} is unusually ${item.price < MIN_PLAUSIBLE_PRICE ? 'low' : 'high'} for a medicine.`);
+        }
+
+        const change: SlipItemChange = !previous ? 'new' : previous.price !== item.price ? 'priceChange' : 'unchanged';
+        return { change, previous, errors, warnings };
+    });
+};
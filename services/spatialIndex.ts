@@ -0,0 +1,170 @@
+// --- Grid-based spatial index ---
+// Buckets points into fixed-size latitude/longitude cells so radius and k-nearest queries
+// only measure distances to points in nearby cells, instead of to every pharmacy.
+
+export interface GeoPoint {
+    lat: number;
+    lon: number;
+}
+
+export interface SpatialMatch<T> {
+    item: T;
+    distanceKm: number;
+}
+
+export interface SpatialIndex<T extends GeoPoint> {
+    readonly size: number;
+    insert(item: T): void;
+    /** All items within `radiusKm` of the center, nearest first. */
+    withinRadius(center: GeoPoint, radiusKm: number): SpatialMatch<T>[];
+    /** The `k` items nearest to the center, optionally limited to `maxRadiusKm`, nearest first. */
+    nearest(center: GeoPoint, k: number, maxRadiusKm?: number): SpatialMatch<T>[];
+}
+
+const EARTH_RADIUS_KM = 6371;
+// Must agree with haversineDistance, or radius searches would miss points near the edge.
+const KM_PER_DEGREE_LAT = EARTH_RADIUS_KM * Math.PI / 180;
+// About 1.1 km north-south: keeps cells small even with tens of thousands of pharmacies in a city.
+const DEFAULT_CELL_SIZE_DEG = 0.01;
+
+/**
+ * Calculates the Haversine distance between two points on the Earth.
+ * @param loc1 First location { lat, lon }
+ * @param loc2 Second location { lat, lon }
+ * @returns The distance in kilometers.
+ */
+export function haversineDistance(loc1: GeoPoint, loc2: GeoPoint): number {
+  const dLat = (loc2.lat - loc1.lat) * Math.PI / 180;
+  const dLon = (loc2.lon - loc1.lon) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(loc1.lat * Math.PI / 180) * Math.cos(loc2.lat * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+/**
+ * Creates a grid-based spatial index.
+ * @param items The initial items to index.
+ * @param cellSizeDeg The size of a grid cell in degrees.
+ * @returns The index. Further items can be added with `insert`.
+ */
+export const createSpatialIndex = <T extends GeoPoint>(items: T[] = [], cellSizeDeg = DEFAULT_CELL_SIZE_DEG): SpatialIndex<T> => {
+    const cells = new Map<string, T[]>();
+    let size = 0;
+    // Bounds of the occupied cells, so searches know when there is nothing left to find.
+    let minRow = Infinity, maxRow = -Infinity, minCol = Infinity, maxCol = -Infinity;
+
+    const rowOf = (lat: number) => Math.floor(lat / cellSizeDeg);
+    const colOf = (lon: number) => Math.floor(lon / cellSizeDeg);
+    const keyOf = (row: number, col: number) => `${row}:${col}`;
+
+    const insert = (item: T) => {
+        const row = rowOf(item.lat);
+        const col = colOf(item.lon);
+        const key = keyOf(row, col);
+        const cell = cells.get(key);
+        if (cell) {
+            cell.push(item);
+        } else {
+            cells.set(key, [item]);
+        }
+        size++;
+        minRow = Math.min(minRow, row);
+        maxRow = Math.max(maxRow, row);
+        minCol = Math.min(minCol, col);
+        maxCol = Math.max(maxCol, col);
+    };
+
+    items.forEach(insert);
+
+    const collectCell = (row: number, col: number, center: GeoPoint, maxRadiusKm: number, out: SpatialMatch<T>[]) => {
+        cells.get(keyOf(row, col))?.forEach(item => {
+            const distanceKm = haversineDistance(center, item);
+            if (distanceKm <= maxRadiusKm) {
+                out.push({ item, distanceKm });
+            }
+        });
+    };
+
+    const sortByDistance = (matches: SpatialMatch<T>[]) => matches.sort((a, b) => a.distanceKm - b.distanceKm);
+
+    const withinRadius = (center: GeoPoint, radiusKm: number): SpatialMatch<T>[] => {
+        const matches: SpatialMatch<T>[] = [];
+        if (size === 0) return matches;
+
+        const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+        // Measure the longitude span at the circle's latitude furthest from the equator, where it is widest.
+        const widestLat = Math.min(Math.abs(center.lat) + latDelta, 89.9);
+        const lonDelta = radiusKm / (KM_PER_DEGREE_LAT * Math.cos(widestLat * Math.PI / 180));
+        const fromRow = Math.max(rowOf(center.lat - latDelta), minRow);
+        const toRow = Math.min(rowOf(center.lat + latDelta), maxRow);
+        const fromCol = Math.max(colOf(center.lon - lonDelta), minCol);
+        const toCol = Math.min(colOf(center.lon + lonDelta), maxCol);
+
+        // A radius covering more cells than are occupied is cheaper to answer by scanning every cell once.
+        if (!isFinite(radiusKm) || (toRow - fromRow + 1) * (toCol - fromCol + 1) > cells.size) {
+            cells.forEach(cell => cell.forEach(item => {
+                const distanceKm = haversineDistance(center, item);
+                if (distanceKm <= radiusKm) {
+                    matches.push({ item, distanceKm });
+                }
+            }));
+            return sortByDistance(matches);
+        }
+
+        for (let row = fromRow; row <= toRow; row++) {
+            for (let col = fromCol; col <= toCol; col++) {
+                collectCell(row, col, center, radiusKm, matches);
+            }
+        }
+        return sortByDistance(matches);
+    };
+
+    const nearest = (center: GeoPoint, k: number, maxRadiusKm = Infinity): SpatialMatch<T>[] => {
+        if (size === 0 || k <= 0) return [];
+
+        const centerRow = rowOf(center.lat);
+        const centerCol = colOf(center.lon);
+        const cellHeightKm = cellSizeDeg * KM_PER_DEGREE_LAT;
+        const maxRing = Math.max(
+            Math.abs(centerRow - minRow), Math.abs(maxRow - centerRow),
+            Math.abs(centerCol - minCol), Math.abs(maxCol - centerCol)
+        );
+
+        const matches: SpatialMatch<T>[] = [];
+        // Search rings of cells outwards from the center until no unvisited cell can hold anything closer.
+        for (let ring = 0; ring <= maxRing; ring++) {
+            for (let row = Math.max(centerRow - ring, minRow); row <= Math.min(centerRow + ring, maxRow); row++) {
+                const isEdgeRow = Math.abs(row - centerRow) === ring;
+                // Edge rows are visited in full; rows in between only at the ring's two columns.
+                const step = isEdgeRow || ring === 0 ? 1 : 2 * ring;
+                for (let col = centerCol - ring; col <= centerCol + ring; col += step) {
+                    collectCell(row, col, center, maxRadiusKm, matches);
+                }
+            }
+
+            // Cells get narrower away from the equator, so use the width at the ring's far edge.
+            const farLat = Math.min(Math.abs(center.lat) + (ring + 1) * cellSizeDeg, 89.9);
+            const ringStepKm = Math.min(cellHeightKm, cellHeightKm * Math.cos(farLat * Math.PI / 180));
+            const unvisitedLowerBoundKm = ring * ringStepKm;
+            if (unvisitedLowerBoundKm > maxRadiusKm) break;
+            if (matches.length >= k) {
+                sortByDistance(matches);
+                if (matches[k - 1].distanceKm <= unvisitedLowerBoundKm) break;
+            }
+        }
+
+        return sortByDistance(matches).slice(0, k);
+    };
+
+    return {
+        get size() {
+            return size;
+        },
+        insert,
+        withinRadius,
+        nearest,
+    };
+};
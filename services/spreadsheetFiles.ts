@@ -0,0 +1,241 @@
+// --- Reading spreadsheet files ---
+// Turns an uploaded CSV or Excel (.xlsx) file into rows of cell text, so importers only deal
+// with a grid of strings. An .xlsx file is a zip of XML documents; it is unpacked with the
+// browser's DecompressionStream rather than a spreadsheet library, and only the first
+// worksheet's values are read (no formulas, formatting or dates). Empty rows are kept, so a
+// row's index is its position in the file and errors can be reported against the row the owner sees.
+
+export type SpreadsheetRows = string[][];
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheet apps export with commas, semicolons (where the comma is the decimal mark) or tabs.
+const detectDelimiter = (firstLine: string): string => {
+    const counts = CSV_DELIMITERS.map(delimiter => firstLine.split(delimiter).length);
+    return CSV_DELIMITERS[counts.indexOf(Math.max(...counts))];
+};
+
+/**
+ * Whether a row has no text in any of its cells.
+ */
+export const isEmptyRow = (row: string[]): boolean => row.every(cell => cell.trim() === '');
+
+/**
+ * Finds the first row with any text in it, e.g. the header row of a file with blank lines on top.
+ * @returns The row's index, or -1 if every row is empty.
+ */
+export const findFirstRowIndex = (rows: SpreadsheetRows): number => rows.findIndex(row => !isEmptyRow(row));
+
+/**
+ * Parses CSV text, including quoted cells with commas, quotes or line breaks in them.
+ * @param text The file contents. The delimiter (comma, semicolon or tab) is detected from the first line.
+ * @returns Every row, empty ones included, as a spreadsheet app would number them: a quoted
+ *   cell with line breaks in it stays in one row.
+ */
+export const parseCsv = (text: string): SpreadsheetRows => {
+    const content = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? '');
+    const rows: SpreadsheetRows = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && cell === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    row.push(cell);
+    rows.push(row);
+    return rows.map(r => r.map(c => c.trim()));
+};
+
+// --- .xlsx ---
+
+interface ZipEntry {
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+const readZipEntries = (data: DataView): Map<string, ZipEntry> => {
+    // The end-of-central-directory record sits in the last 64 KB (it may be followed by a comment).
+    let endOffset = -1;
+    for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 65557); i--) {
+        if (data.getUint32(i, true) === 0x06054b50) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset === -1) {
+        throw new Error('This file is not a valid .xlsx spreadsheet.');
+    }
+
+    const entries = new Map<string, ZipEntry>();
+    const decoder = new TextDecoder();
+    const entryCount = data.getUint16(endOffset + 10, true);
+    let offset = data.getUint32(endOffset + 16, true);
+    for (let i = 0; i < entryCount && data.getUint32(offset, true) === 0x02014b50; i++) {
+        const nameLength = data.getUint16(offset + 28, true);
+        const name = decoder.decode(new Uint8Array(data.buffer, data.byteOffset + offset + 46, nameLength));
+        entries.set(name, {
+            method: data.getUint16(offset + 10, true),
+            compressedSize: data.getUint32(offset + 20, true),
+            localHeaderOffset: data.getUint32(offset + 42, true),
+        });
+        offset += 46 + nameLength + data.getUint16(offset + 30, true) + data.getUint16(offset + 32, true);
+    }
+    return entries;
+};
+
+const readZipFile = async (data: DataView, entry: ZipEntry): Promise<string> => {
+    const header = entry.localHeaderOffset;
+    const start = header + 30 + data.getUint16(header + 26, true) + data.getUint16(header + 28, true);
+    const bytes = new Uint8Array(data.buffer, data.byteOffset + start, entry.compressedSize);
+    if (entry.method === 0) {
+        return new TextDecoder().decode(bytes);
+    }
+    if (entry.method !== 8) {
+        throw new Error('This .xlsx file uses a compression method that is not supported.');
+    }
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Decodes the entities (e.g. "&amp;" or "&#8377;") in the text of an XML element or attribute.
+ */
+export const decodeXmlText = (text: string): string => text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity] ?? match;
+});
+
+const getAttribute = (tag: string, name: string): string | undefined =>
+    tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// The text of every <t> in an element, which joins the runs of rich text. Phonetic hints (<rPh>) are skipped.
+const readTextRuns = (xml: string): string =>
+    decodeXmlText(Array.from(xml.replace(/<(\w+:)?rPh\b[\s\S]*?<\/(\w+:)?rPh>/g, '').matchAll(/<(?:\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?t>/g), m => m[1]).join(''));
+
+const readSharedStrings = (xml: string): string[] =>
+    Array.from(xml.matchAll(/<(?:\w+:)?si>([\s\S]*?)<\/(?:\w+:)?si>/g), m => readTextRuns(m[1]));
+
+/**
+ * Converts a zero-based column number to its spreadsheet letters, e.g. 0 to "A" and 27 to "AB".
+ */
+export const getColumnLetter = (index: number): string => {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+};
+
+const columnIndexOf = (reference: string): number =>
+    reference.replace(/\d+$/, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const readWorksheet = (xml: string, sharedStrings: string[]): SpreadsheetRows => {
+    const rows: SpreadsheetRows = [];
+    for (const rowMatch of xml.matchAll(/<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g)) {
+        const rowNumber = parseInt(getAttribute(rowMatch[1], 'r') ?? '', 10) || rows.length + 1;
+        const row: string[] = [];
+        for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g)) {
+            const reference = getAttribute(cellMatch[1], 'r');
+            const column = reference ? columnIndexOf(reference) : row.length;
+            const type = getAttribute(cellMatch[1], 't');
+            const content = cellMatch[2] ?? '';
+            const value = decodeXmlText(content.match(/<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/)?.[1] ?? '');
+            let text: string;
+            if (type === 's') {
+                text = sharedStrings[parseInt(value, 10)] ?? '';
+            } else if (type === 'inlineStr') {
+                text = readTextRuns(content);
+            } else if (type === 'b') {
+                text = value === '1' ? 'TRUE' : 'FALSE';
+            } else {
+                text = value;
+            }
+            while (row.length < column) row.push('');
+            row[column] = text.trim();
+        }
+        while (rows.length < rowNumber - 1) rows.push([]);
+        rows[rowNumber - 1] = row;
+    }
+    return rows;
+};
+
+// The first sheet in the workbook's tab order, which is not necessarily sheet1.xml.
+const findFirstWorksheetPath = async (data: DataView, entries: Map<string, ZipEntry>): Promise<string> => {
+    const fallback = 'xl/worksheets/sheet1.xml';
+    const workbook = entries.get('xl/workbook.xml');
+    const relationships = entries.get('xl/_rels/workbook.xml.rels');
+    if (!workbook || !relationships) return fallback;
+
+    const firstSheet = (await readZipFile(data, workbook)).match(/<(?:\w+:)?sheet\b[^>]*>/)?.[0];
+    const relationshipId = firstSheet?.match(/\sr:id="([^"]*)"/)?.[1];
+    const relationship = Array.from((await readZipFile(data, relationships)).matchAll(/<Relationship\b[^>]*>/g), m => m[0])
+        .find(tag => getAttribute(tag, 'Id') === relationshipId);
+    const target = relationship && getAttribute(relationship, 'Target');
+    if (!target) return fallback;
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Reads the values of the first worksheet of an .xlsx file.
+ * @param buffer The file contents.
+ * @returns Every row up to the last one with a value, empty ones included, with numbers as they are stored (e.g. "12.5").
+ * @throws If the file is not an .xlsx spreadsheet.
+ */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<SpreadsheetRows> => {
+    const data = new DataView(buffer);
+    const entries = readZipEntries(data);
+    const sheet = entries.get(await findFirstWorksheetPath(data, entries));
+    if (!sheet) {
+        throw new Error('No worksheet was found in this .xlsx file.');
+    }
+    const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsEntry ? readSharedStrings(await readZipFile(data, sharedStringsEntry)) : [];
+    return readWorksheet(await readZipFile(data, sheet), sharedStrings);
+};
+
+/**
+ * Reads an uploaded spreadsheet, choosing the parser from the file name.
+ * @param file A .csv, .tsv, .txt or .xlsx file.
+ * @returns The rows of the file (of its first worksheet, for .xlsx), empty ones included.
+ * @throws If the file type is not supported or the file cannot be read.
+ */
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetRows> => {
+    const extension = file.name.toLowerCase().split('.').pop();
+    if (extension === 'xlsx') {
+        return parseXlsx(await file.arrayBuffer());
+    }
+    if (extension === 'xls' || extension === 'ods' || extension === 'numbers') {
+        throw new Error('This spreadsheet format is not supported. Please save it as .xlsx or .csv and try again.');
+    }
+    return parseCsv(await file.text());
+};
@@ -0,0 +1,62 @@
+import { StockStatus } from '../types';
+import { getStockLevelStatus } from './stockLevels';
+import type { StockLevel } from './stockLevels';
+
+// --- Stock freshness ---
+// Owners confirm their stock when they save an item or tap "confirm all still in stock".
+// An "Available" entry that has not been confirmed for longer than the threshold is shown
+// to customers as "Unconfirmed" instead, and ranked after confirmed stock. The stored
+// status is left alone, so confirming again restores it.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_UNCONFIRMED_AFTER_DAYS = 14;
+
+let unconfirmedAfterDays = DEFAULT_UNCONFIRMED_AFTER_DAYS;
+
+/**
+ * Sets how many days "Available" stock stays confirmed. Call once at startup.
+ * @param days The threshold in days. Invalid values fall back to the default.
+ */
+export const setStockConfirmationThreshold = (days: number | string | undefined) => {
+    if (days === undefined || days === '') {
+        unconfirmedAfterDays = DEFAULT_UNCONFIRMED_AFTER_DAYS;
+        return;
+    }
+    const parsed = typeof days === 'string' ? parseFloat(days) : days;
+    if (!(parsed > 0)) {
+        console.error(`Ignoring invalid stock confirmation threshold "${days}", using ${DEFAULT_UNCONFIRMED_AFTER_DAYS} days.`);
+    }
+    unconfirmedAfterDays = parsed > 0 ? parsed : DEFAULT_UNCONFIRMED_AFTER_DAYS;
+};
+
+export const getStockConfirmationThreshold = () => unconfirmedAfterDays;
+
+/**
+ * The stock status customers should see for an entry.
+ * @param entry The status the owner set, when they last confirmed it and, optionally, the quantity on hand.
+ * @param now The current time.
+ * @returns Unconfirmed for "Available" stock that is too old to trust, otherwise the status
+ *          derived from the quantity (see stockLevels.ts).
+ */
+export const getEffectiveStockStatus = (entry: StockLevel & { lastConfirmedAt?: number }, now = Date.now()): StockStatus => {
+    const status = getStockLevelStatus(entry);
+    if (status === StockStatus.Unavailable || entry.stock !== StockStatus.Available) return status;
+    if (entry.lastConfirmedAt === undefined || now - entry.lastConfirmedAt > unconfirmedAfterDays * DAY_MS) {
+        return StockStatus.Unconfirmed;
+    }
+    return status;
+};
+
+/**
+ * Describes how long ago stock was confirmed, e.g. "Updated 2 days ago".
+ * @param lastConfirmedAt When the owner last confirmed it; undefined if never.
+ * @param now The current time.
+ */
+export const describeConfirmationAge = (lastConfirmedAt: number | undefined, now = Date.now()): string => {
+    if (lastConfirmedAt === undefined) return 'Last update unknown';
+    const days = Math.floor(Math.max(0, now - lastConfirmedAt) / DAY_MS);
+    if (days === 0) return 'Updated today';
+    if (days === 1) return 'Updated yesterday';
+    return `Updated ${days} days ago`;
+};
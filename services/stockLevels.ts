@@ -0,0 +1,49 @@
+import { StockStatus } from '../types';
+
+// --- Quantity-based stock levels ---
+// Owners can record how many strips they have on hand and the level at which they reorder.
+// Customers then see "Low Stock" at or below the reorder threshold and "Last Few" when only
+// a handful are left. Items without a quantity keep the plain Available/Unavailable status.
+
+// At or below this many strips an item is shown as "Last Few", whatever its reorder threshold.
+export const LAST_FEW_UNITS = 3;
+
+export interface StockLevel {
+    stock: StockStatus;
+    /** Strips on hand; undefined when the owner does not track quantities for the item. */
+    quantity?: number;
+    /** Reorder when the quantity drops to this level. */
+    reorderThreshold?: number;
+}
+
+/**
+ * Derives the stock status from the quantity on hand.
+ * @param level The owner's stock status, quantity and reorder threshold.
+ * @returns Unavailable when none are left, Last Few or Low Stock when running out, otherwise the owner's status.
+ */
+export const getStockLevelStatus = ({ stock, quantity, reorderThreshold }: StockLevel): StockStatus => {
+    if (stock !== StockStatus.Available || quantity === undefined) return stock;
+    if (quantity <= 0) return StockStatus.Unavailable;
+    if (quantity <= LAST_FEW_UNITS) return StockStatus.LastFew;
+    if (reorderThreshold !== undefined && quantity <= reorderThreshold) return StockStatus.LowStock;
+    return StockStatus.Available;
+};
+
+/**
+ * Whether customers can count on buying the medicine, i.e. confirmed stock, even if running low.
+ */
+export const isInStock = (status: StockStatus): boolean =>
+    status === StockStatus.Available || status === StockStatus.LowStock || status === StockStatus.LastFew;
+
+/**
+ * Whether an item the owner lists as available has dropped to its reorder threshold or below.
+ */
+export const needsRestock = ({ stock, quantity, reorderThreshold }: StockLevel): boolean =>
+    stock === StockStatus.Available && quantity !== undefined && (quantity <= (reorderThreshold ?? LAST_FEW_UNITS));
+
+/**
+ * Describes a low quantity for customers, e.g. "Only 2 strips left".
+ * @param quantity Strips on hand.
+ */
+export const describeQuantityLeft = (quantity: number): string =>
+    `Only ${quantity} ${quantity === 1 ? 'strip' : 'strips'} left`;
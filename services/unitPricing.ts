@@ -0,0 +1,118 @@
+import type { PackSize } from '../types';
+import { parseMedicineName } from './medicineCatalog';
+import type { DosageForm } from './medicineCatalog';
+
+// --- Pack-size aware unit pricing ---
+// Pharmacies sell the same medicine in different packs (a strip of 10 or 15 tablets, a 60 ml
+// or 100 ml bottle), so pack prices can't be compared directly. Owners record the pack size;
+// when they haven't, it is read from the medicine name if it says, e.g. "Crocin 15 tablets".
+// Prices are then compared per tablet, ml or g.
+
+const COUNTABLE_UNIT_LABELS: Partial<Record<DosageForm, string>> = {
+    tablet: 'tablet',
+    capsule: 'capsule',
+    sachet: 'sachet',
+};
+
+interface PricedItem {
+    medicineName: string;
+    price: number;
+    packSize?: PackSize;
+}
+
+/**
+ * The pack an item is sold in.
+ * @param item The item; a recorded pack size wins over one read from its name.
+ * @returns The pack size, or undefined if it isn't known.
+ */
+export const getPackSize = (item: Pick<PricedItem, 'medicineName' | 'packSize'>): PackSize | undefined =>
+    item.packSize ?? parseMedicineName(item.medicineName).packSize;
+
+/**
+ * Names what a pack is counted in, e.g. 'tablet' or 'ml'.
+ * @param unit The pack size unit.
+ * @param form The dosage form, used to name countable units.
+ */
+export const getUnitLabel = (unit: PackSize['unit'], form?: DosageForm): string =>
+    unit === 'unit' ? (form && COUNTABLE_UNIT_LABELS[form]) || 'unit' : unit;
+
+const pluralize = (label: string, quantity: number) =>
+    quantity === 1 || label === 'ml' || label === 'g' ? label : `${label}s`;
+
+export interface UnitPrice {
+    /** The price per unit, rounded to 4 decimal places so sorting is stable. */
+    unitPrice: number;
+    unitLabel: string;
+    /** Describes what the pack price buys, e.g. "per strip of 10 tablets". */
+    priceUnit: string;
+}
+
+/**
+ * Works out the per-unit price of an item.
+ * @param item The medicine name, pack price and, optionally, the recorded pack size.
+ * @returns The unit price, or null when the pack size isn't known.
+ */
+export const getUnitPrice = (item: PricedItem): UnitPrice | null => {
+    const packSize = getPackSize(item);
+    if (!packSize || !(packSize.quantity > 0)) return null;
+
+    const unitLabel = getUnitLabel(packSize.unit, parseMedicineName(item.medicineName).form);
+    const quantity = parseFloat(packSize.quantity.toFixed(2));
+    return {
+        unitPrice: parseFloat((item.price / packSize.quantity).toFixed(4)),
+        unitLabel,
+        priceUnit: packSize.unit === 'unit'
+            ? `per ${unitLabel === 'tablet' || unitLabel === 'capsule' ? 'strip' : 'pack'} of ${quantity} ${pluralize(unitLabel, quantity)}`
+            : `per ${quantity} ${unitLabel} pack`,
+    };
+};
+
+/**
+ * Describes what a pack price buys when the pack size isn't known.
+ * @param medicineName The medicine name, used to tell tablets (sold in strips) from other forms.
+ */
+export const getDefaultPriceUnit = (medicineName: string): string => {
+    const form = parseMedicineName(medicineName).form;
+    return !form || COUNTABLE_UNIT_LABELS[form] ? 'per strip' : 'per pack';
+};
+
+/**
+ * Formats a unit price for display, e.g. "₹1.20 per tablet".
+ */
+export const formatUnitPrice = (unitPrice: number, unitLabel: string): string =>
+    `₹${unitPrice < 1 ? unitPrice.toFixed(3).replace(/0$/, '') : unitPrice.toFixed(2)} per ${unitLabel}`;
+
+interface UnitPricedResult {
+    price: number;
+    unitPrice?: number;
+    unitLabel?: string;
+}
+
+/**
+ * Orders results by price, comparing like with like: results priced in the same unit are compared
+ * per unit and kept together, and each group is placed by its cheapest pack, as are results whose
+ * pack size isn't known. Every result gets one key, so the order doesn't depend on the input order.
+ * @param results The results that will be sorted, used to find each unit's cheapest pack.
+ * @returns A comparator for `Array.prototype.sort`.
+ */
+export const createUnitPriceComparator = <T extends UnitPricedResult>(results: T[]): ((a: T, b: T) => number) => {
+    const cheapestPackByUnit = new Map<string, number>();
+    results.forEach(({ price, unitPrice, unitLabel }) => {
+        if (unitPrice === undefined || unitLabel === undefined) return;
+        cheapestPackByUnit.set(unitLabel, Math.min(price, cheapestPackByUnit.get(unitLabel) ?? Infinity));
+    });
+    const sortKey = ({ price, unitPrice, unitLabel }: T) => {
+        const groupPrice = unitPrice !== undefined && unitLabel !== undefined ? cheapestPackByUnit.get(unitLabel) : undefined;
+        return groupPrice === undefined
+            ? { groupPrice: price, unitLabel: '', unitPrice: 0, price }
+            : { groupPrice, unitLabel: unitLabel ?? '', unitPrice: unitPrice ?? 0, price };
+    };
+    return (a, b) => {
+        const keyA = sortKey(a);
+        const keyB = sortKey(b);
+        return keyA.groupPrice - keyB.groupPrice
+            || keyA.unitLabel.localeCompare(keyB.unitLabel)
+            || keyA.unitPrice - keyB.unitPrice
+            || keyA.price - keyB.price;
+    };
+};
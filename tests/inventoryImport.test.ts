@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { guessColumnMapping, previewInventoryImport } from '../services/inventoryImport';
+import { parseCsv } from '../services/spreadsheetFiles';
+
+test('import rows are numbered as in the file, counting blank rows', () => {
+    const rows = parseCsv(readFileSync(new URL('./fixtures/stock-list.csv', import.meta.url), 'utf8'));
+    const { mapping, hasHeaderRow } = guessColumnMapping(rows);
+    assert.deepEqual(mapping, { medicineName: 1, price: 2, stock: 3, packSize: 4 });
+
+    const preview = previewInventoryImport(rows, mapping, { hasHeaderRow, currentInventory: [] });
+    assert.deepEqual(preview.rows.map(row => row.rowNumber), [3, 4, 5, 7]);
+    assert.deepEqual(preview.rows[2].errors, ['Price "abc" is not a number.']);
+    assert.deepEqual(preview.items.map(item => [item.medicineName, item.price]), [
+        ['Dolo 650', 30.5],
+        ['Crocin Advance, 500mg', 45],
+        ['Benadryl Syrup 100ml', 1250],
+    ]);
+});
+
+test('the header row is found below blank rows', () => {
+    const rows = [[''], ['Medicine', 'Price'], ['Dolo 650', '30']];
+    const { mapping, hasHeaderRow } = guessColumnMapping(rows);
+    const preview = previewInventoryImport(rows, mapping, { hasHeaderRow, currentInventory: [] });
+    assert.deepEqual(preview.rows.map(row => row.rowNumber), [3]);
+});
+
+test('column names are matched on whole words and code columns are skipped', () => {
+    const { mapping } = guessColumnMapping([['Item Code', 'Item Description', 'Packaging', 'MRP (Rs)', 'Qty']]);
+    assert.deepEqual(mapping, { medicineName: 1, price: 3, stock: 4, packSize: null });
+});
@@ -0,0 +1,56 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import type { ChildProcess } from 'node:child_process';
+import { createHttpRepository, SAVE_CONFLICT_MESSAGE } from '../services/pharmacyRepository';
+
+// Runs the HTTP repository against the stand-in server in scripts/pharmacyServer.mjs.
+
+let server: ChildProcess;
+let apiUrl: string;
+
+before(async () => {
+    server = spawn(process.execPath, ['scripts/pharmacyServer.mjs', '--port', '0'], { stdio: ['ignore', 'pipe', 'inherit'] });
+    apiUrl = await new Promise<string>((resolve, reject) => {
+        server.stdout!.on('data', (chunk: Buffer) => {
+            const match = chunk.toString().match(/http:\/\/\S+\/api/);
+            if (match) resolve(match[0]);
+        });
+        server.on('exit', code => reject(new Error(`The stand-in server exited with code ${code}.`)));
+    });
+});
+
+after(() => {
+    server.kill();
+});
+
+const documentWith = (revision: string, name: string) => JSON.stringify({ schemaVersion: 1, revision, name });
+
+test('the HTTP repository reads, writes and detects conflicting writes', async () => {
+    const repository = createHttpRepository(`${apiUrl}/`);
+    assert.equal(await repository.load(), null);
+
+    await repository.save(documentWith('r1', 'first'), { current: 'r1', previous: null });
+    assert.equal(await repository.load(), documentWith('r1', 'first'));
+
+    await repository.save(documentWith('r2', 'second'), { current: 'r2', previous: 'r1' });
+    assert.equal(await repository.load(), documentWith('r2', 'second'));
+
+    // Another client that read r1 must not overwrite r2.
+    await assert.rejects(
+        repository.save(documentWith('r3', 'stale'), { current: 'r3', previous: 'r1' }),
+        { message: SAVE_CONFLICT_MESSAGE }
+    );
+    assert.equal(await repository.load(), documentWith('r2', 'second'));
+
+    // A save without revisions, e.g. restoring a backup, replaces whatever is stored.
+    await repository.save(documentWith('r4', 'restored'));
+    assert.equal(await repository.load(), documentWith('r4', 'restored'));
+});
+
+test('the HTTP repository reports server errors', async () => {
+    const repository = createHttpRepository(`${apiUrl}/missing`);
+    await assert.rejects(repository.save('{}'), /HTTP 404/);
+    const invalid = createHttpRepository(apiUrl);
+    await assert.rejects(invalid.save('not json'), /HTTP 400/);
+});
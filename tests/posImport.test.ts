@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { StockStatus } from '../types';
+import { detectPosExportFormat, diffPosImport } from '../services/posImport';
+import type { PosExportFile } from '../services/posImport';
+
+const readFixture = (fileName: string): PosExportFile => ({
+    fileName,
+    text: readFileSync(new URL(`./fixtures/${fileName}`, import.meta.url), 'utf8'),
+});
+
+test('a Marg stock report is recognised below its title rows and read batch by batch', () => {
+    const file = readFixture('marg-stock-report.csv');
+    const format = detectPosExportFormat(file);
+    assert.equal(format?.id, 'marg-csv');
+    assert.equal(format.listsWholeStock, true);
+
+    const { items, skipped } = format.parse(file);
+    // The selling rate is preferred to the MRP; negative stock counts as none.
+    assert.deepEqual(items.map(item => [item.medicineName, item.price, item.quantity, item.stock]), [
+        ['DOLO 650 TAB', 30.5, 12, StockStatus.Available],
+        ['DOLO 650 TAB', 31, 0, StockStatus.Unavailable],
+        ['CROCIN ADVANCE 500MG', 19, 0, StockStatus.Unavailable],
+        ['BENADRYL SYRUP', 1200, 3, StockStatus.Available],
+    ]);
+    assert.deepEqual(items[3].packSize, { quantity: 100, unit: 'ml' });
+    assert.deepEqual(skipped, [
+        { location: 'Row 8', reason: 'CROCIN ADVANCE 500MG has no price.' },
+        { location: 'Row 10', reason: 'PAN 40 TAB has no price.' },
+    ]);
+});
+
+test('a stock list with packing and MRP columns is not taken for a Marg report', () => {
+    const file = readFixture('price-list.csv');
+    const format = detectPosExportFormat(file);
+    assert.equal(format?.id, 'csv');
+    assert.equal(format.listsWholeStock, false);
+    assert.deepEqual(format.parse(file).items.map(item => [item.medicineName, item.price]), [
+        ['Dolo 650', 33],
+        ['Crocin Advance', 20],
+    ]);
+});
+
+test('items missing from an export are only marked unavailable when it is the whole stock', () => {
+    const current = [
+        { medicineName: 'Dolo 650 Tab', price: 30, stock: StockStatus.Available, quantity: 5 },
+        { medicineName: 'Azithral 500', price: 120, stock: StockStatus.Available, quantity: 2 },
+    ];
+    const exported = [
+        { medicineName: 'DOLO 650 TAB', price: 30.5, stock: StockStatus.Available, quantity: 12 },
+        { medicineName: 'DOLO 650 TAB', price: 31, stock: StockStatus.Unavailable, quantity: 0 },
+    ];
+
+    const partial = diffPosImport(exported, current, { markMissingUnavailable: false });
+    assert.deepEqual(partial.counts, { added: 0, updated: 1, markedUnavailable: 0, unchanged: 0 });
+    // Batches are added up, and the one still in stock sets the price; the owner's spelling is kept.
+    assert.deepEqual(partial.items, [{ medicineName: 'Dolo 650 Tab', price: 30.5, stock: StockStatus.Available, quantity: 12, packSize: undefined }]);
+
+    const whole = diffPosImport(exported, current, { markMissingUnavailable: true });
+    assert.deepEqual(whole.counts, { added: 0, updated: 1, markedUnavailable: 1, unchanged: 0 });
+    assert.deepEqual(whole.items[1], { medicineName: 'Azithral 500', price: 120, stock: StockStatus.Unavailable, quantity: 0 });
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { parseCsv, parseXlsx } from '../services/spreadsheetFiles';
+
+// The .xlsx fixtures were written with Python's zipfile: stock-list.xlsx is deflated, with the
+// stock on the second worksheet file but first in tab order; stock-list-stored.xlsx is not
+// compressed and has no workbook, so its sheet1.xml is read.
+
+const readFixture = (name: string): ArrayBuffer => {
+    const bytes = readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+test('parseCsv reads quoted cells and keeps every row in its place', () => {
+    const rows = parseCsv(new TextDecoder().decode(readFixture('stock-list.csv')));
+    assert.deepEqual(rows[0], ['Item Code', 'Medicine Name', 'MRP (Rs)', 'Stock', 'Pack Size']);
+    assert.deepEqual(rows[1], ['']);
+    assert.deepEqual(rows[3], ['C500', 'Crocin Advance, 500mg', '45', '12', "10's"]);
+    // The line break inside the quoted name doesn't start a new row.
+    assert.deepEqual(rows[4], ['A625', 'Augmentin\n625 Duo', 'abc', 'Available', '']);
+    assert.deepEqual(rows[6], ['B100', 'Benadryl Syrup 100ml', '1,250.00', 'Out of stock', '100 ml']);
+});
+
+test('parseCsv detects semicolon and tab delimiters', () => {
+    assert.deepEqual(parseCsv('\uFEFFName;Price\r\nDolo 650;30,50'), [['Name', 'Price'], ['Dolo 650', '30,50']]);
+    assert.deepEqual(parseCsv('Name\tPrice\n"Pan ""D"""\t99'), [['Name', 'Price'], ['Pan "D"', '99']]);
+});
+
+test('parseXlsx reads the first worksheet in tab order from a deflated file', async () => {
+    assert.deepEqual(await parseXlsx(readFixture('stock-list.xlsx')), [
+        ['Medicine Name', 'Price', 'Stock'],
+        [],
+        // Rich text runs are joined and the phonetic hint is left out.
+        ['Dolo 650', '30.5', 'Available'],
+        [],
+        ['Shelcal 500', '', 'TRUE'],
+        ['Betadine & Co', '120'],
+    ]);
+});
+
+test('parseXlsx reads uncompressed files without a workbook', async () => {
+    assert.deepEqual(await parseXlsx(readFixture('stock-list-stored.xlsx')), [['Name', 'Rate'], ['Pan 40', '99']]);
+});
+
+test('parseXlsx rejects files that are not zip archives', async () => {
+    await assert.rejects(parseXlsx(readFixture('stock-list.csv')), { message: 'This file is not a valid .xlsx spreadsheet.' });
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createUnitPriceComparator, getUnitPrice } from '../services/unitPricing';
+
+const permutations = <T>(items: T[]): T[][] =>
+    items.length <= 1 ? [items] : items.flatMap((item, i) =>
+        permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+
+test('getUnitPrice reads the pack size from the name when none is recorded', () => {
+    assert.deepEqual(getUnitPrice({ medicineName: 'Crocin 15 tablets', price: 30 }), {
+        unitPrice: 2,
+        unitLabel: 'tablet',
+        priceUnit: 'per strip of 15 tablets',
+    });
+    assert.equal(getUnitPrice({ medicineName: 'Crocin', price: 30 }), null);
+});
+
+test('createUnitPriceComparator gives the same order whatever the input order', () => {
+    const results = [
+        { id: 'a', price: 10, unitPrice: 1, unitLabel: 'tablet' },
+        { id: 'b', price: 12 },
+        { id: 'c', price: 15, unitPrice: 0.5, unitLabel: 'tablet' },
+        { id: 'd', price: 60, unitPrice: 0.6, unitLabel: 'ml' },
+        { id: 'e', price: 8 },
+    ];
+    const compare = createUnitPriceComparator(results);
+    const orders = permutations(results).map(order => [...order].sort(compare).map(result => result.id).join(''));
+    // The tablets go together, cheapest per tablet first, placed by their cheapest pack (₹10).
+    assert.deepEqual(new Set(orders), new Set(['ecabd']));
+});
@@ -2,6 +2,12 @@
 export enum StockStatus {
   Available = 'Available',
   Unavailable = 'Unavailable',
+  /** Shown to customers for "Available" stock the owner has not confirmed recently. Never stored. */
+  Unconfirmed = 'Unconfirmed',
+  /** At or below the owner's reorder threshold. Never stored; derived from the quantity. */
+  LowStock = 'Low Stock',
+  /** Only a handful of strips left. Never stored; derived from the quantity. */
+  LastFew = 'Last Few',
 }
 
 export interface AlternativeMedicine {
@@ -10,8 +16,11 @@ export interface AlternativeMedicine {
   priceUnit: string;
 }
 
+/** Opaque and unique; see services/pharmacyIds.ts. */
+export type PharmacyId = string;
+
 export interface Pharmacy {
-  id: number;
+  id: PharmacyId;
   name: string;
   price: number;
   priceUnit: string;
@@ -23,6 +32,77 @@ export interface Pharmacy {
   lat: number;
   lon: number;
   alternative?: AlternativeMedicine;
+  /** The product name as stocked by this pharmacy, which may differ from the search (e.g. a brand). */
+  matchedMedicineName?: string;
+  /** When the owner last confirmed this price and stock, as a Unix timestamp in milliseconds. */
+  lastConfirmedAt?: number;
+  /** Strips on hand, if the pharmacy tracks quantities for this medicine. */
+  quantity?: number;
+  /** The price per tablet, ml or g, when the pack size is known; compare these rather than `price`. */
+  unitPrice?: number;
+  /** What `unitPrice` is per, e.g. 'tablet' or 'ml'. */
+  unitLabel?: string;
+  /** The pharmacy's weekly hours; undefined for pharmacies registered before hours were recorded. */
+  openingHours?: OpeningHours;
+  /** Whether the pharmacy is open at search time; undefined when its hours are not known. */
+  isOpenNow?: boolean;
+  /** How this result scored against the user's "Best Option" preferences. Only set for pharmacies with stock. */
+  scoreBreakdown?: ScoreBreakdown;
+  /** The price looks wrong and hasn't been confirmed by the owner, so it is ranked with unconfirmed stock. */
+  priceUnderReview?: boolean;
+}
+
+/** Opening and closing time, as "HH:MM" in local 24-hour time. A closing time at or before the opening time runs past midnight. */
+export interface DailyHours {
+  open: string;
+  close: string;
+}
+
+/** Different hours on one date, e.g. a public holiday. */
+export interface HolidayHours {
+  /** The local date, as "YYYY-MM-DD". */
+  date: string;
+  /** The hours on that date, or null if closed all day. */
+  hours: DailyHours | null;
+}
+
+export interface OpeningHours {
+  /** Open around the clock every day, except for any holiday overrides. */
+  alwaysOpen: boolean;
+  /** Hours for each day of the week, Sunday first; null on days the pharmacy is closed. */
+  weekly: (DailyHours | null)[];
+  holidays: HolidayHours[];
+}
+
+/** A pharmacy that is open right now, for emergency searches. */
+export interface OpenPharmacy extends Pick<Pharmacy, 'id' | 'name' | 'address' | 'phone' | 'lat' | 'lon' | 'distance'> {
+  /** When it closes, e.g. "Open until 2 AM" or "Open 24 hours". */
+  openingLabel: string;
+  /** Stock of the medicine the user asked about; undefined when they did not give one. */
+  medicineStock?: StockStatus;
+  matchedMedicineName?: string;
+  price?: number;
+}
+
+export type ScoreFactor = 'price' | 'distance' | 'freshness' | 'openNow';
+
+/** How much each factor counts towards the "Best Option", from 0 (ignored) upwards. */
+export type BestOptionWeights = Record<ScoreFactor, number>;
+
+export interface ScoreComponent {
+  factor: ScoreFactor;
+  label: string;
+  weight: number;
+  /** How well the pharmacy does on this factor, from 0 (worst) to 1 (best). */
+  value: number;
+  /** A short, human-readable explanation, e.g. "₹5.00 more than the cheapest". */
+  detail: string;
+}
+
+export interface ScoreBreakdown {
+  /** The weighted score out of 100; higher is better. */
+  total: number;
+  components: ScoreComponent[];
 }
 
 export type SortKey = 'price' | 'distance' | 'availability';
@@ -32,6 +112,8 @@ export type FontSize = 'base' | 'lg' | 'xl';
 export interface SearchConfirmation {
   suggestion: string | null;
   original: string;
+  /** Further close matches from the local inventory, after the main suggestion. */
+  alternatives?: string[];
 }
 
 export interface PharmacyOwner {
@@ -40,8 +122,79 @@ export interface PharmacyOwner {
   address: string;
 }
 
+export interface PackSize {
+  quantity: number;
+  /** 'unit' for countable forms (tablets, capsules, sachets), otherwise 'ml' or 'g'. */
+  unit: 'unit' | 'ml' | 'g';
+}
+
 export interface InventoryItem {
   medicineName: string;
   price: number;
   stock: StockStatus;
+  /** When the price was last changed, as a Unix timestamp in milliseconds. Unknown for items priced before history was kept. */
+  priceChangedAt?: number;
+  /** When the owner last confirmed this item, as a Unix timestamp in milliseconds. */
+  lastConfirmedAt?: number;
+  /** Strips on hand. Leave undefined to not track quantities for this item. */
+  quantity?: number;
+  /** Reorder when the quantity drops to this level. */
+  reorderThreshold?: number;
+  /** What one unit of `price` buys, e.g. a strip of 10 tablets. Unknown for items saved without one. */
+  packSize?: PackSize;
+  /** Set while the price looks wrong and is kept out of search ranking until the owner confirms it. */
+  priceFlag?: PriceFlag;
+}
+
+/** Why a price was held back from search ranking (see services/priceAnomalies.ts). */
+export interface PriceFlag {
+  reasons: string[];
+  /** When the price was flagged, as a Unix timestamp in milliseconds. */
+  flaggedAt: number;
+}
+
+export interface PricePoint {
+  price: number;
+  /** When the pharmacy started charging this price, as a Unix timestamp in milliseconds. */
+  changedAt: number;
+}
+
+export interface BasketLine {
+  /** The medicine as it appears in the user's list. */
+  medicineName: string;
+  /** The product the pharmacy stocks for it, which may differ (e.g. a brand). */
+  matchedMedicineName: string;
+  price: number;
+}
+
+export interface BasketStop {
+  pharmacyId: PharmacyId;
+  name: string;
+  address: string;
+  phone: string;
+  lat: number;
+  lon: number;
+  /** Distance from the user, in kilometers. */
+  distance: number;
+  /** The medicines to buy at this stop. */
+  items: BasketLine[];
+  subtotal: number;
+}
+
+export interface BasketOption {
+  /** One stop, or two in the order they are best visited. */
+  stops: BasketStop[];
+  totalCost: number;
+  /** Kilometers from the user to the first stop and on to the second, as the crow flies. */
+  travelDistance: number;
+}
+
+export interface BasketSearchResult {
+  medicines: string[];
+  /** Pharmacies that stock every medicine on the list, cheapest first. */
+  completePharmacies: BasketOption[];
+  /** The cheapest pair of pharmacies that together stock everything, if it beats every single pharmacy. */
+  cheapestTwoStop: BasketOption | null;
+  /** Medicines that no pharmacy in range has in stock. */
+  unavailableMedicines: string[];
 }
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND),
+        'process.env.PHARMACY_API_URL': JSON.stringify(env.PHARMACY_API_URL),
+        'process.env.STOCK_UNCONFIRMED_AFTER_DAYS': JSON.stringify(env.STOCK_UNCONFIRMED_AFTER_DAYS)
       },
       resolve: {
         alias: {